@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ChevronDown, TrendingUp, Wallet, BarChart3, Moon, Sun } from "lucide-react";
 import { MobileDrawer } from "./MobileDrawer";
+import { DeadMansSwitchControl } from "./trading/DeadMansSwitchControl";
 
 // --- 1. Import the Enhanced Wallet Connect component ---
 import { EnhancedWalletConnect } from "@/components/wallet/EnhancedWalletConnect";
@@ -56,6 +57,8 @@ export const Header = () => {
         </div>
 
         <div className="flex items-center gap-2">
+          <DeadMansSwitchControl />
+
           {/* Increase touch target size for mobile */}
           <Button variant="ghost" size="icon" className="min-w-[44px] min-h-[44px]" onClick={() => setTheme(theme === "dark" ? "light" : "dark")}> 
             <Sun className="h-5 w-5 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
@@ -1,6 +1,8 @@
 import React, { useMemo, useCallback } from 'react';
 import { useVirtualScroll } from '@/hooks/usePerformance';
 import { cn } from '@/lib/utils';
+import { isSameGrouping, BookGrouping, GroupingOption, LevelChange } from '@/lib/orderBook';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface VirtualListProps<T> {
   items: T[];
@@ -168,6 +170,8 @@ interface OrderBookEntry {
   price: number;
   size: number;
   total: number;
+  orders?: number;       // Number of resting orders at the level
+  change?: LevelChange;  // Size change since the previous update
 }
 
 interface VirtualOrderBookProps {
@@ -176,14 +180,28 @@ interface VirtualOrderBookProps {
   height: number;
   onPriceClick?: (price: number) => void;
   precision?: number;
+  maxTotal?: number;     // Scales the cumulative depth bars
+  grouping?: BookGrouping;
+  groupingOptions?: GroupingOption[];
+  onGroupingChange?: (grouping: BookGrouping) => void;
 }
 
+const changeHighlight: Record<LevelChange, string> = {
+  new: 'bg-primary/15',
+  increase: 'bg-success/20',
+  decrease: 'bg-destructive/20'
+};
+
 export const VirtualOrderBook: React.FC<VirtualOrderBookProps> = ({
   bids,
   asks,
   height,
   onPriceClick,
-  precision = 2
+  precision = 2,
+  maxTotal,
+  grouping,
+  groupingOptions,
+  onGroupingChange
 }) => {
   const formatPrice = useCallback((price: number) => 
     price.toFixed(precision), [precision]);
@@ -191,22 +209,56 @@ export const VirtualOrderBook: React.FC<VirtualOrderBookProps> = ({
   const formatSize = useCallback((size: number) => 
     size.toLocaleString(undefined, { maximumFractionDigits: 4 }), []);
 
+  const depthScale = maxTotal || Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0);
+  const showOrders = bids.some(entry => entry.orders !== undefined) || asks.some(entry => entry.orders !== undefined);
+  const showGrouping = !!onGroupingChange && !!groupingOptions && groupingOptions.length > 1;
+
+  const renderSize = useCallback((item: OrderBookEntry) => (
+    <span
+      className={cn(
+        'font-mono text-xs px-1 py-0.5 rounded transition-colors duration-300',
+        item.change && changeHighlight[item.change]
+      )}
+    >
+      {formatSize(item.size)}
+    </span>
+  ), [formatSize]);
+
+  const renderTotal = useCallback((item: OrderBookEntry, side: 'bid' | 'ask') => (
+    <div className="relative">
+      <div
+        className={cn(
+          'absolute inset-y-0 rounded-sm',
+          side === 'bid' ? 'right-0 bg-success/10' : 'left-0 bg-destructive/10'
+        )}
+        style={{ width: `${depthScale ? (item.total / depthScale) * 100 : 0}%` }}
+      />
+      <span className="relative font-mono text-xs">{formatSize(item.total)}</span>
+    </div>
+  ), [depthScale, formatSize]);
+
+  const ordersColumn = useMemo(() => ({
+    key: 'orders',
+    header: 'Orders',
+    width: 56,
+    render: (item: OrderBookEntry) => (
+      <span className="font-mono text-xs text-muted-foreground">{item.orders ?? ''}</span>
+    )
+  }), []);
+
   const bidColumns = useMemo(() => [
     {
       key: 'total',
       header: 'Total',
       width: 80,
-      render: (item: OrderBookEntry) => (
-        <span className="font-mono text-xs">{formatSize(item.total)}</span>
-      )
+      render: (item: OrderBookEntry) => renderTotal(item, 'bid')
     },
+    ...(showOrders ? [ordersColumn] : []),
     {
       key: 'size',
       header: 'Size',
       width: 80,
-      render: (item: OrderBookEntry) => (
-        <span className="font-mono text-xs">{formatSize(item.size)}</span>
-      )
+      render: renderSize
     },
     {
       key: 'price',
@@ -221,7 +273,7 @@ export const VirtualOrderBook: React.FC<VirtualOrderBookProps> = ({
         </span>
       )
     }
-  ], [formatPrice, formatSize, onPriceClick]);
+  ], [formatPrice, renderSize, renderTotal, ordersColumn, showOrders, onPriceClick]);
 
   const askColumns = useMemo(() => [
     {
@@ -241,24 +293,48 @@ export const VirtualOrderBook: React.FC<VirtualOrderBookProps> = ({
       key: 'size',
       header: 'Size',
       width: 80,
-      render: (item: OrderBookEntry) => (
-        <span className="font-mono text-xs">{formatSize(item.size)}</span>
-      )
+      render: renderSize
     },
+    ...(showOrders ? [ordersColumn] : []),
     {
       key: 'total',
       header: 'Total',
       width: 80,
-      render: (item: OrderBookEntry) => (
-        <span className="font-mono text-xs">{formatSize(item.total)}</span>
-      )
+      render: (item: OrderBookEntry) => renderTotal(item, 'ask')
     }
-  ], [formatPrice, formatSize, onPriceClick]);
+  ], [formatPrice, renderSize, renderTotal, ordersColumn, showOrders, onPriceClick]);
 
-  const halfHeight = Math.floor(height / 2);
+  const selectedGrouping = showGrouping
+    ? groupingOptions!.findIndex(option => grouping && isSameGrouping(option, grouping))
+    : -1;
+  const halfHeight = Math.floor((showGrouping ? height - 32 : height) / 2);
 
   return (
     <div className="flex flex-col h-full">
+      {/* Price grouping */}
+      {showGrouping && (
+        <div className="flex items-center justify-end h-8 px-2">
+          <Select
+            value={selectedGrouping >= 0 ? selectedGrouping.toString() : undefined}
+            onValueChange={(value) => {
+              const { nSigFigs, mantissa } = groupingOptions![parseInt(value, 10)];
+              onGroupingChange!({ nSigFigs, mantissa });
+            }}
+          >
+            <SelectTrigger className="h-6 w-24 text-xs">
+              <SelectValue placeholder="Group" />
+            </SelectTrigger>
+            <SelectContent>
+              {groupingOptions!.map((option, index) => (
+                <SelectItem key={option.label} value={index.toString()} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Asks (top half, reversed order) */}
       <VirtualTable
         data={[...asks].reverse()}
@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -16,6 +16,10 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useMobileDetection, useTouchGestures, useMobileViewport } from '@/hooks/useMobile';
+import { useOrderBook } from '@/hooks/useOrderBook';
+import { AssetRegistry } from '@/lib/assetRegistry';
+import { CandlestickChart } from '@/components/trading/CandlestickChart';
+import type { OrderBookLevel } from '@/lib/orderBook';
 
 interface MobileTradingInterfaceProps {
   selectedAsset: string;
@@ -298,37 +302,32 @@ const MobileTradePanel = ({ asset }: { asset: string }) => {
 
 // Mobile Chart Panel Component
 const MobileChartPanel = ({ asset }: { asset: string }) => {
-  const [timeframe, setTimeframe] = useState('1H');
-  
-  return (
-    <div className="flex flex-col h-full">
-      {/* Timeframe Selection */}
-      <div className="flex items-center gap-1 p-2 border-b border-border overflow-x-auto">
-        {['1M', '5M', '15M', '1H', '4H', '1D', '1W'].map((tf) => (
-          <Button
-            key={tf}
-            variant={timeframe === tf ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => setTimeframe(tf)}
-            className="shrink-0 h-8 px-3 text-xs"
-          >
-            {tf}
-          </Button>
-        ))}
-      </div>
+  const chartRef = useRef<HTMLDivElement>(null);
 
-      {/* Chart Area */}
-      <div className="flex-1 p-4 flex items-center justify-center bg-muted/10">
-        <div className="text-center">
-          <div className="text-4xl mb-2">📈</div>
-          <div className="text-sm text-muted-foreground">
-            Mobile Chart for {asset}
-          </div>
-          <div className="text-xs text-muted-foreground mt-1">
-            Optimized for touch interaction
-          </div>
-        </div>
-      </div>
+  // Keep chart pans and drawing gestures from reaching the tab swipe handler
+  useEffect(() => {
+    const element = chartRef.current;
+    if (!element) return;
+
+    const stopPropagation = (event: TouchEvent) => event.stopPropagation();
+    const events = ['touchstart', 'touchmove', 'touchend'] as const;
+    events.forEach(type => element.addEventListener(type, stopPropagation));
+
+    return () => {
+      events.forEach(type => element.removeEventListener(type, stopPropagation));
+    };
+  }, []);
+
+  return (
+    <div ref={chartRef} className="flex flex-col h-full">
+      {/* Tap to place drawing points, long-press to delete the selected drawing */}
+      <CandlestickChart
+        coin={AssetRegistry.toCoin(asset)}
+        height={360}
+        defaultInterval="1h"
+        className="rounded-none border-x-0"
+        touchDrawing
+      />
     </div>
   );
 };
@@ -438,7 +437,43 @@ const MobileMenu = () => {
 };
 
 // Mobile Order Book Component
+const MOBILE_BOOK_DEPTH = 5;
+
 const MobileOrderBook = ({ asset }: { asset: string }) => {
+  const { book } = useOrderBook(AssetRegistry.toCoin(asset));
+
+  const asks = (book?.asks ?? []).slice(0, MOBILE_BOOK_DEPTH).reverse();
+  const bids = (book?.bids ?? []).slice(0, MOBILE_BOOK_DEPTH);
+
+  const renderLevel = (level: OrderBookLevel, side: 'bid' | 'ask') => (
+    <div key={`${side}-${level.price}`} className="relative grid grid-cols-3 gap-4 text-xs font-mono">
+      <div
+        className={cn(
+          'absolute inset-y-0 right-0',
+          side === 'bid' ? 'bg-success/10' : 'bg-destructive/10'
+        )}
+        style={{ width: `${book?.maxTotal ? (level.total / book.maxTotal) * 100 : 0}%` }}
+      />
+      <div className={cn('relative', side === 'bid' ? 'text-success' : 'text-destructive')}>
+        {level.price.toLocaleString()}
+      </div>
+      <div
+        className={cn(
+          'relative text-center rounded transition-colors duration-300',
+          level.change === 'increase' && 'bg-success/20',
+          level.change === 'decrease' && 'bg-destructive/20',
+          level.change === 'new' && 'bg-primary/15'
+        )}
+      >
+        {level.size.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+        <span className="text-muted-foreground"> ({level.orders})</span>
+      </div>
+      <div className="relative text-right">
+        {level.total.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+      </div>
+    </div>
+  );
+
   return (
     <div className="p-3">
       <div className="flex items-center justify-between mb-3">
@@ -452,16 +487,18 @@ const MobileOrderBook = ({ asset }: { asset: string }) => {
         <div className="text-right">Total</div>
       </div>
       
-      {/* Simplified order book for mobile */}
-      <div className="space-y-1">
-        {[1, 2, 3, 4, 5].map((i) => (
-          <div key={i} className="grid grid-cols-3 gap-4 text-xs font-mono">
-            <div className="text-destructive">43,251</div>
-            <div className="text-center">0.5234</div>
-            <div className="text-right">22.6</div>
+      {/* Top of book for mobile */}
+      {book ? (
+        <div className="space-y-1">
+          {asks.map(level => renderLevel(level, 'ask'))}
+          <div className="text-center text-xs text-muted-foreground py-1">
+            Spread: {book.spread !== null ? book.spread.toLocaleString() : '—'}
           </div>
-        ))}
-      </div>
+          {bids.map(level => renderLevel(level, 'bid'))}
+        </div>
+      ) : (
+        <div className="text-center text-xs text-muted-foreground py-4">Loading order book...</div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,284 @@
+import { useMemo, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWallet } from "@/contexts/WalletContext";
+import { useAdvancedOrders } from "@/contexts/AdvancedTradingContext";
+import { toTriggerOrder } from "@/hooks/useAdvancedTrading";
+
+type ProtectionKind = "stopLoss" | "takeProfit" | "oco" | "trailingStop";
+
+const PROTECTION_KINDS: Array<{ kind: ProtectionKind; label: string }> = [
+  { kind: "stopLoss", label: "Stop loss" },
+  { kind: "takeProfit", label: "Take profit" },
+  { kind: "oco", label: "TP + SL (OCO)" },
+  { kind: "trailingStop", label: "Trailing stop" }
+];
+
+interface OpenPosition {
+  coin: string;
+  side: "long" | "short";
+  size: number;       // Position size in coins
+  markPrice: number;
+}
+
+interface ActiveOrderRow {
+  type: ProtectionKind;
+  id: string;
+  asset: string;
+  detail: string;
+}
+
+const formatPrice = (price: number) => `$${price.toLocaleString(undefined, { maximumFractionDigits: 6 })}`;
+const formatSize = (size: number) => size.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+// Start a trailing stop one trail distance behind the current mark price
+const buildTrailingStop = (position: OpenPosition, trailAmount: number, trailType: "price" | "percentage") => {
+  const distance = trailType === "percentage" ? position.markPrice * (trailAmount / 100) : trailAmount;
+
+  return {
+    asset: position.coin,
+    side: position.side,
+    size: position.size,
+    trailAmount,
+    trailType,
+    currentStopPrice: position.side === "long" ? position.markPrice - distance : position.markPrice + distance,
+    highWaterMark: position.markPrice,
+    lowWaterMark: position.markPrice
+  };
+};
+
+// Protect open positions with native stop loss, take profit, OCO and trailing
+// stop orders, and list the ones placed from this panel
+export const AdvancedOrdersPanel = () => {
+  const { clearinghouseState } = useWallet();
+  const {
+    stopLossOrders,
+    takeProfitOrders,
+    ocoOrders,
+    trailingStopOrders,
+    isExecuting,
+    isTrailingPaused,
+    createStopLoss,
+    createTakeProfit,
+    createOCO,
+    createTrailingStop,
+    cancelAdvancedOrder
+  } = useAdvancedOrders();
+
+  const [coin, setCoin] = useState("");
+  const [kind, setKind] = useState<ProtectionKind>("stopLoss");
+  const [triggerPrice, setTriggerPrice] = useState("");
+  const [takeProfitPrice, setTakeProfitPrice] = useState("");
+  const [trailAmount, setTrailAmount] = useState("");
+  const [trailType, setTrailType] = useState<"price" | "percentage">("percentage");
+
+  // Sizes come from szi: the UI positions only carry the USD notional
+  const positions = useMemo<OpenPosition[]>(() => (clearinghouseState?.assetPositions ?? [])
+    .map(({ position }) => {
+      const szi = parseFloat(position.szi);
+      return {
+        coin: position.coin,
+        side: szi > 0 ? "long" as const : "short" as const,
+        size: Math.abs(szi),
+        markPrice: szi !== 0 ? parseFloat(position.positionValue) / Math.abs(szi) : 0
+      };
+    })
+    .filter(position => position.size > 0), [clearinghouseState]);
+
+  const position = positions.find(p => p.coin === coin) ?? positions[0];
+
+  const rows: ActiveOrderRow[] = [
+    ...stopLossOrders.map(order => ({
+      type: "stopLoss" as const,
+      id: order.id,
+      asset: order.asset,
+      detail: `SL ${formatSize(order.size)} @ ${formatPrice(order.triggerPrice)}`
+    })),
+    ...takeProfitOrders.map(order => ({
+      type: "takeProfit" as const,
+      id: order.id,
+      asset: order.asset,
+      detail: `TP ${formatSize(order.size)} @ ${formatPrice(order.triggerPrice)}`
+    })),
+    ...ocoOrders.map(order => ({
+      type: "oco" as const,
+      id: order.id,
+      asset: order.asset,
+      detail: `OCO ${order.orders.map(leg => `${leg.tpsl?.toUpperCase()} ${formatPrice(leg.stopPrice ?? 0)}`).join(" / ")}`
+    })),
+    ...trailingStopOrders.map(order => ({
+      type: "trailingStop" as const,
+      id: order.id,
+      asset: order.asset,
+      detail: `Trailing ${order.trailType === "percentage" ? `${order.trailAmount}%` : formatPrice(order.trailAmount)}, stop ${formatPrice(order.currentStopPrice)}`
+    }))
+  ];
+
+  const handleSubmit = async () => {
+    if (!position) return;
+
+    const base = { asset: position.coin, side: position.side, size: position.size, orderType: "market" as const };
+    const trigger = parseFloat(triggerPrice);
+    const created = kind === "stopLoss"
+      ? await createStopLoss({ ...base, triggerPrice: trigger })
+      : kind === "takeProfit"
+        ? await createTakeProfit({ ...base, triggerPrice: trigger })
+        : kind === "oco"
+          ? await createOCO({
+            asset: position.coin,
+            orders: [
+              toTriggerOrder({ ...base, triggerPrice: parseFloat(takeProfitPrice) }, "tp"),
+              toTriggerOrder({ ...base, triggerPrice: trigger }, "sl")
+            ]
+          })
+          : await createTrailingStop(buildTrailingStop(position, parseFloat(trailAmount), trailType));
+
+    if (created) {
+      setTriggerPrice("");
+      setTakeProfitPrice("");
+      setTrailAmount("");
+    }
+  };
+
+  const isValid = !!position && (kind === "trailingStop"
+    ? parseFloat(trailAmount) > 0
+    : parseFloat(triggerPrice) > 0 && (kind !== "oco" || parseFloat(takeProfitPrice) > 0));
+
+  return (
+    <div className="grid gap-4 p-4 lg:grid-cols-[320px_1fr]">
+      <div className="space-y-3">
+        {positions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Open a position to protect it with advanced orders.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Position</Label>
+                <Select value={position?.coin} onValueChange={setCoin}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {positions.map((p) => (
+                      <SelectItem key={p.coin} value={p.coin}>
+                        {p.coin} {p.side === "long" ? "Long" : "Short"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Order</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as ProtectionKind)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROTECTION_KINDS.map(({ kind: value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {kind === "trailingStop" ? (
+              <div className="space-y-1">
+                <Label className="text-xs">Trail distance</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    value={trailAmount}
+                    onChange={(e) => setTrailAmount(e.target.value)}
+                    className="h-8 font-mono-numeric"
+                  />
+                  <Select value={trailType} onValueChange={(value) => setTrailType(value as "price" | "percentage")}>
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">%</SelectItem>
+                      <SelectItem value="price">USD</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {kind === "oco" && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Take profit</Label>
+                    <Input
+                      type="number"
+                      value={takeProfitPrice}
+                      onChange={(e) => setTakeProfitPrice(e.target.value)}
+                      className="h-8 font-mono-numeric"
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs">{kind === "takeProfit" ? "Take profit" : "Stop loss"}</Label>
+                  <Input
+                    type="number"
+                    value={triggerPrice}
+                    onChange={(e) => setTriggerPrice(e.target.value)}
+                    className="h-8 font-mono-numeric"
+                  />
+                </div>
+              </div>
+            )}
+
+            {position && (
+              <div className="text-xs text-muted-foreground">
+                Closes {formatSize(position.size)} {position.coin} at market · Mark {formatPrice(position.markPrice)}
+              </div>
+            )}
+
+            <Button size="sm" className="w-full" onClick={handleSubmit} disabled={!isValid || isExecuting}>
+              {isExecuting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Place order
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {isTrailingPaused && trailingStopOrders.length > 0 && (
+          <p className="text-xs" style={{ color: "hsl(var(--warning))" }}>
+            Price stream disconnected: trailing stops are paused at their last exchange price
+          </p>
+        )}
+        {rows.length === 0 ? (
+          <div className="flex h-24 items-center justify-center text-sm text-muted-foreground">
+            No advanced orders
+          </div>
+        ) : (
+          rows.map((row) => (
+            <div key={row.id} className="flex items-center justify-between rounded-lg bg-muted/50 px-3 py-2 text-xs">
+              <span>
+                <span className="font-medium">{row.asset}</span>{" "}
+                <span className="font-mono-numeric text-muted-foreground">{row.detail}</span>
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                onClick={() => cancelAdvancedOrder(row.type, row.id)}
+                disabled={isExecuting}
+                aria-label="Cancel order"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
@@ -0,0 +1,118 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { calculateRiskReward } from "@/hooks/useAdvancedTrading";
+import {
+  BRACKET_TARGET_MODES,
+  validateBracketPrice,
+  type BracketLeg,
+  type BracketTarget,
+  type BracketTargetMode
+} from "@/lib/brackets";
+
+interface BracketComposerProps {
+  side: "long" | "short";
+  entryPrice: number;
+  size: number;                 // Entry size in coins
+  leverage: number;
+  takeProfit: BracketTarget;
+  stopLoss: BracketTarget;
+  takeProfitPrice: number | null;
+  stopLossPrice: number | null;
+  onTakeProfitChange: (target: BracketTarget) => void;
+  onStopLossChange: (target: BracketTarget) => void;
+}
+
+const formatUsd = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// TP/SL inputs for the order entry panel, with the PnL at each level
+export const BracketComposer = ({
+  side,
+  entryPrice,
+  size,
+  leverage,
+  takeProfit,
+  stopLoss,
+  takeProfitPrice,
+  stopLossPrice,
+  onTakeProfitChange,
+  onStopLossChange
+}: BracketComposerProps) => {
+  const metrics = entryPrice > 0 && size > 0
+    ? calculateRiskReward(entryPrice, stopLossPrice ?? entryPrice, takeProfitPrice ?? entryPrice, size, leverage)
+    : null;
+
+  const renderLeg = (leg: BracketLeg, target: BracketTarget, price: number | null, onChange: (target: BracketTarget) => void) => {
+    const unit = BRACKET_TARGET_MODES.find(({ mode }) => mode === target.mode)!.unit;
+    const error = price !== null && entryPrice > 0 ? validateBracketPrice(price, leg, side, entryPrice) : null;
+    const pnl = leg === "tp" ? metrics?.rewardAmount : metrics?.riskAmount;
+    const roe = metrics && pnl !== undefined ? (pnl / metrics.marginRequired) * 100 : 0;
+
+    return (
+      <div className="space-y-1">
+        <Label className="text-xs">{leg === "tp" ? "Take Profit" : "Stop Loss"}</Label>
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Input
+              type="number"
+              placeholder="Off"
+              value={target.value}
+              onChange={(e) => onChange({ ...target, value: e.target.value })}
+              className="pr-12 font-mono-numeric"
+            />
+            <span className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+              {unit}
+            </span>
+          </div>
+          <Select
+            value={target.mode}
+            onValueChange={(mode) => onChange({ mode: mode as BracketTargetMode, value: "" })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BRACKET_TARGET_MODES.map(({ mode, label }) => (
+                <SelectItem key={mode} value={mode}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {price !== null && (
+          error ? (
+            <p className="text-xs text-destructive">{error}</p>
+          ) : (
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span className="font-mono-numeric">
+                Trigger ${price.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+              </span>
+              {pnl !== undefined && (
+                <span
+                  className="font-mono-numeric"
+                  style={{ color: `hsl(var(--${leg === "tp" ? "success" : "destructive"}))` }}
+                >
+                  {leg === "tp" ? "+" : "-"}${formatUsd(pnl)} ({leg === "tp" ? "+" : "-"}{roe.toFixed(1)}% ROE)
+                </span>
+              )}
+            </div>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {renderLeg("tp", takeProfit, takeProfitPrice, onTakeProfitChange)}
+      {renderLeg("sl", stopLoss, stopLossPrice, onStopLossChange)}
+      {metrics && takeProfitPrice !== null && stopLossPrice !== null && metrics.riskAmount > 0 && (
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Risk / Reward</span>
+          <span className="font-mono-numeric font-medium">1 : {metrics.riskRewardRatio.toFixed(2)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
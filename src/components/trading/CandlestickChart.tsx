@@ -0,0 +1,650 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, AlertCircle, BarChart3 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCandles } from "@/hooks/useCandles";
+import { useElementSize } from "@/hooks/usePerformance";
+import { useIndicators } from "@/hooks/useIndicators";
+import { useChartDrawings } from "@/hooks/useChartDrawings";
+import { CANDLE_INTERVALS, INTERVAL_MS, type Candle, type CandleInterval } from "@/lib/candles";
+import { createViewport, niceStep, type ChartViewport } from "@/lib/chartViewport";
+import { prepareCanvas, themeColor } from "@/lib/canvas";
+import {
+  INDICATOR_DEFINITIONS,
+  getDefaultParams,
+  type IndicatorConfig,
+  type IndicatorDefinition,
+  type IndicatorLineDefinition,
+  type IndicatorSeries,
+  type IndicatorType,
+  type IndicatorValue
+} from "@/lib/indicators";
+import type { DrawingTool } from "@/lib/drawings";
+import { IndicatorLegendItem, IndicatorMenu } from "./IndicatorControls";
+import { ChartDrawingLayer } from "./ChartDrawingLayer";
+import { DrawingToolbar } from "./DrawingToolbar";
+
+interface CandlestickChartProps {
+  coin: string;
+  // Plot height in pixels, or "fill" to take the remaining height of a sized parent
+  height?: number | "fill";
+  chartStyle?: "candles" | "line";
+  defaultInterval?: CandleInterval;
+  className?: string;
+  // Prices kept in view in addition to the visible candles
+  extraPrices?: number[];
+  // Right-click in the chart with the price under the cursor (null outside the price pane)
+  onPriceContextMenu?: (price: number | null) => void;
+  // Drawing tools, saved per coin and interval for the connected wallet
+  enableDrawings?: boolean;
+  // Use tap and long-press gestures for drawing on touch screens
+  touchDrawing?: boolean;
+  // Overlays drawn on top of the plot using the current viewport
+  children?: (viewport: ChartViewport, candles: Candle[]) => ReactNode;
+}
+
+const PRICE_AXIS_WIDTH = 72;
+const TIME_AXIS_HEIGHT = 22;
+const VOLUME_RATIO = 0.2;
+const MIN_BAR_SPACING = 2;
+const MAX_BAR_SPACING = 40;
+const DEFAULT_BAR_SPACING = 8;
+const DEFAULT_RIGHT_OFFSET = -3; // Leave a few empty bars to the right of the latest candle
+const LOAD_MORE_THRESHOLD = 20;  // Page back when this close to the oldest loaded candle
+const PANE_HEIGHT = 100;         // Height of each indicator pane below the price chart
+const PANE_PADDING = 8;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, {
+    minimumFractionDigits: price < 1 ? 4 : 2,
+    maximumFractionDigits: price < 1 ? 6 : 2
+  });
+
+const formatTime = (time: number, interval: CandleInterval) => {
+  const date = new Date(time);
+  return INTERVAL_MS[interval] >= INTERVAL_MS["1d"]
+    ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+};
+
+// Range of series indexes that land inside the plot once the line's offset is applied
+const getVisibleRange = (series: IndicatorSeries, line: IndicatorLineDefinition, viewport: ChartViewport) => {
+  const offset = line.offset?.(series.config.params) ?? 0;
+  return {
+    offset,
+    start: Math.max(0, Math.floor(viewport.xToIndex(0)) - offset),
+    end: Math.min(series.values.length - 1, Math.ceil(viewport.xToIndex(viewport.plotWidth)) - offset)
+  };
+};
+
+// Values of every line at a candle index, accounting for line offsets
+const getValuesAt = (series: IndicatorSeries, definition: IndicatorDefinition, index: number): IndicatorValue =>
+  Object.fromEntries(definition.lines.map(line => {
+    const offset = line.offset?.(series.config.params) ?? 0;
+    return [line.key, series.values[index - offset]?.[line.key] ?? null];
+  }));
+
+// Plot one indicator line, breaking the path where there is no value yet
+const drawIndicatorLine = (
+  context: CanvasRenderingContext2D,
+  series: IndicatorSeries,
+  line: IndicatorLineDefinition,
+  viewport: ChartViewport,
+  toY: (value: number) => number
+) => {
+  const { offset, start, end } = getVisibleRange(series, line, viewport);
+
+  context.strokeStyle = line.color;
+  context.lineWidth = 1.25;
+  context.beginPath();
+  let isDrawing = false;
+  for (let i = start; i <= end; i++) {
+    const value = series.values[i][line.key];
+    if (value === null) {
+      isDrawing = false;
+      continue;
+    }
+
+    const x = viewport.indexToX(i + offset);
+    if (isDrawing) context.lineTo(x, toY(value));
+    else context.moveTo(x, toY(value));
+    isDrawing = true;
+  }
+  context.stroke();
+};
+
+// Canvas candlestick chart fed by Hyperliquid candles. Drag to scroll back
+// (older candles load automatically), wheel to zoom. Indicators draw over the
+// candles or in their own panes below them.
+export const CandlestickChart = ({
+  coin,
+  height: heightProp = 600,
+  chartStyle = "candles",
+  defaultInterval = "15m",
+  className,
+  extraPrices,
+  onPriceContextMenu,
+  enableDrawings = true,
+  touchDrawing = false,
+  children
+}: CandlestickChartProps) => {
+  const [interval, setCandleInterval] = useState<CandleInterval>(defaultInterval);
+  const [barSpacing, setBarSpacing] = useState(DEFAULT_BAR_SPACING);
+  const [rightOffset, setRightOffset] = useState(DEFAULT_RIGHT_OFFSET);
+  const [crosshair, setCrosshair] = useState<{ x: number; y: number } | null>(null);
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>([]);
+  const [activeTool, setActiveTool] = useState<DrawingTool | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ startX: number; startOffset: number; pointerId: number } | null>(null);
+  const { ref: containerRef, width, height: measuredHeight } = useElementSize<HTMLDivElement>();
+  const isFill = heightProp === "fill";
+  const height = isFill ? measuredHeight : heightProp;
+
+  const { candles, isLoading, isLoadingMore, hasMore, error, isConnected, loadMore } = useCandles(coin, interval);
+  const indicatorSeries = useIndicators(candles, indicators);
+  const chartDrawings = useChartDrawings(coin, interval);
+
+  // Reset scroll and zoom when switching series
+  useEffect(() => {
+    setRightOffset(DEFAULT_RIGHT_OFFSET);
+    setBarSpacing(DEFAULT_BAR_SPACING);
+  }, [coin, interval]);
+
+  const plotWidth = Math.max(0, width - PRICE_AXIS_WIDTH);
+  const plotHeight = height - TIME_AXIS_HEIGHT;
+
+  const overlays = useMemo(
+    () => indicators.filter(config => INDICATOR_DEFINITIONS[config.type].placement === "overlay"),
+    [indicators]
+  );
+  const panes = useMemo(
+    () => indicators.filter(config => INDICATOR_DEFINITIONS[config.type].placement === "pane"),
+    [indicators]
+  );
+
+  // Price and volume share what's left above the indicator panes
+  const mainHeight = Math.max(plotHeight / 2, plotHeight - panes.length * PANE_HEIGHT);
+  const paneHeight = panes.length > 0 ? (plotHeight - mainHeight) / panes.length : 0;
+  const volumeTop = mainHeight * (1 - VOLUME_RATIO);
+
+  const viewport = useMemo(() => createViewport({
+    candles,
+    intervalMs: INTERVAL_MS[interval],
+    plotWidth,
+    priceTop: 8,
+    priceBottom: volumeTop - 8,
+    barSpacing,
+    rightOffset,
+    extraPrices
+  }), [candles, interval, plotWidth, volumeTop, barSpacing, rightOffset, extraPrices]);
+
+  // Page back once the view nears the oldest loaded candle
+  useEffect(() => {
+    if (candles.length === 0 || !hasMore || isLoadingMore) return;
+    if (viewport.xToIndex(0) < LOAD_MORE_THRESHOLD) {
+      loadMore();
+    }
+  }, [viewport, candles.length, hasMore, isLoadingMore, loadMore]);
+
+  // Draw candles, volume, axes and crosshair
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0 || height === 0) return;
+
+    const context = prepareCanvas(canvas, width, height);
+    if (!context) return;
+
+    context.clearRect(0, 0, width, height);
+    if (candles.length === 0) return;
+
+    const { firstIndex, lastIndex, indexToX, priceToY, minPrice, maxPrice } = viewport;
+    const upColor = themeColor("success");
+    const downColor = themeColor("danger");
+    const gridColor = themeColor("border", 0.6);
+    const textColor = themeColor("muted-foreground");
+
+    context.font = "11px ui-monospace, monospace";
+    context.textBaseline = "middle";
+
+    // Horizontal grid and price labels
+    const step = niceStep(maxPrice - minPrice, Math.max(2, Math.floor((volumeTop - 16) / 60)));
+    context.strokeStyle = gridColor;
+    context.fillStyle = textColor;
+    context.textAlign = "left";
+    context.lineWidth = 1;
+    for (let price = Math.ceil(minPrice / step) * step; price <= maxPrice; price += step) {
+      const y = Math.round(priceToY(price)) + 0.5;
+      context.beginPath();
+      context.moveTo(0, y);
+      context.lineTo(plotWidth, y);
+      context.stroke();
+      context.fillText(formatPrice(price), plotWidth + 6, y);
+    }
+
+    // Vertical grid and time labels, roughly every 100px
+    const labelEvery = Math.max(1, Math.round(100 / barSpacing));
+    context.textAlign = "center";
+    for (let i = firstIndex - (firstIndex % labelEvery); i <= lastIndex; i += labelEvery) {
+      if (i < 0) continue;
+      const x = Math.round(indexToX(i)) + 0.5;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, plotHeight);
+      context.stroke();
+      context.fillText(formatTime(candles[i].time, interval), x, plotHeight + TIME_AXIS_HEIGHT / 2);
+    }
+
+    // Clip series drawing to the plot so partially visible bars don't cover the axis
+    context.save();
+    context.beginPath();
+    context.rect(0, 0, plotWidth, mainHeight);
+    context.clip();
+
+    // Volume bars
+    let maxVolume = 0;
+    for (let i = firstIndex; i <= lastIndex; i++) {
+      maxVolume = Math.max(maxVolume, candles[i].volume);
+    }
+    const bodyWidth = Math.max(1, Math.floor(barSpacing * 0.7));
+    if (maxVolume > 0) {
+      context.globalAlpha = 0.35;
+      for (let i = firstIndex; i <= lastIndex; i++) {
+        const candle = candles[i];
+        const barHeight = (candle.volume / maxVolume) * (mainHeight - volumeTop);
+        context.fillStyle = candle.close >= candle.open ? upColor : downColor;
+        context.fillRect(Math.round(indexToX(i) - bodyWidth / 2), mainHeight - barHeight, bodyWidth, barHeight);
+      }
+      context.globalAlpha = 1;
+    }
+
+    if (chartStyle === "line") {
+      context.strokeStyle = themeColor("primary");
+      context.lineWidth = 1.5;
+      context.beginPath();
+      for (let i = firstIndex; i <= lastIndex; i++) {
+        const x = indexToX(i);
+        const y = priceToY(candles[i].close);
+        if (i === firstIndex) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      }
+      context.stroke();
+    } else {
+      for (let i = firstIndex; i <= lastIndex; i++) {
+        const candle = candles[i];
+        const x = Math.round(indexToX(i));
+        const color = candle.close >= candle.open ? upColor : downColor;
+        const openY = priceToY(candle.open);
+        const closeY = priceToY(candle.close);
+
+        context.strokeStyle = color;
+        context.fillStyle = color;
+        context.lineWidth = 1;
+
+        // Wick
+        context.beginPath();
+        context.moveTo(x + 0.5, priceToY(candle.high));
+        context.lineTo(x + 0.5, priceToY(candle.low));
+        context.stroke();
+
+        // Body
+        const top = Math.min(openY, closeY);
+        context.fillRect(x - Math.floor(bodyWidth / 2), top, bodyWidth, Math.max(1, Math.abs(closeY - openY)));
+      }
+    }
+
+    // Overlay indicators share the price scale
+    overlays.forEach(config => {
+      const series = indicatorSeries.get(config.id);
+      if (!series) return;
+      INDICATOR_DEFINITIONS[config.type].lines.forEach(line => {
+        drawIndicatorLine(context, series, line, viewport, priceToY);
+      });
+    });
+
+    context.restore();
+
+    // Indicator panes, each scaled to its own values
+    panes.forEach((config, paneIndex) => {
+      const series = indicatorSeries.get(config.id);
+      if (!series) return;
+
+      const definition = INDICATOR_DEFINITIONS[config.type];
+      const top = mainHeight + paneIndex * paneHeight;
+      const bottom = top + paneHeight;
+
+      let [minValue, maxValue] = definition.range ?? [Infinity, -Infinity];
+      if (!definition.range) {
+        definition.lines.forEach(line => {
+          const { start, end } = getVisibleRange(series, line, viewport);
+          for (let i = start; i <= end; i++) {
+            const value = series.values[i][line.key];
+            if (value === null) continue;
+            minValue = Math.min(minValue, value);
+            maxValue = Math.max(maxValue, value);
+          }
+        });
+        definition.levels?.forEach(level => {
+          minValue = Math.min(minValue, level);
+          maxValue = Math.max(maxValue, level);
+        });
+      }
+      if (!isFinite(minValue) || !isFinite(maxValue)) return;
+
+      const valueRange = maxValue - minValue || 1;
+      const toY = (value: number) =>
+        bottom - PANE_PADDING - ((value - minValue) / valueRange) * (paneHeight - PANE_PADDING * 2);
+
+      // Separator and scale labels
+      context.strokeStyle = themeColor("border");
+      context.beginPath();
+      context.moveTo(0, Math.round(top) + 0.5);
+      context.lineTo(width, Math.round(top) + 0.5);
+      context.stroke();
+
+      context.fillStyle = textColor;
+      context.textAlign = "left";
+      context.fillText(formatPrice(maxValue), plotWidth + 6, toY(maxValue));
+      context.fillText(formatPrice(minValue), plotWidth + 6, toY(minValue));
+
+      context.save();
+      context.beginPath();
+      context.rect(0, top, plotWidth, paneHeight);
+      context.clip();
+
+      context.strokeStyle = gridColor;
+      context.setLineDash([4, 4]);
+      definition.levels?.forEach(level => {
+        const y = Math.round(toY(level)) + 0.5;
+        context.beginPath();
+        context.moveTo(0, y);
+        context.lineTo(plotWidth, y);
+        context.stroke();
+      });
+      context.setLineDash([]);
+
+      definition.lines.forEach(line => {
+        if (line.style !== "histogram") {
+          drawIndicatorLine(context, series, line, viewport, toY);
+          return;
+        }
+
+        const { offset, start, end } = getVisibleRange(series, line, viewport);
+        const zeroY = toY(Math.min(Math.max(0, minValue), maxValue));
+        context.globalAlpha = 0.6;
+        for (let i = start; i <= end; i++) {
+          const value = series.values[i][line.key];
+          if (value === null) continue;
+          const y = toY(value);
+          context.fillStyle = value >= 0 ? upColor : downColor;
+          context.fillRect(Math.round(indexToX(i + offset) - bodyWidth / 2), Math.min(y, zeroY), bodyWidth, Math.max(1, Math.abs(zeroY - y)));
+        }
+        context.globalAlpha = 1;
+      });
+
+      context.restore();
+    });
+
+    // Last price line and label
+    const last = candles[candles.length - 1];
+    const lastY = Math.round(priceToY(last.close)) + 0.5;
+    const lastColor = last.close >= last.open ? upColor : downColor;
+    if (lastY >= 0 && lastY <= volumeTop) {
+      context.strokeStyle = lastColor;
+      context.setLineDash([4, 4]);
+      context.beginPath();
+      context.moveTo(0, lastY);
+      context.lineTo(plotWidth, lastY);
+      context.stroke();
+      context.setLineDash([]);
+
+      context.fillStyle = lastColor;
+      context.fillRect(plotWidth, lastY - 9, PRICE_AXIS_WIDTH, 18);
+      context.fillStyle = "#fff";
+      context.textAlign = "left";
+      context.fillText(formatPrice(last.close), plotWidth + 6, lastY);
+    }
+
+    // Crosshair
+    if (crosshair && crosshair.x <= plotWidth && crosshair.y <= plotHeight) {
+      context.strokeStyle = textColor;
+      context.setLineDash([3, 3]);
+      context.beginPath();
+      context.moveTo(crosshair.x + 0.5, 0);
+      context.lineTo(crosshair.x + 0.5, plotHeight);
+      context.moveTo(0, crosshair.y + 0.5);
+      context.lineTo(plotWidth, crosshair.y + 0.5);
+      context.stroke();
+      context.setLineDash([]);
+
+      if (crosshair.y <= volumeTop) {
+        context.fillStyle = themeColor("foreground");
+        context.fillRect(plotWidth, crosshair.y - 9, PRICE_AXIS_WIDTH, 18);
+        context.fillStyle = themeColor("background");
+        context.textAlign = "left";
+        context.fillText(formatPrice(viewport.yToPrice(crosshair.y)), plotWidth + 6, crosshair.y);
+      }
+    }
+  }, [candles, viewport, width, height, plotWidth, plotHeight, mainHeight, paneHeight, volumeTop, barSpacing, chartStyle, crosshair, interval, overlays, panes, indicatorSeries]);
+
+  const clampOffset = useCallback((offset: number) => {
+    const visibleBars = plotWidth / barSpacing;
+    return Math.min(Math.max(offset, -visibleBars / 2), Math.max(candles.length - 5, 0));
+  }, [plotWidth, barSpacing, candles.length]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    dragRef.current = { startX: event.clientX, startOffset: rightOffset, pointerId: event.pointerId };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setCrosshair({ x: event.clientX - rect.left, y: event.clientY - rect.top });
+
+    const drag = dragRef.current;
+    if (drag && drag.pointerId === event.pointerId) {
+      setRightOffset(clampOffset(drag.startOffset + (event.clientX - drag.startX) / barSpacing));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) {
+      dragRef.current = null;
+    }
+  };
+
+  const handleContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPriceContextMenu) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const isInPricePane = candles.length > 0 && x <= plotWidth && y >= viewport.priceTop && y <= viewport.priceBottom;
+    onPriceContextMenu(isInPricePane ? viewport.yToPrice(y) : null);
+  };
+
+  // Wheel zooms around the right edge; passive listeners can't preventDefault, so attach manually
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setBarSpacing(prev => Math.min(MAX_BAR_SPACING, Math.max(MIN_BAR_SPACING, prev * (event.deltaY < 0 ? 1.1 : 0.9))));
+    };
+
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, [containerRef]);
+
+  const hoveredIndex = crosshair && candles.length > 0
+    ? Math.min(candles.length - 1, Math.max(0, Math.round(viewport.xToIndex(crosshair.x))))
+    : candles.length - 1;
+  const hovered = candles[hoveredIndex];
+
+  const addIndicator = (type: IndicatorType) => {
+    const params = getDefaultParams(type);
+    // Anchor a new anchored VWAP at the first visible candle
+    if (type === "anchoredVwap") {
+      params.anchor = candles[viewport.firstIndex]?.time ?? Date.now();
+    }
+    setIndicators(prev => [
+      ...prev,
+      { id: `indicator_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, type, params }
+    ]);
+  };
+
+  const renderLegendItem = (config: IndicatorConfig) => {
+    const series = indicatorSeries.get(config.id);
+    return (
+      <IndicatorLegendItem
+        key={config.id}
+        config={config}
+        value={series && getValuesAt(series, INDICATOR_DEFINITIONS[config.type], hoveredIndex)}
+        onChange={(params) => setIndicators(prev => prev.map(item => item.id === config.id ? { ...item, params } : item))}
+        onRemove={() => setIndicators(prev => prev.filter(item => item.id !== config.id))}
+      />
+    );
+  };
+
+  return (
+    <Card className={cn("relative overflow-hidden", isFill && "flex h-full flex-col", className)}>
+      {/* Chart Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-border bg-muted/20">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-primary" />
+          <span className="font-semibold">{coin}</span>
+          <span className="text-xs text-muted-foreground">{interval}</span>
+          {enableDrawings && (
+            <DrawingToolbar
+              className="ml-2"
+              activeTool={activeTool}
+              onToolChange={setActiveTool}
+              canUndo={chartDrawings.canUndo}
+              hasDrawings={chartDrawings.drawings.length > 0}
+              onUndo={chartDrawings.undo}
+              onClear={chartDrawings.clearDrawings}
+              onExport={chartDrawings.exportDrawings}
+              onImport={chartDrawings.importDrawings}
+            />
+          )}
+        </div>
+
+        {/* Interval selector */}
+        <div className="flex flex-wrap items-center gap-1">
+          <IndicatorMenu onAdd={addIndicator} />
+          <div className="mx-1 h-4 w-px bg-border" />
+          {CANDLE_INTERVALS.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={interval === option ? "default" : "ghost"}
+              onClick={() => setCandleInterval(option)}
+              className="h-7 px-2 text-xs"
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Chart Container */}
+      <div
+        ref={containerRef}
+        className={cn("relative touch-none select-none cursor-crosshair", isFill && "min-h-0 flex-1")}
+        style={isFill ? undefined : { height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setCrosshair(null)}
+        onDoubleClick={() => setRightOffset(DEFAULT_RIGHT_OFFSET)}
+        onContextMenu={handleContextMenu}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0" />
+
+        {/* OHLCV readout */}
+        {hovered && (
+          <div className="pointer-events-none absolute left-2 top-2 flex gap-3 font-mono text-xs text-muted-foreground">
+            <span>O <span className="text-foreground">{formatPrice(hovered.open)}</span></span>
+            <span>H <span className="text-foreground">{formatPrice(hovered.high)}</span></span>
+            <span>L <span className="text-foreground">{formatPrice(hovered.low)}</span></span>
+            <span>C <span className={hovered.close >= hovered.open ? "text-success" : "text-destructive"}>{formatPrice(hovered.close)}</span></span>
+            <span>V <span className="text-foreground">{hovered.volume.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span></span>
+          </div>
+        )}
+
+        {enableDrawings && chartDrawings.isLoaded && candles.length > 0 && width > 0 && height > 0 && (
+          <ChartDrawingLayer
+            viewport={viewport}
+            drawings={chartDrawings.drawings}
+            activeTool={activeTool}
+            onAdd={chartDrawings.addDrawing}
+            onUpdate={chartDrawings.updateDrawing}
+            onRemove={chartDrawings.removeDrawing}
+            onUndo={chartDrawings.undo}
+            onToolComplete={() => setActiveTool(null)}
+            touchGestures={touchDrawing}
+          />
+        )}
+
+        {candles.length > 0 && width > 0 && height > 0 && children?.(viewport, candles)}
+
+        {/* Indicator legends: overlays under the OHLCV readout, panes at the top of each pane */}
+        {overlays.length > 0 && (
+          <div
+            className="pointer-events-none absolute left-2 top-7 flex flex-col items-start gap-1"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            {overlays.map(renderLegendItem)}
+          </div>
+        )}
+        {panes.map((config, paneIndex) => (
+          <div
+            key={config.id}
+            className="pointer-events-none absolute left-2"
+            style={{ top: mainHeight + paneIndex * paneHeight + 4 }}
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            {renderLegendItem(config)}
+          </div>
+        ))}
+
+        {isLoadingMore && (
+          <div className="pointer-events-none absolute left-2 bottom-8">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80 z-10">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">Loading candles...</p>
+            </div>
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80 z-10">
+            <div className="text-center">
+              <AlertCircle className="h-8 w-8 text-destructive mx-auto mb-2" />
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Chart Footer */}
+      <div className="flex items-center justify-between p-2 border-t border-border bg-muted/10 text-xs text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <div className={cn("h-2 w-2 rounded-full", isConnected ? "bg-success animate-pulse" : "bg-muted-foreground")} />
+          <span>{isConnected ? "Live Hyperliquid Data" : "Reconnecting..."}</span>
+        </div>
+        <span>{candles.length.toLocaleString()} candles</span>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,423 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { useTouchGestures } from "@/hooks/useMobile";
+import type { ChartViewport } from "@/lib/chartViewport";
+import {
+  FIB_LEVELS,
+  getPointCount,
+  type Drawing,
+  type DrawingPoint,
+  type DrawingTool
+} from "@/lib/drawings";
+
+interface ChartDrawingLayerProps {
+  viewport: ChartViewport;
+  drawings: Drawing[];
+  activeTool: DrawingTool | null;
+  onAdd: (drawing: Omit<Drawing, "id" | "createdAt">) => void;
+  onUpdate: (id: string, changes: Partial<Omit<Drawing, "id">>) => void;
+  onRemove: (id: string) => void;
+  onUndo: () => void;
+  // Called once the active tool has placed a drawing
+  onToolComplete: () => void;
+  // Place points with taps and delete with long-press (via useTouchGestures)
+  // instead of touch pointer events, which are left to pan the chart
+  touchGestures?: boolean;
+}
+
+interface DragState {
+  id: string;
+  pointerId: number;
+  pointIndex: number | null;  // null moves the whole drawing
+  startX: number;
+  startY: number;
+  original: DrawingPoint[];
+  points: DrawingPoint[];
+}
+
+interface TextEdit {
+  id: string | null;  // null for a new note
+  point: DrawingPoint;
+  value: string;
+}
+
+const DRAG_THRESHOLD_PX = 4;
+const STROKE = "hsl(var(--primary))";
+const TEXT_COLOR = "hsl(var(--foreground))";
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : 2 });
+
+// Drawings over the price pane, anchored to candle time and price. With a tool
+// active, clicks place points; otherwise drawings can be selected, dragged by
+// their handles or body, and deleted with Delete/Backspace.
+export const ChartDrawingLayer = ({
+  viewport,
+  drawings,
+  activeTool,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onUndo,
+  onToolComplete,
+  touchGestures = false
+}: ChartDrawingLayerProps) => {
+  const [draftPoints, setDraftPoints] = useState<DrawingPoint[]>([]);
+  const [hoverPoint, setHoverPoint] = useState<DrawingPoint | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null);
+
+  const hostRef = useRef<HTMLDivElement>(null);
+  const placeStartRef = useRef<{ x: number; y: number } | null>(null);
+  // Latest text edit, so a blur fired after Enter or Escape doesn't commit twice
+  const textEditRef = useRef<TextEdit | null>(null);
+  textEditRef.current = textEdit;
+
+  const { plotWidth, priceBottom, timeToX, xToTime, priceToY, yToPrice } = viewport;
+  const layerHeight = priceBottom + 8;
+
+  const toPixel = (point: DrawingPoint) => ({ x: timeToX(point.time), y: priceToY(point.price) });
+
+  const clientToPoint = (clientX: number, clientY: number): DrawingPoint => {
+    const rect = hostRef.current!.getBoundingClientRect();
+    return { time: xToTime(clientX - rect.left), price: yToPrice(clientY - rect.top) };
+  };
+
+  // Abandon a half-placed drawing when the tool changes
+  useEffect(() => {
+    setDraftPoints([]);
+    setHoverPoint(null);
+    if (activeTool) setSelectedId(null);
+  }, [activeTool]);
+
+  const placePoint = (point: DrawingPoint) => {
+    if (!activeTool) return;
+
+    if (activeTool === "text") {
+      setTextEdit({ id: null, point, value: "" });
+      onToolComplete();
+      return;
+    }
+
+    const points = [...draftPoints, point];
+    if (points.length < getPointCount(activeTool)) {
+      setDraftPoints(points);
+      return;
+    }
+
+    onAdd({ tool: activeTool, points });
+    setDraftPoints([]);
+    setHoverPoint(null);
+    onToolComplete();
+  };
+
+  const closeTextEdit = () => {
+    textEditRef.current = null;
+    setTextEdit(null);
+  };
+
+  const commitTextEdit = () => {
+    const edit = textEditRef.current;
+    if (!edit) return;
+    closeTextEdit();
+
+    const text = edit.value.trim();
+    if (edit.id) {
+      if (text) onUpdate(edit.id, { text });
+      else onRemove(edit.id);
+    } else if (text) {
+      onAdd({ tool: "text", points: [edit.point], text });
+    }
+  };
+
+  // Keyboard: delete the selection, cancel placement, undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return;
+
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "z") {
+        event.preventDefault();
+        onUndo();
+      } else if ((event.key === "Delete" || event.key === "Backspace") && selectedId) {
+        event.preventDefault();
+        onRemove(selectedId);
+        setSelectedId(null);
+      } else if (event.key === "Escape") {
+        setDraftPoints([]);
+        setHoverPoint(null);
+        setSelectedId(null);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedId, onRemove, onUndo]);
+
+  useTouchGestures(hostRef, {
+    preventDefaultSwipe: false,
+    onTap: (event) => {
+      if (!touchGestures || !activeTool) return;
+      const touch = event.changedTouches[0];
+      placePoint(clientToPoint(touch.clientX, touch.clientY));
+    },
+    onLongPress: () => {
+      if (!touchGestures || !selectedId) return;
+      onRemove(selectedId);
+      setSelectedId(null);
+    }
+  });
+
+  const isTouchHandledByGestures = (event: React.PointerEvent) =>
+    touchGestures && event.pointerType === "touch";
+
+  const handleHostPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!activeTool) {
+      setSelectedId(null);
+      return;  // Let the chart pan
+    }
+    if (isTouchHandledByGestures(event) || event.button !== 0) return;
+
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    placeStartRef.current = { x: event.clientX, y: event.clientY };
+    placePoint(clientToPoint(event.clientX, event.clientY));
+  };
+
+  const handleHostPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (activeTool && draftPoints.length > 0) {
+      setHoverPoint(clientToPoint(event.clientX, event.clientY));
+    }
+  };
+
+  // Press-drag-release places both points of a two-point drawing in one gesture
+  const handleHostPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = placeStartRef.current;
+    placeStartRef.current = null;
+    if (!start || !activeTool || draftPoints.length === 0) return;
+
+    const moved = Math.hypot(event.clientX - start.x, event.clientY - start.y);
+    if (moved >= DRAG_THRESHOLD_PX) {
+      placePoint(clientToPoint(event.clientX, event.clientY));
+    }
+  };
+
+  const startDrag = (event: React.PointerEvent, drawing: Drawing, pointIndex: number | null) => {
+    if (activeTool || event.button !== 0) return;
+    event.stopPropagation();
+    (event.currentTarget as Element).setPointerCapture(event.pointerId);
+
+    setSelectedId(drawing.id);
+    setDrag({
+      id: drawing.id,
+      pointerId: event.pointerId,
+      pointIndex,
+      startX: event.clientX,
+      startY: event.clientY,
+      original: drawing.points,
+      points: drawing.points
+    });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    event.stopPropagation();
+
+    if (drag.pointIndex !== null) {
+      const points = [...drag.original];
+      points[drag.pointIndex] = clientToPoint(event.clientX, event.clientY);
+      setDrag({ ...drag, points });
+      return;
+    }
+
+    // Move the whole drawing by the pointer's offset in time and price
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    setDrag({
+      ...drag,
+      points: drag.original.map(point => ({
+        time: xToTime(timeToX(point.time) + dx),
+        price: yToPrice(priceToY(point.price) + dy)
+      }))
+    });
+  };
+
+  const endDrag = (event: React.PointerEvent) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    event.stopPropagation();
+    setDrag(null);
+
+    const moved = Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY);
+    if (moved >= DRAG_THRESHOLD_PX) {
+      onUpdate(drag.id, { points: drag.points });
+    }
+  };
+
+  const dragHandlers = {
+    onPointerMove: moveDrag,
+    onPointerUp: endDrag,
+    onPointerCancel: endDrag
+  };
+
+  const renderShape = (drawing: Pick<Drawing, "tool" | "points" | "text">, isHit: boolean): ReactNode => {
+    const [a, b] = drawing.points.map(toPixel);
+    const hitProps = isHit
+      ? { stroke: "transparent", strokeWidth: 12, fill: "none" }
+      : { stroke: STROKE, strokeWidth: 1.5, fill: "none" };
+
+    switch (drawing.tool) {
+      case "trendline":
+        return <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} {...hitProps} />;
+
+      case "horizontalRay":
+        return (
+          <>
+            <line x1={a.x} y1={a.y} x2={plotWidth} y2={a.y} {...hitProps} />
+            {!isHit && (
+              <text x={plotWidth - 4} y={a.y - 4} textAnchor="end" fontSize={10} fill={STROKE}>
+                {formatPrice(drawing.points[0].price)}
+              </text>
+            )}
+          </>
+        );
+
+      case "fibonacci": {
+        const left = Math.min(a.x, b.x);
+        const right = Math.max(a.x, b.x);
+        const [start, end] = drawing.points;
+        return (
+          <>
+            <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} {...hitProps} strokeDasharray={isHit ? undefined : "4 4"} />
+            {FIB_LEVELS.map(level => {
+              const price = end.price + (start.price - end.price) * level;
+              const y = priceToY(price);
+              return (
+                <g key={level}>
+                  <line x1={left} y1={y} x2={right} y2={y} {...hitProps} />
+                  {!isHit && (
+                    <text x={left + 4} y={y - 3} fontSize={10} fill={STROKE}>
+                      {level} ({formatPrice(price)})
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </>
+        );
+      }
+
+      case "rectangle":
+        return (
+          <rect
+            x={Math.min(a.x, b.x)}
+            y={Math.min(a.y, b.y)}
+            width={Math.abs(b.x - a.x)}
+            height={Math.abs(b.y - a.y)}
+            {...hitProps}
+            fill={isHit ? "transparent" : STROKE}
+            fillOpacity={isHit ? 1 : 0.08}
+          />
+        );
+
+      case "text":
+        return (
+          <text
+            x={a.x}
+            y={a.y}
+            fontSize={12}
+            dominantBaseline="middle"
+            fill={TEXT_COLOR}
+            stroke={isHit ? "transparent" : undefined}
+            strokeWidth={isHit ? 12 : undefined}
+          >
+            {drawing.text}
+          </text>
+        );
+    }
+  };
+
+  const draft = activeTool && activeTool !== "text" && draftPoints.length > 0 && hoverPoint
+    ? { tool: activeTool, points: [...draftPoints, hoverPoint] }
+    : null;
+
+  return (
+    <div
+      ref={hostRef}
+      className="absolute left-0 top-0 overflow-hidden"
+      style={{ width: plotWidth, height: layerHeight, cursor: activeTool ? "crosshair" : undefined }}
+      onPointerDown={handleHostPointerDown}
+      onPointerMove={handleHostPointerMove}
+      onPointerUp={handleHostPointerUp}
+    >
+      <svg className="pointer-events-none absolute inset-0" width={plotWidth} height={layerHeight}>
+        {drawings.map(stored => {
+          const drawing = drag?.id === stored.id ? { ...stored, points: drag.points } : stored;
+          const isSelected = selectedId === drawing.id;
+
+          return (
+            <g key={drawing.id} opacity={textEdit?.id === drawing.id ? 0 : 1}>
+              {renderShape(drawing, false)}
+
+              {/* Wide transparent copy to make thin lines easy to grab */}
+              <g
+                style={{ pointerEvents: activeTool ? "none" : "all", cursor: "move" }}
+                onPointerDown={(event) => startDrag(event, stored, null)}
+                onDoubleClick={(event) => {
+                  event.stopPropagation();
+                  if (drawing.tool === "text") {
+                    setTextEdit({ id: drawing.id, point: drawing.points[0], value: drawing.text ?? "" });
+                  }
+                }}
+                {...dragHandlers}
+              >
+                {renderShape(drawing, true)}
+              </g>
+
+              {isSelected && drawing.points.map((point, index) => {
+                const { x, y } = toPixel(point);
+                return (
+                  <circle
+                    key={index}
+                    cx={x}
+                    cy={y}
+                    r={5}
+                    fill="hsl(var(--background))"
+                    stroke={STROKE}
+                    strokeWidth={1.5}
+                    style={{ pointerEvents: "all", cursor: "grab" }}
+                    onPointerDown={(event) => startDrag(event, stored, index)}
+                    {...dragHandlers}
+                  />
+                );
+              })}
+            </g>
+          );
+        })}
+
+        {draft && <g opacity={0.7}>{renderShape(draft, false)}</g>}
+        {draftPoints.map((point, index) => {
+          const { x, y } = toPixel(point);
+          return <circle key={index} cx={x} cy={y} r={3} fill={STROKE} />;
+        })}
+      </svg>
+
+      {textEdit && (
+        <Input
+          autoFocus
+          className="absolute h-7 w-48 text-xs"
+          style={{ left: toPixel(textEdit.point).x, top: toPixel(textEdit.point).y - 14 }}
+          placeholder="Note"
+          value={textEdit.value}
+          onPointerDown={(event) => event.stopPropagation()}
+          onChange={(e) => setTextEdit({ ...textEdit, value: e.target.value })}
+          onBlur={commitTextEdit}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") commitTextEdit();
+            if (event.key === "Escape") closeTextEdit();
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChartViewport } from "@/lib/chartViewport";
+import type { OpenOrder, Position } from "@/types/hyperliquid";
+
+export interface ChartPosition extends Position {
+  coinSize: number;  // Position size in coins; `size` is the USD notional
+}
+
+interface ChartOrderOverlayProps {
+  viewport: ChartViewport;
+  orders: OpenOrder[];
+  positions: ChartPosition[];
+  onModifyOrder: (order: OpenOrder, price: number) => Promise<boolean>;
+  onCancelOrder?: (order: OpenOrder) => void;
+}
+
+interface DragState {
+  oid: number;
+  pointerId: number;
+  startY: number;
+  price: number;
+}
+
+const DRAG_THRESHOLD_PX = 3;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : 2 });
+
+const formatSize = (size: number) => size.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+// The price an order's line is drawn at: trigger price for TP/SL, limit otherwise
+const getLinePrice = (order: OpenOrder) =>
+  parseFloat(order.isTrigger && order.triggerPx ? order.triggerPx : order.limitPx);
+
+const getOrderLabel = (order: OpenOrder) => {
+  const side = order.side === "B" ? "Buy" : "Sell";
+  if (!order.isTrigger) return `Limit ${side}`;
+  return `${order.orderType?.startsWith("Take Profit") ? "TP" : "SL"} ${side}`;
+};
+
+// Horizontal lines for resting orders, triggers, position entries and
+// liquidation prices. Order lines can be dragged to a new price.
+export const ChartOrderOverlay = ({
+  viewport,
+  orders,
+  positions,
+  onModifyOrder,
+  onCancelOrder
+}: ChartOrderOverlayProps) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Prices shown while a modify is in flight, until the next orders refresh
+  const [pendingPrices, setPendingPrices] = useState<Record<number, number>>({});
+
+  const { plotWidth, priceToY, yToPrice, priceTop, priceBottom } = viewport;
+  const isInView = (y: number) => y >= priceTop && y <= priceBottom;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>, order: OpenOrder) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ oid: order.oid, pointerId: event.pointerId, startY: event.clientY, price: getLinePrice(order) });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>, order: OpenOrder) => {
+    if (!drag || drag.oid !== order.oid || drag.pointerId !== event.pointerId) return;
+    event.stopPropagation();
+
+    const container = event.currentTarget.parentElement!.getBoundingClientRect();
+    setDrag({ ...drag, price: yToPrice(event.clientY - container.top) });
+  };
+
+  const handlePointerUp = async (event: React.PointerEvent<HTMLDivElement>, order: OpenOrder) => {
+    if (!drag || drag.oid !== order.oid || drag.pointerId !== event.pointerId) return;
+    event.stopPropagation();
+    setDrag(null);
+
+    if (Math.abs(event.clientY - drag.startY) < DRAG_THRESHOLD_PX) return;
+
+    setPendingPrices(prev => ({ ...prev, [order.oid]: drag.price }));
+    await onModifyOrder(order, drag.price);
+    setPendingPrices(prev => {
+      const next = { ...prev };
+      delete next[order.oid];
+      return next;
+    });
+  };
+
+  // A cancelled pointer (e.g. a touch taken over by scrolling) abandons the drag
+  const handlePointerCancel = (event: React.PointerEvent<HTMLDivElement>, order: OpenOrder) => {
+    if (!drag || drag.oid !== order.oid || drag.pointerId !== event.pointerId) return;
+    event.stopPropagation();
+    setDrag(null);
+  };
+
+  return (
+    <div className="pointer-events-none absolute inset-0">
+      {/* Position entry and liquidation prices */}
+      {positions.map(position => (
+        <div key={position.pair}>
+          {isInView(priceToY(position.entryPrice)) && (
+            <PriceLine
+              y={priceToY(position.entryPrice)}
+              width={plotWidth}
+              color="primary"
+              label={`${position.side === "long" ? "Long" : "Short"} ${formatSize(position.coinSize)} @ ${formatPrice(position.entryPrice)}`}
+            />
+          )}
+          {position.liquidationPrice > 0 && isInView(priceToY(position.liquidationPrice)) && (
+            <PriceLine
+              y={priceToY(position.liquidationPrice)}
+              width={plotWidth}
+              color="warning"
+              dashed
+              label={`Liq. ${formatPrice(position.liquidationPrice)}`}
+            />
+          )}
+        </div>
+      ))}
+
+      {/* Resting and trigger orders */}
+      {orders.map(order => {
+        const isDragging = drag?.oid === order.oid;
+        const price = isDragging ? drag.price : pendingPrices[order.oid] ?? getLinePrice(order);
+        const y = priceToY(price);
+        if (!isDragging && !isInView(y)) return null;
+
+        const isBuy = order.side === "B";
+
+        return (
+          <PriceLine
+            key={order.oid}
+            y={y}
+            width={plotWidth}
+            color={isBuy ? "success" : "danger"}
+            dashed={order.isTrigger}
+            className={cn(order.oid in pendingPrices && "opacity-60")}
+            label={`${getLinePrice(order) !== price ? "→ " : ""}${getOrderLabel(order)} ${order.sz} @ ${formatPrice(price)}`}
+            draggable
+            onPointerDown={(event) => handlePointerDown(event, order)}
+            onPointerMove={(event) => handlePointerMove(event, order)}
+            onPointerUp={(event) => handlePointerUp(event, order)}
+            onPointerCancel={(event) => handlePointerCancel(event, order)}
+            onCancel={onCancelOrder ? () => onCancelOrder(order) : undefined}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+interface PriceLineProps {
+  y: number;
+  width: number;
+  label: string;
+  color: "primary" | "success" | "danger" | "warning";  // Theme color variable
+  dashed?: boolean;
+  className?: string;
+  draggable?: boolean;
+  onPointerDown?: (event: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerMove?: (event: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerUp?: (event: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerCancel?: (event: React.PointerEvent<HTMLDivElement>) => void;
+  onCancel?: () => void;
+}
+
+const PriceLine = ({
+  y,
+  width,
+  label,
+  color,
+  dashed,
+  className,
+  draggable,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onPointerCancel,
+  onCancel
+}: PriceLineProps) => (
+  <div
+    className={cn(
+      "absolute left-0 flex h-3 -translate-y-1/2 items-center",
+      draggable && "pointer-events-auto cursor-ns-resize",
+      className
+    )}
+    style={{ top: y, width }}
+    onPointerDown={onPointerDown}
+    onPointerMove={onPointerMove}
+    onPointerUp={onPointerUp}
+    onPointerCancel={onPointerCancel}
+  >
+    <div
+      className={cn("w-full border-t", dashed && "border-dashed")}
+      style={{ borderColor: `hsl(var(--${color}))` }}
+    />
+    <div
+      className="absolute right-2 flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 font-mono text-[10px]"
+      style={{ backgroundColor: `hsl(var(--${color}))`, color: `hsl(var(--${color}-foreground))` }}
+    >
+      {label}
+      {onCancel && (
+        <button
+          className="pointer-events-auto opacity-80 hover:opacity-100"
+          onPointerDown={(event) => event.stopPropagation()}
+          onClick={(event) => {
+            event.stopPropagation();
+            onCancel();
+          }}
+          aria-label="Cancel order"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  </div>
+);
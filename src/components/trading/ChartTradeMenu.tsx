@@ -0,0 +1,141 @@
+import { useState, type ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger
+} from "@/components/ui/context-menu";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useOrderExecution, type OrderRequest } from "@/hooks/useOrderExecution";
+
+interface ChartTradeMenuProps {
+  coin: string;
+  // Price under the cursor when the menu was opened; null outside the price pane
+  price: number | null;
+  lastPrice: number;
+  onOrderPlaced?: () => void;
+  className?: string;
+  children: ReactNode;
+}
+
+interface PendingOrder {
+  isBuy: boolean;
+  kind: "limit" | "stop";
+  price: number;
+}
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : 2 });
+
+// Right-click menu on the chart to place a limit or stop order at the clicked price.
+// Below the last price that is a buy limit or sell stop; above it, a sell limit or buy stop.
+export const ChartTradeMenu = ({ coin, price, lastPrice, onOrderPlaced, className, children }: ChartTradeMenuProps) => {
+  const [pendingOrder, setPendingOrder] = useState<PendingOrder | null>(null);
+  const [size, setSize] = useState("");
+  const { executeOrder, isExecuting } = useOrderExecution();
+
+  const isBelow = price !== null && price < lastPrice;
+  const actions: PendingOrder[] = price === null ? [] : [
+    { isBuy: isBelow, kind: "limit", price },
+    { isBuy: !isBelow, kind: "stop", price }
+  ];
+
+  const handleSubmit = async () => {
+    if (!pendingOrder) return;
+
+    const order: OrderRequest = pendingOrder.kind === "limit"
+      ? { asset: coin, isBuy: pendingOrder.isBuy, size: parseFloat(size), orderType: "limit", price: pendingOrder.price }
+      : { asset: coin, isBuy: pendingOrder.isBuy, size: parseFloat(size), orderType: "stop", stopPrice: pendingOrder.price };
+
+    const result = await executeOrder(order);
+    if (result.success) {
+      setPendingOrder(null);
+      onOrderPlaced?.();
+    }
+  };
+
+  const sizeValue = parseFloat(size);
+  const isSizeValid = sizeValue > 0;
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div className={className}>{children}</div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-56">
+          {price === null ? (
+            <ContextMenuLabel className="text-xs font-normal text-muted-foreground">
+              Right-click the price area to place an order
+            </ContextMenuLabel>
+          ) : (
+            <>
+              <ContextMenuLabel className="font-mono-numeric">
+                {coin} @ {formatPrice(price)}
+              </ContextMenuLabel>
+              <ContextMenuSeparator />
+              {actions.map(action => (
+                <ContextMenuItem
+                  key={`${action.kind}-${action.isBuy}`}
+                  className={action.isBuy ? "text-success" : "text-danger"}
+                  onSelect={() => setPendingOrder(action)}
+                >
+                  {action.isBuy ? "Buy" : "Sell"} {action.kind}
+                </ContextMenuItem>
+              ))}
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+
+      <Dialog open={pendingOrder !== null} onOpenChange={(open) => !open && setPendingOrder(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingOrder && `${pendingOrder.isBuy ? "Buy" : "Sell"} ${pendingOrder.kind} @ ${formatPrice(pendingOrder.price)}`}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="chart-order-size">Size ({coin})</Label>
+            <Input
+              id="chart-order-size"
+              type="number"
+              min="0"
+              step="any"
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+              placeholder="0.00"
+              autoFocus
+            />
+            {pendingOrder && isSizeValid && (
+              <p className="text-xs text-muted-foreground">
+                Notional ≈ ${(sizeValue * pendingOrder.price).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingOrder(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!isSizeValid || isExecuting}
+              className={pendingOrder?.isBuy ? "bg-success hover:bg-success/90" : "bg-danger hover:bg-danger/90"}
+            >
+              {isExecuting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Place order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
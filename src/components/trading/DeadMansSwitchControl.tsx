@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useWallet } from "@/contexts/WalletContext";
+import { useDeadMansSwitch } from "@/hooks/useDeadMansSwitch";
+import { DEAD_MANS_SWITCH_TIMEOUTS, formatCountdown, formatSwitchTimeout } from "@/lib/deadMansSwitch";
+
+// Header control for the dead-man's switch: a countdown to the scheduled
+// cancel, with the on/off toggle and timeout in a popover
+export const DeadMansSwitchControl = () => {
+  const { isConnected, agent, isApprovingAgent, enableOneClickTrading } = useWallet();
+  const { settings, status, deadline, refreshError, setEnabled, setTimeoutSeconds } = useDeadMansSwitch();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdown while a cancel is scheduled
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [deadline]);
+
+  if (!isConnected) return null;
+
+  const isFailing = status === "failing" || status === "needsAgent";
+  const label = status === "off" ? "Off" : deadline !== null ? formatCountdown(deadline - now) : "--:--";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="min-h-[44px] gap-1.5 font-mono-numeric"
+          style={isFailing ? { color: "hsl(var(--warning))" } : undefined}
+          title="Dead-man's switch"
+        >
+          <Timer className="h-4 w-4" />
+          <span className="hidden sm:inline">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <Label htmlFor="dead-mans-switch" className="font-medium">Dead-man's switch</Label>
+            <p className="text-xs text-muted-foreground">
+              Cancel all open orders if this tab stops refreshing the timer
+            </p>
+          </div>
+          <Switch id="dead-mans-switch" checked={settings.enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label className="text-sm">Cancel after</Label>
+          <Select
+            value={String(settings.timeoutSeconds)}
+            onValueChange={(value) => setTimeoutSeconds(Number(value))}
+          >
+            <SelectTrigger className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEAD_MANS_SWITCH_TIMEOUTS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {formatSwitchTimeout(seconds)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {status === "needsAgent" && !agent && (
+          <div className="space-y-2 text-xs text-muted-foreground">
+            <p>The timer is refreshed by your one-click trading agent, so no wallet popups are needed.</p>
+            <Button size="sm" className="w-full" onClick={enableOneClickTrading} disabled={isApprovingAgent}>
+              {isApprovingAgent ? "Approving..." : "Enable one-click trading"}
+            </Button>
+          </div>
+        )}
+
+        {status === "failing" && refreshError && (
+          <p className="text-xs" style={{ color: "hsl(var(--warning))" }}>
+            Can't refresh: {refreshError}
+          </p>
+        )}
+
+        {deadline !== null && status !== "off" && (
+          <p className="text-xs text-muted-foreground">
+            Orders cancel at {new Date(deadline).toLocaleTimeString()} unless refreshed
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,96 @@
+import { useMemo } from "react";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { AggregatedOrderBook } from "@/lib/orderBook";
+
+interface DepthChartProps {
+  book: AggregatedOrderBook | null;
+  height?: number;
+}
+
+interface DepthPoint {
+  price: number;
+  bids?: number;
+  asks?: number;
+}
+
+const chartConfig = {
+  bids: { label: "Bids", color: "hsl(var(--success))" },
+  asks: { label: "Asks", color: "hsl(var(--danger))" }
+} satisfies ChartConfig;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : 2 });
+
+// Cumulative bid/ask depth curves around the mid price
+export const DepthChart = ({ book, height = 240 }: DepthChartProps) => {
+  const data = useMemo<DepthPoint[]>(() => {
+    if (!book) return [];
+
+    // Bids are ordered best-first, so reverse them to get ascending prices
+    const bidPoints = [...book.bids].reverse().map(level => ({ price: level.price, bids: level.total }));
+    const askPoints = book.asks.map(level => ({ price: level.price, asks: level.total }));
+
+    return [...bidPoints, ...askPoints];
+  }, [book]);
+
+  if (!book || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-muted-foreground" style={{ height }}>
+        Waiting for order book...
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height }}>
+      <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis
+          dataKey="price"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={formatPrice}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+        />
+        <YAxis
+          orientation="right"
+          tickLine={false}
+          axisLine={false}
+          width={48}
+          tickFormatter={(value: number) => value.toLocaleString(undefined, { notation: "compact" })}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => formatPrice(payload?.[0]?.payload?.price ?? 0)}
+            />
+          }
+        />
+        {book.midPrice !== null && (
+          <ReferenceLine x={book.midPrice} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+        )}
+        <Area
+          dataKey="bids"
+          type="stepBefore"
+          stroke="var(--color-bids)"
+          fill="var(--color-bids)"
+          fillOpacity={0.2}
+          isAnimationActive={false}
+          connectNulls={false}
+        />
+        <Area
+          dataKey="asks"
+          type="stepAfter"
+          stroke="var(--color-asks)"
+          fill="var(--color-asks)"
+          fillOpacity={0.2}
+          isAnimationActive={false}
+          connectNulls={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
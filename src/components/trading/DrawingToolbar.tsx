@@ -0,0 +1,99 @@
+import { useRef } from "react";
+import {
+  AlignJustify,
+  ArrowRight,
+  Download,
+  Slash,
+  Square,
+  Trash2,
+  Type,
+  Undo2,
+  Upload,
+  type LucideIcon
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { DRAWING_TOOLS, type DrawingTool } from "@/lib/drawings";
+
+const TOOL_ICONS: Record<DrawingTool, LucideIcon> = {
+  trendline: Slash,
+  horizontalRay: ArrowRight,
+  fibonacci: AlignJustify,
+  rectangle: Square,
+  text: Type
+};
+
+interface DrawingToolbarProps {
+  activeTool: DrawingTool | null;
+  onToolChange: (tool: DrawingTool | null) => void;
+  canUndo: boolean;
+  hasDrawings: boolean;
+  onUndo: () => void;
+  onClear: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  className?: string;
+}
+
+// Drawing tool picker plus undo, clear, export and import for the chart
+export const DrawingToolbar = ({
+  activeTool,
+  onToolChange,
+  canUndo,
+  hasDrawings,
+  onUndo,
+  onClear,
+  onExport,
+  onImport,
+  className
+}: DrawingToolbarProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const renderButton = (label: string, Icon: LucideIcon, onClick: () => void, options: { active?: boolean; disabled?: boolean } = {}) => (
+    <Tooltip key={label}>
+      <TooltipTrigger asChild>
+        <Button
+          size="sm"
+          variant={options.active ? "default" : "ghost"}
+          className="h-7 w-7 p-0"
+          onClick={onClick}
+          disabled={options.disabled}
+          aria-label={label}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+
+  return (
+    <div className={cn("flex items-center gap-0.5", className)}>
+      {DRAWING_TOOLS.map(({ tool, label }) =>
+        renderButton(label, TOOL_ICONS[tool], () => onToolChange(activeTool === tool ? null : tool), {
+          active: activeTool === tool
+        })
+      )}
+
+      <div className="mx-1 h-4 w-px bg-border" />
+
+      {renderButton("Undo", Undo2, onUndo, { disabled: !canUndo })}
+      {renderButton("Clear drawings", Trash2, onClear, { disabled: !hasDrawings })}
+      {renderButton("Export drawings", Download, onExport, { disabled: !hasDrawings })}
+      {renderButton("Import drawings", Upload, () => fileInputRef.current?.click())}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
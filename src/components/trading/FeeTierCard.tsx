@@ -0,0 +1,42 @@
+import { Progress } from "@/components/ui/progress";
+import type { FeeRates, FeeTierProgress } from "@/lib/fees";
+
+interface FeeTierCardProps {
+  progress: FeeTierProgress;
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(4)}%`;
+
+const formatVolume = (volume: number) =>
+  volume.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 2 });
+
+const formatRates = ({ taker, maker }: FeeRates) => `${formatRate(taker)} / ${formatRate(maker)}`;
+
+// The user's fee tier, effective taker/maker rates and 14-day volume toward the next tier
+export const FeeTierCard = ({ progress }: FeeTierCardProps) => (
+  <div className="space-y-2 rounded-lg bg-muted/50 p-3 text-xs">
+    <div className="flex justify-between">
+      <span className="font-medium">{progress.tier > 0 ? `VIP ${progress.tier}` : "Base tier"}</span>
+      <span className="font-mono-numeric text-muted-foreground" title="Taker / maker">
+        {formatRates(progress.rates)}
+      </span>
+    </div>
+    {progress.nextTierVolume !== null && progress.nextRates ? (
+      <>
+        <Progress value={progress.progress * 100} className="h-1.5" />
+        <div className="flex justify-between text-muted-foreground">
+          <span className="font-mono-numeric">
+            ${formatVolume(progress.volume)} / ${formatVolume(progress.nextTierVolume)} 14d volume
+          </span>
+          <span className="font-mono-numeric" title="Next tier taker / maker">
+            Next: {formatRates(progress.nextRates)}
+          </span>
+        </div>
+      </>
+    ) : (
+      <div className="text-muted-foreground">
+        Top tier · ${formatVolume(progress.volume)} 14d volume
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,144 @@
+import { Settings2, X, LineChart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  INDICATOR_DEFINITIONS,
+  formatIndicatorLabel,
+  type IndicatorConfig,
+  type IndicatorParams,
+  type IndicatorType,
+  type IndicatorValue
+} from "@/lib/indicators";
+
+const OVERLAY_TYPES = Object.values(INDICATOR_DEFINITIONS).filter(d => d.placement === "overlay");
+const PANE_TYPES = Object.values(INDICATOR_DEFINITIONS).filter(d => d.placement === "pane");
+
+const formatValue = (value: number | null) =>
+  value === null
+    ? "–"
+    : value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 1 ? 6 : 2 });
+
+// datetime-local inputs work in local time without a zone suffix
+const toDateTimeLocal = (time: number) => {
+  const date = new Date(time);
+  return new Date(time - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+interface IndicatorMenuProps {
+  onAdd: (type: IndicatorType) => void;
+}
+
+// Header dropdown listing the indicators that can be added to the chart
+export const IndicatorMenu = ({ onAdd }: IndicatorMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button size="sm" variant="ghost" className="h-7 gap-1 px-2 text-xs">
+        <LineChart className="h-3.5 w-3.5" />
+        Indicators
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-48">
+      <DropdownMenuLabel className="text-xs text-muted-foreground">Overlays</DropdownMenuLabel>
+      {OVERLAY_TYPES.map(definition => (
+        <DropdownMenuItem key={definition.type} onSelect={() => onAdd(definition.type)}>
+          {definition.label}
+        </DropdownMenuItem>
+      ))}
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel className="text-xs text-muted-foreground">Panes</DropdownMenuLabel>
+      {PANE_TYPES.map(definition => (
+        <DropdownMenuItem key={definition.type} onSelect={() => onAdd(definition.type)}>
+          {definition.label}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+interface IndicatorLegendItemProps {
+  config: IndicatorConfig;
+  // Values at the hovered candle, keyed by line
+  value?: IndicatorValue;
+  onChange: (params: IndicatorParams) => void;
+  onRemove: () => void;
+}
+
+// Legend entry for an active indicator, with its current values and settings
+export const IndicatorLegendItem = ({ config, value, onChange, onRemove }: IndicatorLegendItemProps) => {
+  const definition = INDICATOR_DEFINITIONS[config.type];
+
+  return (
+    <div className="pointer-events-auto flex items-center gap-2 rounded bg-background/70 px-1.5 py-0.5 font-mono text-xs">
+      <span className="text-muted-foreground">{formatIndicatorLabel(config)}</span>
+      {definition.lines.map(line => (
+        <span key={line.key} style={{ color: line.color }}>
+          {formatValue(value?.[line.key] ?? null)}
+        </span>
+      ))}
+
+      {definition.params.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="text-muted-foreground hover:text-foreground" aria-label="Indicator settings">
+              <Settings2 className="h-3 w-3" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-56 space-y-3">
+            <div className="text-sm font-medium">{definition.label}</div>
+            {definition.params.map(param => (
+              <div key={param.key} className="space-y-1">
+                <Label htmlFor={`${config.id}-${param.key}`} className="text-xs">{param.label}</Label>
+                {param.kind === "time" ? (
+                  <Input
+                    id={`${config.id}-${param.key}`}
+                    type="datetime-local"
+                    className="h-8"
+                    value={toDateTimeLocal(config.params[param.key])}
+                    onChange={(e) => {
+                      const time = new Date(e.target.value).getTime();
+                      if (!isNaN(time)) onChange({ ...config.params, [param.key]: time });
+                    }}
+                  />
+                ) : (
+                  <Input
+                    id={`${config.id}-${param.key}`}
+                    type="number"
+                    className="h-8"
+                    min={param.min}
+                    max={param.max}
+                    step={param.step ?? 1}
+                    defaultValue={config.params[param.key]}
+                    onChange={(e) => {
+                      const parsed = parseFloat(e.target.value);
+                      if (isNaN(parsed)) return;
+                      const clamped = Math.min(param.max ?? Infinity, Math.max(param.min ?? -Infinity, parsed));
+                      onChange({ ...config.params, [param.key]: param.step ? clamped : Math.round(clamped) });
+                    }}
+                  />
+                )}
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <button
+        className="text-muted-foreground hover:text-foreground"
+        onClick={onRemove}
+        aria-label={`Remove ${definition.label}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+};
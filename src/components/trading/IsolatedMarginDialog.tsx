@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AssetRegistry } from "@/lib/assetRegistry";
+import { useOrderExecution } from "@/hooks/useOrderExecution";
+import { useWallet } from "@/contexts/WalletContext";
+import type { Position } from "@/types/hyperliquid";
+
+interface IsolatedMarginDialogProps {
+  position: Position | null;      // Open while set
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+const formatUsd = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Add margin to or remove it from an isolated position
+export const IsolatedMarginDialog = ({ position, onClose, onUpdated }: IsolatedMarginDialogProps) => {
+  const [direction, setDirection] = useState<"add" | "remove">("add");
+  const [amount, setAmount] = useState("");
+  const { updateIsolatedMargin, isExecuting } = useOrderExecution();
+  const { availableMargin } = useWallet();
+
+  useEffect(() => {
+    setDirection("add");
+    setAmount("");
+  }, [position?.pair]);
+
+  const value = parseFloat(amount);
+  // The exchange keeps at least the initial margin for the position's leverage
+  const initialMargin = position && position.leverage > 0 ? position.size / position.leverage : 0;
+  const removableMargin = position ? Math.max(0, position.marginUsed - initialMargin) : 0;
+  const maxAmount = direction === "add" ? availableMargin : removableMargin;
+  const isValid = value > 0 && value <= maxAmount;
+  const resultingMargin = position ? position.marginUsed + (direction === "add" ? 1 : -1) * (value || 0) : 0;
+
+  const handleSubmit = async () => {
+    if (!position || !isValid) return;
+
+    const result = await updateIsolatedMargin(AssetRegistry.toCoin(position.pair), direction === "add" ? value : -value);
+    if (result.success) {
+      onUpdated();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!position} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Adjust margin</DialogTitle>
+          <DialogDescription>
+            {direction === "add"
+              ? "Moving margin into an isolated position pushes its liquidation price further away."
+              : "Margin above what the position's leverage requires can be moved back to your account, bringing the liquidation price closer."}
+          </DialogDescription>
+        </DialogHeader>
+        {position && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSubmit();
+            }}
+          >
+            <Tabs value={direction} onValueChange={(v) => setDirection(v as "add" | "remove")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="add">Add</TabsTrigger>
+                <TabsTrigger value="remove">Remove</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="isolated-margin-amount">Amount (USDC)</Label>
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                  onClick={() => setAmount((Math.floor(maxAmount * 100) / 100).toFixed(2))}
+                >
+                  Max: ${formatUsd(maxAmount)}
+                </button>
+              </div>
+              <Input
+                id="isolated-margin-amount"
+                type="number"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="font-mono-numeric"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1 rounded-lg bg-muted/50 p-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{position.pair} margin</span>
+                <span className="font-mono-numeric">${formatUsd(position.marginUsed)}</span>
+              </div>
+              {direction === "remove" && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Required at {position.leverage}x</span>
+                  <span className="font-mono-numeric">${formatUsd(initialMargin)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">After</span>
+                <span className="font-mono-numeric">${formatUsd(Math.max(0, resultingMargin))}</span>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isValid || isExecuting}>
+                {direction === "add" ? "Add margin" : "Remove margin"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,152 @@
+import { useEffect, useRef } from "react";
+import { useElementSize } from "@/hooks/usePerformance";
+import { prepareCanvas, themeColor } from "@/lib/canvas";
+import type { AggregatedOrderBook } from "@/lib/orderBook";
+
+interface LiquidityHeatmapProps {
+  book: AggregatedOrderBook | null;
+  height?: number;
+  maxColumns?: number; // Number of snapshots kept, one column each
+}
+
+interface HeatmapColumn {
+  time: number;
+  midPrice: number | null;
+  bids: Array<[number, number]>; // [price, size]
+  asks: Array<[number, number]>;
+}
+
+const PRICE_AXIS_WIDTH = 56;
+
+// Time-series heatmap of resting liquidity, one column per l2Book snapshot.
+// Drawn on a canvas so redrawing the whole history each second stays cheap.
+export const LiquidityHeatmap = ({ book, height = 240, maxColumns = 300 }: LiquidityHeatmapProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const historyRef = useRef<{ coin: string | null; columns: HeatmapColumn[] }>({ coin: null, columns: [] });
+  const { ref: containerRef, width } = useElementSize<HTMLDivElement>();
+
+  // Record each new snapshot, starting over when the market changes
+  useEffect(() => {
+    if (!book) return;
+
+    const history = historyRef.current;
+    if (history.coin !== book.coin) {
+      history.coin = book.coin;
+      history.columns = [];
+    }
+
+    const last = history.columns[history.columns.length - 1];
+    if (last && last.time === book.time) return;
+
+    history.columns.push({
+      time: book.time,
+      midPrice: book.midPrice,
+      bids: book.bids.map(level => [level.price, level.size]),
+      asks: book.asks.map(level => [level.price, level.size])
+    });
+    if (history.columns.length > maxColumns) {
+      history.columns.splice(0, history.columns.length - maxColumns);
+    }
+  }, [book, maxColumns]);
+
+  // Redraw on every update
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const context = prepareCanvas(canvas, width, height);
+    if (!context) return;
+
+    context.clearRect(0, 0, width, height);
+
+    const columns = historyRef.current.columns;
+    if (!book || columns.length === 0) return;
+
+    // Fit the price axis to the current book so the view follows the market
+    const low = book.bids[book.bids.length - 1]?.price ?? book.asks[0]?.price;
+    const high = book.asks[book.asks.length - 1]?.price ?? book.bids[0]?.price;
+    if (low === undefined || high === undefined || high <= low) return;
+
+    let maxSize = 0;
+    columns.forEach(column => {
+      column.bids.forEach(([, size]) => { maxSize = Math.max(maxSize, size); });
+      column.asks.forEach(([, size]) => { maxSize = Math.max(maxSize, size); });
+    });
+    if (maxSize === 0) return;
+
+    const plotWidth = width - PRICE_AXIS_WIDTH;
+    const columnWidth = plotWidth / maxColumns;
+    const startX = plotWidth - columns.length * columnWidth;
+    const toY = (price: number) => height - ((price - low) / (high - low)) * height;
+    const rowHeight = Math.max(2, height / Math.max(book.bids.length + book.asks.length, 1));
+    // Log scale keeps thin levels visible next to walls
+    const intensity = (size: number) => Math.log1p(size) / Math.log1p(maxSize);
+
+    const bidColor = themeColor("success");
+    const askColor = themeColor("danger");
+
+    columns.forEach((column, index) => {
+      const x = startX + index * columnWidth;
+
+      context.fillStyle = bidColor;
+      column.bids.forEach(([price, size]) => {
+        if (price < low || price > high) return;
+        context.globalAlpha = 0.1 + 0.9 * intensity(size);
+        context.fillRect(x, toY(price) - rowHeight / 2, Math.ceil(columnWidth), rowHeight);
+      });
+
+      context.fillStyle = askColor;
+      column.asks.forEach(([price, size]) => {
+        if (price < low || price > high) return;
+        context.globalAlpha = 0.1 + 0.9 * intensity(size);
+        context.fillRect(x, toY(price) - rowHeight / 2, Math.ceil(columnWidth), rowHeight);
+      });
+    });
+    context.globalAlpha = 1;
+
+    // Mid price trace
+    context.strokeStyle = themeColor("foreground", 0.8);
+    context.lineWidth = 1;
+    context.beginPath();
+    let started = false;
+    columns.forEach((column, index) => {
+      if (column.midPrice === null) return;
+      const x = startX + (index + 0.5) * columnWidth;
+      const y = toY(column.midPrice);
+      if (started) {
+        context.lineTo(x, y);
+      } else {
+        context.moveTo(x, y);
+        started = true;
+      }
+    });
+    context.stroke();
+
+    // Price axis
+    context.fillStyle = themeColor("muted-foreground");
+    context.font = "10px ui-monospace, monospace";
+    context.textAlign = "left";
+    context.textBaseline = "middle";
+    const ticks = 5;
+    for (let i = 0; i <= ticks; i++) {
+      const price = low + ((high - low) * i) / ticks;
+      const y = Math.min(height - 6, Math.max(6, toY(price)));
+      context.fillText(
+        price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : 2 }),
+        plotWidth + 4,
+        y
+      );
+    }
+  }, [book, width, height, maxColumns]);
+
+  return (
+    <div ref={containerRef} className="relative w-full" style={{ height }}>
+      <canvas ref={canvasRef} className="absolute inset-0" />
+      {!book && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+          Waiting for order book...
+        </div>
+      )}
+    </div>
+  );
+};
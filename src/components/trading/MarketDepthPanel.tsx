@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Layers, Flame } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useOrderBook } from "@/hooks/useOrderBook";
+import { useElementSize } from "@/hooks/usePerformance";
+import { DepthChart } from "./DepthChart";
+import { LiquidityHeatmap } from "./LiquidityHeatmap";
+
+interface MarketDepthPanelProps {
+  coin?: string;
+  // Chart height in pixels, or "fill" to fill a sized parent
+  height?: number | "fill";
+}
+
+export const MarketDepthPanel = ({ coin = "BTC", height: heightProp = 240 }: MarketDepthPanelProps) => {
+  const [view, setView] = useState<"depth" | "heatmap">("depth");
+  const { book, isConnected } = useOrderBook(coin);
+  const { ref: contentRef, height: measuredHeight } = useElementSize<HTMLDivElement>();
+  const isFill = heightProp === "fill";
+  const height = isFill ? measuredHeight : heightProp;
+
+  return (
+    <Card className={cn("border-border bg-card", isFill && "flex h-full flex-col")}>
+      <div className="flex items-center justify-between border-b border-border p-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Market Depth</span>
+          <span className="text-xs text-muted-foreground">{coin}</span>
+          <div className={cn("h-2 w-2 rounded-full", isConnected ? "bg-success" : "bg-muted-foreground")} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant={view === "depth" ? "default" : "outline"}
+            onClick={() => setView("depth")}
+            className="gap-2"
+          >
+            <Layers className="h-4 w-4" />
+            Depth
+          </Button>
+          <Button
+            size="sm"
+            variant={view === "heatmap" ? "default" : "outline"}
+            onClick={() => setView("heatmap")}
+            className="gap-2"
+          >
+            <Flame className="h-4 w-4" />
+            Heatmap
+          </Button>
+        </div>
+      </div>
+
+      <div ref={contentRef} className={cn("p-3", isFill && "min-h-0 flex-1")}>
+        {view === "depth" && <DepthChart book={book} height={height} />}
+        {/* Kept mounted so the heatmap keeps recording history while hidden */}
+        <div className={cn(view !== "heatmap" && "hidden")}>
+          <LiquidityHeatmap book={book} height={height} />
+        </div>
+      </div>
+    </Card>
+  );
+};
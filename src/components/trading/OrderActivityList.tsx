@@ -0,0 +1,117 @@
+import { Fragment, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { ORDER_STATUS_LABELS, type OrderLifecycleStatus, type TrackedOrder } from "@/lib/orderLifecycle";
+
+interface OrderActivityListProps {
+  orders: TrackedOrder[];
+}
+
+const formatSize = (size: number) => size.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const statusColor = (status: OrderLifecycleStatus) => {
+  if (status === "filled") return "hsl(var(--success))";
+  if (status === "cancelled" || status === "rejected") return "hsl(var(--destructive))";
+  if (status === "partiallyFilled" || status === "triggered") return "hsl(var(--warning))";
+  return undefined;
+};
+
+// Orders tracked this session with their status; rows expand into a timeline
+export const OrderActivityList = ({ orders }: OrderActivityListProps) => {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  if (orders.length === 0) {
+    return (
+      <div className="flex h-32 items-center justify-center text-muted-foreground">
+        No order activity this session
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="border-b border-border bg-muted/30">
+          <tr className="text-left text-sm text-muted-foreground">
+            <th className="p-3 font-medium">Market</th>
+            <th className="p-3 font-medium">Side</th>
+            <th className="p-3 font-medium">Filled / Size</th>
+            <th className="p-3 font-medium">Avg. Price</th>
+            <th className="p-3 font-medium">Status</th>
+            <th className="p-3 font-medium">Updated</th>
+          </tr>
+        </thead>
+        <tbody>
+          {orders.map((order) => {
+            const isExpanded = expandedKey === order.key;
+            return (
+              <Fragment key={order.key}>
+                <tr
+                  className="cursor-pointer border-b border-border hover:bg-muted/20"
+                  onClick={() => setExpandedKey(isExpanded ? null : order.key)}
+                >
+                  <td className="p-3 font-medium">
+                    <span className="flex items-center gap-1">
+                      {isExpanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                      {order.coin}/USD
+                    </span>
+                  </td>
+                  <td className="p-3">
+                    <span
+                      className="text-xs font-medium"
+                      style={{ color: `hsl(var(--${order.side === "buy" ? "success" : "destructive"}))` }}
+                    >
+                      {order.side.toUpperCase()}
+                    </span>
+                  </td>
+                  <td className="p-3 font-mono-numeric">
+                    {formatSize(order.filledSize)} / {formatSize(order.size)}
+                  </td>
+                  <td className="p-3 font-mono-numeric">
+                    {order.averagePrice !== null
+                      ? `$${order.averagePrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}`
+                      : "-"}
+                  </td>
+                  <td className="p-3">
+                    <span className="text-xs font-medium" style={{ color: statusColor(order.status) }}>
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </span>
+                  </td>
+                  <td className="p-3 text-xs text-muted-foreground">
+                    {new Date(order.updatedAt).toLocaleTimeString()}
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr className="border-b border-border bg-muted/10">
+                    <td colSpan={6} className="px-8 py-3">
+                      <ol className="space-y-1.5 border-l border-border pl-4">
+                        {order.timeline.map((entry, index) => (
+                          <li key={index} className="relative text-xs">
+                            <span
+                              className="absolute -left-[21px] top-1 h-2 w-2 rounded-full bg-muted-foreground"
+                              style={{ backgroundColor: statusColor(entry.status) }}
+                            />
+                            <span className="font-mono-numeric text-muted-foreground">
+                              {new Date(entry.time).toLocaleTimeString()}
+                            </span>{" "}
+                            <span className="font-medium">{ORDER_STATUS_LABELS[entry.status]}</span>
+                            {entry.detail && <span className="text-muted-foreground"> · {entry.detail}</span>}
+                          </li>
+                        ))}
+                      </ol>
+                      {order.oid !== null && (
+                        <div className="mt-2 text-xs text-muted-foreground">Order ID {order.oid}</div>
+                      )}
+                      {order.cloid && (
+                        <div className="font-mono-numeric text-xs text-muted-foreground">Client ID {order.cloid}</div>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { Card } from "@/components/ui/card";
+import { VirtualOrderBook } from "@/components/VirtualScrolling";
+import { cn } from "@/lib/utils";
+import { useOrderBook } from "@/hooks/useOrderBook";
+import { useElementSize } from "@/hooks/usePerformance";
+
+interface OrderBookPanelProps {
+  coin?: string;
+  className?: string;
+}
+
+// Hyperliquid prices carry at most five significant figures
+const getPricePrecision = (price: number | null) =>
+  price ? Math.min(6, Math.max(0, 4 - Math.floor(Math.log10(price)))) : 2;
+
+// Full-depth order book that fills its parent, for the trading workspace
+export const OrderBookPanel = ({ coin = "BTC", className }: OrderBookPanelProps) => {
+  const { book, grouping, setGrouping, groupingOptions, isConnected } = useOrderBook(coin);
+  const { ref: contentRef, height } = useElementSize<HTMLDivElement>();
+
+  return (
+    <Card className={cn("flex h-full flex-col border-border bg-card", className)}>
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Order Book</span>
+          <span className="text-xs text-muted-foreground">{coin}</span>
+          <div className={cn("h-2 w-2 rounded-full", isConnected ? "bg-success" : "bg-muted-foreground")} />
+        </div>
+        <span className="text-xs text-muted-foreground">
+          Spread: {book?.spread != null ? book.spread.toLocaleString() : "—"}
+        </span>
+      </div>
+
+      <div ref={contentRef} className="min-h-0 flex-1">
+        {book ? (
+          height > 0 && (
+            <VirtualOrderBook
+              bids={book.bids}
+              asks={book.asks}
+              height={height}
+              precision={getPricePrecision(book.midPrice)}
+              maxTotal={book.maxTotal}
+              grouping={grouping}
+              groupingOptions={groupingOptions}
+              onGroupingChange={setGrouping}
+            />
+          )
+        ) : (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            Loading order book...
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
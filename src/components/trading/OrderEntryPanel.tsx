@@ -5,32 +5,97 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
-import { Loader2, AlertCircle } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, AlertCircle, Zap } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { AssetInfo, L2BookSnapshot, MetaResponse } from "@/types/hyperliquid";
 import { hyperliquidAPI } from "@/lib/hyperliquid";
+import { MIN_ORDER_NOTIONAL } from "@/lib/assetRegistry";
+import {
+  buildScaleOrders,
+  getAverageScalePrice,
+  MAX_SCALE_ORDERS,
+  MAX_TWAP_MINUTES,
+  MIN_SCALE_ORDERS,
+  MIN_TWAP_MINUTES,
+  type ScaleDistribution
+} from "@/lib/algoOrders";
+import { estimateFee } from "@/lib/fees";
+import { checkSlippage, estimateSlippage } from "@/lib/slippage";
+import { estimateOrderMargin, getAvailableMargin, type MarginMode } from "@/lib/margin";
+import { resolveBracketPrice, validateBracketPrice, type BracketTarget } from "@/lib/brackets";
 import { useOrderExecution, OrderRequest } from "@/hooks/useOrderExecution";
+import { toTriggerOrder, useRiskManagement } from "@/hooks/useAdvancedTrading";
+import { useTwapOrders } from "@/hooks/useTwapOrders";
+import { useUserFees } from "@/hooks/useUserFees";
+import { useWallet } from "@/contexts/WalletContext";
 import { toast } from "sonner";
+import { TwapOrdersList } from "./TwapOrdersList";
+import { BracketComposer } from "./BracketComposer";
+import { FeeTierCard } from "./FeeTierCard";
 
 export const OrderEntryPanel = () => {
   const [side, setSide] = useState<"long" | "short">("long");
   const [leverage, setLeverage] = useState([10]);
+  const [marginMode, setMarginMode] = useState<MarginMode>("cross");
+  // Last leverage setting sent to the exchange, as "asset:leverage:mode"
+  const [appliedLeverage, setAppliedLeverage] = useState<string | null>(null);
   const [collateral, setCollateral] = useState("");
   const [orderType, setOrderType] = useState("market");
   const [selectedAsset, setSelectedAsset] = useState("BTC");
   const [limitPrice, setLimitPrice] = useState("");
+
+  // Take profit and stop loss submitted with market and limit entries
+  const [takeProfit, setTakeProfit] = useState<BracketTarget>({ mode: "price", value: "" });
+  const [stopLoss, setStopLoss] = useState<BracketTarget>({ mode: "price", value: "" });
+
+  // Scale orders: a ladder of limits between two prices
+  const [scaleStartPrice, setScaleStartPrice] = useState("");
+  const [scaleEndPrice, setScaleEndPrice] = useState("");
+  const [scaleCount, setScaleCount] = useState("5");
+  const [scaleDistribution, setScaleDistribution] = useState<ScaleDistribution>("linear");
+
+  // TWAP orders: sliced by the exchange over a duration
+  const [twapMinutes, setTwapMinutes] = useState("30");
+  const [twapRandomize, setTwapRandomize] = useState(false);
   
   // Market data state
   const [marketPrice, setMarketPrice] = useState<number>(0);
   const [markPrice, setMarkPrice] = useState<number>(0);
+  const [book, setBook] = useState<L2BookSnapshot | null>(null);
+  const [impactPxs, setImpactPxs] = useState<[string, string] | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // User account state
-  const [availableMargin, setAvailableMargin] = useState<number>(0);
+  // Margin tiers for the selected asset
+  const [marginMeta, setMarginMeta] = useState<MetaResponse | null>(null);
+  const [assetInfo, setAssetInfo] = useState<AssetInfo | null>(null);
   const [maxLeverage, setMaxLeverage] = useState<number>(50);
 
   // Order execution hook
-  const { executeOrder, isExecuting } = useOrderExecution();
+  const {
+    executeOrder,
+    executeBatchOrders,
+    executeScaleOrders,
+    executeTwapOrder,
+    cancelTwapOrder,
+    updateLeverage,
+    isExecuting
+  } = useOrderExecution();
+  const { activeTwaps, refresh: refreshTwaps } = useTwapOrders();
+  const { rates: feeRates, tierProgress } = useUserFees();
+  const { riskSettings, updateRiskSettings } = useRiskManagement();
+  const maxSlippage = riskSettings.maxSlippage / 100;
+  const { isConnected, agent, isApprovingAgent, enableOneClickTrading, clearinghouseState, refreshUserData } = useWallet();
+  const availableMargin = clearinghouseState ? getAvailableMargin(clearinghouseState) : 0;
+
+  // Open position in the selected asset; its leverage settings are the exchange's current ones
+  const openPosition = assetInfo
+    ? clearinghouseState?.assetPositions.find(({ position }) => position.coin === assetInfo.name)?.position
+    : undefined;
+  const positionLeverageType = openPosition?.leverage.type;
+  const positionLeverage = openPosition?.leverage.value;
 
   // Fetch market data
   useEffect(() => {
@@ -40,11 +105,17 @@ export const OrderEntryPanel = () => {
     const fetchMarketData = async () => {
       try {
         setError(null);
-        const marketData = await hyperliquidAPI.getMarketData(selectedAsset);
+        const [marketData, l2Book, [meta, contexts]] = await Promise.all([
+          hyperliquidAPI.getMarketData(selectedAsset),
+          hyperliquidAPI.getL2Book(selectedAsset),
+          hyperliquidAPI.getAssetContexts()
+        ]);
         
         if (isMounted) {
           setMarketPrice(marketData.price);
           setMarkPrice(marketData.markPrice);
+          setBook(l2Book);
+          setImpactPxs(contexts[meta.universe.findIndex(asset => asset.name === selectedAsset)]?.impactPxs);
           setLoading(false);
         }
       } catch (err) {
@@ -67,12 +138,43 @@ export const OrderEntryPanel = () => {
     };
   }, [selectedAsset]);
 
-  // Fetch user account data (mock for now)
+  // Load the selected asset's margin tiers and leverage limit
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([hyperliquidAPI.getMeta(), hyperliquidAPI.getAssetRegistry()])
+      .then(([meta, registry]) => {
+        if (!isMounted) return;
+        const asset = registry.get(selectedAsset) ?? null;
+        setMarginMeta(meta);
+        setAssetInfo(asset);
+        if (asset) {
+          setMaxLeverage(asset.maxLeverage);
+          setLeverage(prev => [Math.min(prev[0], asset.maxLeverage)]);
+          if (asset.onlyIsolated) setMarginMode("isolated");
+        }
+      })
+      .catch(err => console.error('Failed to load margin tiers:', err));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [selectedAsset]);
+
+  // Follow the open position's leverage and margin mode
   useEffect(() => {
-    // In a real app, this would fetch from the user's connected wallet
-    // For now, using mock data
-    setAvailableMargin(10000);
-  }, []);
+    if (positionLeverageType) setMarginMode(positionLeverageType);
+    if (positionLeverage) setLeverage([positionLeverage]);
+  }, [positionLeverageType, positionLeverage]);
+
+  // Unit-size ladder; its average price sets the total size for the collateral
+  const scaleLadder = useMemo(() => buildScaleOrders({
+    totalSize: 1,
+    startPrice: parseFloat(scaleStartPrice),
+    endPrice: parseFloat(scaleEndPrice),
+    count: parseInt(scaleCount, 10),
+    distribution: scaleDistribution
+  }), [scaleStartPrice, scaleEndPrice, scaleCount, scaleDistribution]);
 
   // Calculate order details
   const orderCalculations = useMemo(() => {
@@ -80,10 +182,12 @@ export const OrderEntryPanel = () => {
       return {
         positionSize: 0,
         entryPrice: 0,
-        liquidationPrice: 0,
+        liquidationPrice: null,
         estimatedFees: 0,
+        feeRate: 0,
         marginUsed: 0,
-        requiredMargin: 0
+        requiredMargin: 0,
+        marginError: null
       };
     }
 
@@ -92,34 +196,77 @@ export const OrderEntryPanel = () => {
     const positionSize = collateralAmount * leverageValue;
     
     // Use limit price if set and order type is limit, otherwise use market price
-    const entryPrice = orderType === "limit" && limitPrice 
-      ? parseFloat(limitPrice) 
-      : marketPrice;
+    const entryPrice = orderType === "limit" && limitPrice
+      ? parseFloat(limitPrice)
+      : orderType === "scale" && scaleLadder.length > 0
+        ? getAverageScalePrice(scaleLadder)
+        : marketPrice;
     
-    // Calculate liquidation price (simplified calculation)
-    // In reality, this would account for maintenance margin requirements
-    const maintenanceMarginRate = 0.005; // 0.5% maintenance margin
-    const liquidationDistance = entryPrice * (1 / leverageValue - maintenanceMarginRate);
-    const liquidationPrice = side === "long" 
-      ? entryPrice - liquidationDistance
-      : entryPrice + liquidationDistance;
+    // Margin and liquidation price from the asset's margin tiers, against the open account
+    const marginEstimate = marginMeta && assetInfo && entryPrice > 0
+      ? estimateOrderMargin(marginMeta, assetInfo, clearinghouseState, {
+          isBuy: side === "long",
+          size: positionSize / entryPrice,
+          price: entryPrice,
+          leverage: leverageValue,
+          marginMode
+        })
+      : null;
+
+    // Without an account only the leverage limit can be checked
+    const marginError = marginEstimate && (clearinghouseState || marginEstimate.leverage > marginEstimate.maxLeverage)
+      ? marginEstimate.error ?? null
+      : null;
     
-    // Calculate fees (0.03% maker, 0.07% taker for most assets on Hyperliquid)
-    const feeRate = orderType === "market" ? 0.0007 : 0.0003;
-    const estimatedFees = positionSize * feeRate;
+    // Market orders, TWAP slices and limits priced through the market take liquidity
+    const isTaker = orderType === "market" || orderType === "twap" ||
+      (orderType === "limit" && (side === "long" ? entryPrice >= marketPrice : entryPrice <= marketPrice));
+    const estimatedFees = estimateFee(positionSize, feeRates, isTaker);
     
-    // Required margin is collateral plus fees
-    const requiredMargin = collateralAmount + estimatedFees;
+    // Required margin is what the order adds to the position's margin, plus fees
+    const requiredMargin = (marginEstimate?.requiredMargin ?? collateralAmount) + Math.max(0, estimatedFees);
 
     return {
       positionSize,
       entryPrice,
-      liquidationPrice: Math.max(0, liquidationPrice),
+      liquidationPrice: marginEstimate?.liquidationPrice ?? null,
       estimatedFees,
+      feeRate: isTaker ? feeRates.taker : feeRates.maker,
       marginUsed: collateralAmount,
-      requiredMargin
+      requiredMargin,
+      marginError
     };
-  }, [collateral, leverage, marketPrice, orderType, limitPrice, side]);
+  }, [collateral, leverage, marketPrice, orderType, limitPrice, scaleLadder, side, marginMeta, assetInfo, clearinghouseState, marginMode, feeRates]);
+
+  // Bracket legs resolved to trigger prices
+  const supportsBracket = orderType === "market" || orderType === "limit";
+  const entrySize = orderCalculations.entryPrice > 0 ? orderCalculations.positionSize / orderCalculations.entryPrice : 0;
+  const takeProfitPrice = supportsBracket
+    ? resolveBracketPrice(takeProfit, "tp", side, orderCalculations.entryPrice, leverage[0])
+    : null;
+  const stopLossPrice = supportsBracket
+    ? resolveBracketPrice(stopLoss, "sl", side, orderCalculations.entryPrice, leverage[0])
+    : null;
+  const bracketError =
+    (takeProfitPrice !== null && validateBracketPrice(takeProfitPrice, "tp", side, orderCalculations.entryPrice)) ||
+    (stopLossPrice !== null && validateBracketPrice(stopLossPrice, "sl", side, orderCalculations.entryPrice)) ||
+    null;
+
+  // Expected fill of a market order against the current book
+  const slippageEstimate = useMemo(() => {
+    if (orderType !== "market" || !book || marketPrice <= 0 || orderCalculations.positionSize <= 0) return null;
+    return estimateSlippage(book, side === "long", orderCalculations.positionSize / marketPrice, impactPxs);
+  }, [orderType, book, marketPrice, orderCalculations.positionSize, side, impactPxs]);
+  const slippageError = slippageEstimate
+    ? checkSlippage(slippageEstimate, orderCalculations.positionSize / marketPrice, maxSlippage)
+    : null;
+
+  // Scale ladder sized so its total notional matches the position size
+  const scaleOrders = useMemo(() => {
+    if (orderType !== "scale" || orderCalculations.entryPrice <= 0) return [];
+    const totalSize = orderCalculations.positionSize / orderCalculations.entryPrice;
+    return scaleLadder.map(level => ({ price: level.price, size: level.size * totalSize }));
+  }, [orderType, scaleLadder, orderCalculations.positionSize, orderCalculations.entryPrice]);
 
   // Order submission handler
   const handleSubmitOrder = async () => {
@@ -128,20 +275,73 @@ export const OrderEntryPanel = () => {
       return;
     }
 
+    if (orderType === "scale") {
+      const orders: OrderRequest[] = scaleOrders.map(level => ({
+        asset: selectedAsset,
+        isBuy: side === "long",
+        size: level.size,
+        price: level.price,
+        orderType: "limit",
+        timeInForce: "gtc",
+        leverage: leverage[0]
+      }));
+
+      const results = await executeScaleOrders(orders);
+      if (results.some(result => result.success)) setCollateral("");
+      return;
+    }
+
+    if (orderType === "twap") {
+      const result = await executeTwapOrder({
+        asset: selectedAsset,
+        isBuy: side === "long",
+        size: (parseFloat(collateral) * leverage[0]) / marketPrice,
+        minutes: parseInt(twapMinutes, 10),
+        randomize: twapRandomize,
+        leverage: leverage[0]
+      });
+
+      if (result.success) {
+        setCollateral("");
+        refreshTwaps();
+      }
+      return;
+    }
+
     const price = orderType === "limit" ? parseFloat(limitPrice) : marketPrice;
     const size = (parseFloat(collateral) * leverage[0]) / price;
-    
+
     const order: OrderRequest = {
       asset: selectedAsset,
       isBuy: side === "long",
       size,
       price: orderType === "limit" ? parseFloat(limitPrice) : undefined,
       orderType: orderType as "market" | "limit",
-      timeInForce: "gtc"
+      timeInForce: "gtc",
+      leverage: leverage[0],
+      maxSlippage
     };
 
     try {
-      await executeOrder(order);
+      if (takeProfitPrice !== null || stopLossPrice !== null) {
+        // Entry and TP/SL go out in one action so the exchange links the legs to the entry
+        const legs: OrderRequest[] = [];
+        if (takeProfitPrice !== null) {
+          legs.push(toTriggerOrder({ asset: selectedAsset, side, size, triggerPrice: takeProfitPrice, orderType: "market" }, "tp"));
+        }
+        if (stopLossPrice !== null) {
+          legs.push(toTriggerOrder({ asset: selectedAsset, side, size, triggerPrice: stopLossPrice, orderType: "market" }, "sl"));
+        }
+
+        const [entryResult] = await executeBatchOrders([order, ...legs], "normalTpsl");
+        if (!entryResult?.success) return;
+
+        setTakeProfit(prev => ({ ...prev, value: "" }));
+        setStopLoss(prev => ({ ...prev, value: "" }));
+      } else {
+        await executeOrder(order);
+      }
+
       // Reset form on successful order
       setCollateral("");
       setLimitPrice("");
@@ -150,13 +350,47 @@ export const OrderEntryPanel = () => {
     }
   };
 
+  // Push the slider's leverage and margin mode to the exchange
+  const leverageSetting = `${selectedAsset}:${leverage[0]}:${marginMode}`;
+  const leverageChanged = openPosition ? positionLeverage !== leverage[0] : appliedLeverage !== leverageSetting;
+  const handleApplyLeverage = async () => {
+    const result = await updateLeverage(selectedAsset, leverage[0], marginMode);
+    if (result.success) {
+      setAppliedLeverage(leverageSetting);
+      refreshUserData();
+    }
+  };
+
   const isValidOrder = useMemo(() => {
     if (!collateral || parseFloat(collateral) <= 0) return false;
-    if (orderCalculations.requiredMargin > availableMargin) return false;
+    if (orderCalculations.marginError) return false;
     if (leverage[0] > maxLeverage) return false;
     if (orderType === "limit" && (!limitPrice || parseFloat(limitPrice) <= 0)) return false;
+    if (bracketError) return false;
+    if (slippageError) return false;
+    if (orderType === "scale") {
+      if (scaleOrders.length === 0 || parseFloat(scaleStartPrice) === parseFloat(scaleEndPrice)) return false;
+      if (scaleOrders.some(level => level.price * level.size < MIN_ORDER_NOTIONAL)) return false;
+    }
+    if (orderType === "twap") {
+      const minutes = parseInt(twapMinutes, 10);
+      if (!(minutes >= MIN_TWAP_MINUTES && minutes <= MAX_TWAP_MINUTES)) return false;
+    }
     return true;
-  }, [collateral, orderCalculations.requiredMargin, availableMargin, leverage, maxLeverage, orderType, limitPrice]);
+  }, [
+    collateral,
+    orderCalculations.marginError,
+    leverage,
+    maxLeverage,
+    orderType,
+    limitPrice,
+    scaleOrders,
+    scaleStartPrice,
+    scaleEndPrice,
+    twapMinutes,
+    bracketError,
+    slippageError
+  ]);
 
   if (loading) {
     return (
@@ -219,11 +453,13 @@ export const OrderEntryPanel = () => {
 
       {/* Order Type Tabs */}
       <Tabs value={orderType} onValueChange={setOrderType} className="mb-4">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="market">Market</TabsTrigger>
-          <TabsTrigger value="limit">Limit</TabsTrigger>
-          <TabsTrigger value="stop">Stop</TabsTrigger>
-          <TabsTrigger value="tp-sl">TP/SL</TabsTrigger>
+        <TabsList className="grid w-full grid-cols-6">
+          <TabsTrigger value="market" className="px-1 text-xs">Market</TabsTrigger>
+          <TabsTrigger value="limit" className="px-1 text-xs">Limit</TabsTrigger>
+          <TabsTrigger value="stop" className="px-1 text-xs">Stop</TabsTrigger>
+          <TabsTrigger value="tp-sl" className="px-1 text-xs">TP/SL</TabsTrigger>
+          <TabsTrigger value="scale" className="px-1 text-xs">Scale</TabsTrigger>
+          <TabsTrigger value="twap" className="px-1 text-xs">TWAP</TabsTrigger>
         </TabsList>
       </Tabs>
 
@@ -241,13 +477,132 @@ export const OrderEntryPanel = () => {
         </div>
       )}
 
+      {/* Max slippage (for market orders) */}
+      {orderType === "market" && (
+        <div className="mb-4 flex items-center justify-between gap-2">
+          <Label htmlFor="max-slippage">Max Slippage</Label>
+          <div className="relative w-24">
+            <Input
+              id="max-slippage"
+              type="number"
+              min={0.01}
+              step={0.1}
+              value={riskSettings.maxSlippage}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) updateRiskSettings({ maxSlippage: value });
+              }}
+              className="h-8 pr-7 font-mono-numeric text-sm"
+            />
+            <span className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+              %
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Scale Ladder Inputs */}
+      {orderType === "scale" && (
+        <div className="mb-4 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Start Price</Label>
+              <Input
+                type="number"
+                placeholder={marketPrice.toFixed(2)}
+                value={scaleStartPrice}
+                onChange={(e) => setScaleStartPrice(e.target.value)}
+                className="font-mono-numeric"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>End Price</Label>
+              <Input
+                type="number"
+                placeholder={marketPrice.toFixed(2)}
+                value={scaleEndPrice}
+                onChange={(e) => setScaleEndPrice(e.target.value)}
+                className="font-mono-numeric"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Orders</Label>
+              <Input
+                type="number"
+                min={MIN_SCALE_ORDERS}
+                max={MAX_SCALE_ORDERS}
+                step={1}
+                value={scaleCount}
+                onChange={(e) => setScaleCount(e.target.value)}
+                className="font-mono-numeric"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Distribution</Label>
+              <Select value={scaleDistribution} onValueChange={(value) => setScaleDistribution(value as ScaleDistribution)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="linear">Linear</SelectItem>
+                  <SelectItem value="geometric">Geometric</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* TWAP Inputs */}
+      {orderType === "twap" && (
+        <div className="mb-4 space-y-3">
+          <div className="space-y-2">
+            <Label>Duration (minutes)</Label>
+            <Input
+              type="number"
+              min={MIN_TWAP_MINUTES}
+              max={MAX_TWAP_MINUTES}
+              step={1}
+              value={twapMinutes}
+              onChange={(e) => setTwapMinutes(e.target.value)}
+              className="font-mono-numeric"
+            />
+            <p className="text-xs text-muted-foreground">
+              Between {MIN_TWAP_MINUTES} minutes and {MAX_TWAP_MINUTES / 60} hours
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="twap-randomize">Randomize slices</Label>
+            <Switch id="twap-randomize" checked={twapRandomize} onCheckedChange={setTwapRandomize} />
+          </div>
+        </div>
+      )}
+
       {/* Leverage Slider */}
       <div className="mb-4 space-y-2">
         <div className="flex items-center justify-between">
           <Label>Leverage</Label>
-          <span className="font-mono-numeric text-lg font-bold text-primary">
-            {leverage[0]}x
-          </span>
+          <div className="flex items-center gap-2">
+            {/* The exchange keeps the margin mode fixed while a position is open */}
+            <Select
+              value={marginMode}
+              onValueChange={(mode) => setMarginMode(mode as MarginMode)}
+              disabled={!!openPosition}
+            >
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cross" disabled={assetInfo?.onlyIsolated}>Cross</SelectItem>
+                <SelectItem value="isolated">Isolated</SelectItem>
+              </SelectContent>
+            </Select>
+            <span className="font-mono-numeric text-lg font-bold text-primary">
+              {leverage[0]}x
+            </span>
+          </div>
         </div>
         <Slider
           value={leverage}
@@ -262,6 +617,22 @@ export const OrderEntryPanel = () => {
           <span>{Math.floor(maxLeverage / 2)}x</span>
           <span>{maxLeverage}x</span>
         </div>
+        {assetInfo?.onlyIsolated && (
+          <p className="text-xs text-muted-foreground">{assetInfo.name} only supports isolated margin</p>
+        )}
+        {isConnected && leverageChanged && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            disabled={isExecuting}
+            onClick={handleApplyLeverage}
+          >
+            {openPosition
+              ? `Change ${selectedAsset} position from ${positionLeverage}x to ${leverage[0]}x`
+              : `Set ${selectedAsset} to ${leverage[0]}x ${marginMode}`}
+          </Button>
+        )}
       </div>
 
       {/* Collateral Input */}
@@ -289,13 +660,29 @@ export const OrderEntryPanel = () => {
             MAX
           </Button>
         </div>
-        {orderCalculations.requiredMargin > availableMargin && (
-          <p className="text-xs text-destructive">
-            Insufficient margin. Required: ${orderCalculations.requiredMargin.toFixed(2)}
-          </p>
+        {orderCalculations.marginError && (
+          <p className="text-xs text-destructive">{orderCalculations.marginError}</p>
         )}
       </div>
 
+      {/* Take Profit / Stop Loss */}
+      {supportsBracket && (
+        <div className="mb-4 rounded-lg border border-border p-3">
+          <BracketComposer
+            side={side}
+            entryPrice={orderCalculations.entryPrice}
+            size={entrySize}
+            leverage={leverage[0]}
+            takeProfit={takeProfit}
+            stopLoss={stopLoss}
+            takeProfitPrice={takeProfitPrice}
+            stopLossPrice={stopLossPrice}
+            onTakeProfitChange={setTakeProfit}
+            onStopLossChange={setStopLoss}
+          />
+        </div>
+      )}
+
       {/* Order Summary */}
       {collateral && parseFloat(collateral) > 0 && (
         <div className="mb-4 space-y-2 rounded-lg bg-muted/50 p-3">
@@ -314,13 +701,50 @@ export const OrderEntryPanel = () => {
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Liquidation Price</span>
             <span className="font-mono-numeric font-medium text-danger">
-              ${orderCalculations.liquidationPrice.toLocaleString()}
+              {orderCalculations.liquidationPrice !== null
+                ? `$${orderCalculations.liquidationPrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}`
+                : "None"}
             </span>
           </div>
+          {slippageEstimate && slippageEstimate.averagePrice !== null && (
+            <>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Est. Avg. Fill</span>
+                <span className="font-mono-numeric font-medium">
+                  ${slippageEstimate.averagePrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Est. Slippage</span>
+                <span className="font-mono-numeric font-medium">
+                  {(slippageEstimate.slippage * 100).toFixed(3)}%
+                  {slippageEstimate.impactSlippage !== null && (
+                    <span className="ml-1 text-xs text-muted-foreground" title="Exchange impact price vs mid">
+                      (impact {(slippageEstimate.impactSlippage * 100).toFixed(3)}%)
+                    </span>
+                  )}
+                </span>
+              </div>
+            </>
+          )}
+          {slippageError ? (
+            <p className="flex items-center gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3.5 w-3.5" />
+              {slippageError}
+            </p>
+          ) : slippageEstimate && slippageEstimate.priceImpact > maxSlippage / 2 && (
+            <p className="flex items-center gap-1 text-xs" style={{ color: "hsl(var(--warning))" }}>
+              <AlertCircle className="h-3.5 w-3.5" />
+              High price impact: worst fill ${slippageEstimate.worstPrice?.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+              ({(slippageEstimate.priceImpact * 100).toFixed(2)}%)
+            </p>
+          )}
           <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Est. Fees</span>
+            <span className="text-muted-foreground">
+              {orderCalculations.estimatedFees < 0 ? "Est. Rebate" : "Est. Fees"} ({(Math.abs(orderCalculations.feeRate) * 100).toFixed(4)}%)
+            </span>
             <span className="font-mono-numeric font-medium">
-              ${orderCalculations.estimatedFees.toFixed(2)}
+              ${Math.abs(orderCalculations.estimatedFees).toFixed(2)}
             </span>
           </div>
           <div className="flex justify-between text-sm">
@@ -329,6 +753,25 @@ export const OrderEntryPanel = () => {
               ${orderCalculations.requiredMargin.toFixed(2)}
             </span>
           </div>
+
+          {/* Scale ladder preview */}
+          {scaleOrders.length > 0 && (
+            <div className="space-y-1 border-t border-border pt-2">
+              {scaleOrders.map((level, index) => (
+                <div key={index} className="flex justify-between font-mono-numeric text-xs text-muted-foreground">
+                  <span>${level.price.toLocaleString(undefined, { maximumFractionDigits: 6 })}</span>
+                  <span className={cn(level.price * level.size < MIN_ORDER_NOTIONAL && "text-destructive")}>
+                    {level.size.toLocaleString(undefined, { maximumFractionDigits: 6 })} {selectedAsset}
+                  </span>
+                </div>
+              ))}
+              {scaleOrders.some(level => level.price * level.size < MIN_ORDER_NOTIONAL) && (
+                <p className="text-xs text-destructive">
+                  Each order must be worth at least ${MIN_ORDER_NOTIONAL}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -349,11 +792,51 @@ export const OrderEntryPanel = () => {
             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
             Executing...
           </>
+        ) : orderType === "twap" ? (
+          `Start ${side === "long" ? "Buy" : "Sell"} TWAP ${selectedAsset}`
         ) : (
           `${side === "long" ? "Open Long" : "Open Short"} ${selectedAsset}`
         )}
       </Button>
 
+      {/* Fee tier */}
+      {tierProgress && (
+        <div className="mt-4">
+          <FeeTierCard progress={tierProgress} />
+        </div>
+      )}
+
+      {/* Running TWAPs */}
+      {activeTwaps.length > 0 && (
+        <div className="mt-4">
+          <TwapOrdersList
+            twaps={activeTwaps}
+            onCancel={async (twap) => {
+              const result = await cancelTwapOrder(twap.coin, twap.twapId);
+              if (result.success) refreshTwaps();
+            }}
+          />
+        </div>
+      )}
+
+      {/* One-click trading */}
+      {isConnected && !agent && (
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isApprovingAgent}
+          onClick={enableOneClickTrading}
+          className="mt-2 w-full gap-2 text-xs"
+        >
+          {isApprovingAgent ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Zap className="h-3 w-3" />
+          )}
+          Enable one-click trading
+        </Button>
+      )}
+
       {/* Real-time data indicator */}
       <div className="mt-3 flex items-center justify-center gap-2 text-xs text-muted-foreground">
         <div className="h-2 w-2 rounded-full bg-success"></div>
@@ -0,0 +1,252 @@
+import { useRef, useState } from "react";
+import { Download, Play, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAdvancedOrders } from "@/contexts/AdvancedTradingContext";
+import type { OrderTemplate } from "@/hooks/useAdvancedTrading";
+
+interface TemplateForm {
+  name: string;
+  asset: string;
+  side: "long" | "short";
+  orderType: "market" | "limit";
+  size: string;
+  price: string;
+  stopLoss: string;
+  takeProfit: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: "",
+  asset: "",
+  side: "long",
+  orderType: "market",
+  size: "",
+  price: "",
+  stopLoss: "",
+  takeProfit: ""
+};
+
+const parsePositive = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+// Build a template from the form; TP/SL legs are market triggers
+const toTemplate = (form: TemplateForm): Omit<OrderTemplate, "id" | "createdAt"> => {
+  const stopLoss = parsePositive(form.stopLoss);
+  const takeProfit = parsePositive(form.takeProfit);
+
+  return {
+    name: form.name.trim(),
+    asset: form.asset.trim().toUpperCase(),
+    side: form.side,
+    orderType: form.orderType,
+    size: parsePositive(form.size),
+    price: form.orderType === "limit" ? parsePositive(form.price) : undefined,
+    stopLoss: stopLoss ? { triggerPrice: stopLoss, orderType: "market" } : undefined,
+    takeProfit: takeProfit ? { triggerPrice: takeProfit, orderType: "market" } : undefined,
+    riskManagement: { maxLoss: 0, maxLossType: "absolute", positionSizeType: "fixed" }
+  };
+};
+
+const describeTemplate = (template: OrderTemplate) => [
+  template.side === "long" ? "Buy" : "Sell",
+  template.size,
+  template.asset,
+  template.price ? `@ $${template.price}` : "at market",
+  template.takeProfit && `TP $${template.takeProfit.triggerPrice}`,
+  template.stopLoss && `SL $${template.stopLoss.triggerPrice}`
+].filter(Boolean).join(" ");
+
+// Saved order templates: save from a form, place, delete, and share as JSON
+export const OrderTemplatesPanel = () => {
+  const {
+    orderTemplates,
+    isExecuting,
+    saveOrderTemplate,
+    deleteOrderTemplate,
+    exportOrderTemplates,
+    importOrderTemplates,
+    executeFromTemplate
+  } = useAdvancedOrders();
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<TemplateForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const isValid = form.name.trim() !== "" &&
+    form.asset.trim() !== "" &&
+    parsePositive(form.size) !== undefined &&
+    (form.orderType === "market" || parsePositive(form.price) !== undefined);
+
+  const handleSave = () => {
+    saveOrderTemplate(toTemplate(form));
+    setForm(EMPTY_FORM);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    await importOrderTemplates(file);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  return (
+    <div className="grid gap-4 p-4 lg:grid-cols-[320px_1fr]">
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">Name</Label>
+            <Input value={form.name} onChange={(e) => update({ name: e.target.value })} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Market</Label>
+            <Input
+              placeholder="BTC"
+              value={form.asset}
+              onChange={(e) => update({ asset: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Side</Label>
+            <Select value={form.side} onValueChange={(side) => update({ side: side as TemplateForm["side"] })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="long">Long</SelectItem>
+                <SelectItem value="short">Short</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select
+              value={form.orderType}
+              onValueChange={(orderType) => update({ orderType: orderType as TemplateForm["orderType"] })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="market">Market</SelectItem>
+                <SelectItem value="limit">Limit</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Size</Label>
+            <Input
+              type="number"
+              value={form.size}
+              onChange={(e) => update({ size: e.target.value })}
+              className="h-8 font-mono-numeric"
+            />
+          </div>
+          {form.orderType === "limit" && (
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs">Limit price</Label>
+              <Input
+                type="number"
+                value={form.price}
+                onChange={(e) => update({ price: e.target.value })}
+                className="h-8 font-mono-numeric"
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">Take profit</Label>
+            <Input
+              type="number"
+              placeholder="Off"
+              value={form.takeProfit}
+              onChange={(e) => update({ takeProfit: e.target.value })}
+              className="h-8 font-mono-numeric"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Stop loss</Label>
+            <Input
+              type="number"
+              placeholder="Off"
+              value={form.stopLoss}
+              onChange={(e) => update({ stopLoss: e.target.value })}
+              className="h-8 font-mono-numeric"
+            />
+          </div>
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={!isValid}>
+          Save template
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+          <Button size="sm" variant="outline" className="gap-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-3.5 w-3.5" />
+            Import
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1"
+            onClick={exportOrderTemplates}
+            disabled={orderTemplates.length === 0}
+          >
+            <Download className="h-3.5 w-3.5" />
+            Export
+          </Button>
+        </div>
+
+        {orderTemplates.length === 0 ? (
+          <div className="flex h-24 items-center justify-center text-sm text-muted-foreground">
+            No saved templates
+          </div>
+        ) : (
+          orderTemplates.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center justify-between rounded-lg bg-muted/50 px-3 py-2 text-xs"
+            >
+              <span>
+                <span className="font-medium">{template.name}</span>{" "}
+                <span className="font-mono-numeric text-muted-foreground">{describeTemplate(template)}</span>
+              </span>
+              <span className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={() => executeFromTemplate(template.id)}
+                  disabled={isExecuting}
+                  aria-label="Place order from template"
+                >
+                  <Play className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteOrderTemplate(template.id)}
+                  aria-label="Delete template"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
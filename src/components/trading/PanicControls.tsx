@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { Loader2, OctagonX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOrderExecution, type BulkActionResult } from "@/hooks/useOrderExecution";
+
+type BulkMode = "cancel" | "close" | "panic";
+
+interface PanicControlsProps {
+  coins: string[];          // Coins with open orders or positions, for per-coin actions
+  orderCount: number;
+  positionCount: number;
+  onComplete: () => void;
+}
+
+const MODE_COPY: Record<BulkMode, { title: string; description: string; confirm: string }> = {
+  cancel: {
+    title: "Cancel all orders",
+    description: "Cancels every open order, including TP/SL triggers.",
+    confirm: "Cancel orders"
+  },
+  close: {
+    title: "Close all positions",
+    description: "Closes positions with reduce-only market (IOC) orders. Thin books may only fill partly.",
+    confirm: "Close positions"
+  },
+  panic: {
+    title: "Panic: cancel and close everything",
+    description: "Cancels every open order, then closes every position with reduce-only market (IOC) orders.",
+    confirm: "Cancel and close all"
+  }
+};
+
+const isPanicShortcut = (event: KeyboardEvent) =>
+  (event.metaKey || event.ctrlKey) && event.shiftKey && event.key.toLowerCase() === "x";
+
+// Bulk cancel/close buttons and the panic dialog (Ctrl/Cmd+Shift+X), with a
+// per-order and per-position report once the actions complete
+export const PanicControls = ({ coins, orderCount, positionCount, onComplete }: PanicControlsProps) => {
+  const [mode, setMode] = useState<BulkMode | null>(null);
+  const [coin, setCoin] = useState("all");
+  const [report, setReport] = useState<BulkActionResult[] | null>(null);
+  const { cancelAllOrders, closeAllPositions, panicCloseAll, isExecuting } = useOrderExecution();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isPanicShortcut(event)) return;
+      event.preventDefault();
+      setMode("panic");
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const open = (next: BulkMode) => {
+    setCoin("all");
+    setReport(null);
+    setMode(next);
+  };
+
+  const close = () => {
+    if (isExecuting) return;
+    setMode(null);
+    setReport(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!mode) return;
+
+    const target = coin === "all" ? undefined : coin;
+    const results = mode === "cancel"
+      ? await cancelAllOrders(target)
+      : mode === "close"
+        ? await closeAllPositions(target)
+        : await panicCloseAll();
+
+    setReport(results);
+    onComplete();
+  };
+
+  const copy = mode ? MODE_COPY[mode] : null;
+  const failedCount = report?.filter(({ result }) => !result.success).length ?? 0;
+
+  return (
+    <>
+      <div className="ml-auto flex items-center gap-2 px-2">
+        <Button size="sm" variant="outline" onClick={() => open("cancel")} disabled={orderCount === 0}>
+          Cancel all
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => open("close")} disabled={positionCount === 0}>
+          Close all
+        </Button>
+        <Button size="sm" variant="destructive" className="gap-1" onClick={() => open("panic")} title="Ctrl/Cmd+Shift+X">
+          <OctagonX className="h-4 w-4" />
+          Panic
+        </Button>
+      </div>
+
+      <Dialog open={mode !== null} onOpenChange={(isOpen) => !isOpen && close()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{copy?.title}</DialogTitle>
+            <DialogDescription>
+              {report
+                ? `${report.length - failedCount} of ${report.length} succeeded`
+                : copy?.description}
+            </DialogDescription>
+          </DialogHeader>
+
+          {report ? (
+            report.length > 0 ? (
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b border-border text-left text-muted-foreground">
+                    <tr>
+                      <th className="py-2 font-medium">Market</th>
+                      <th className="py-2 font-medium">Action</th>
+                      <th className="py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.map((entry, index) => (
+                      <tr key={index} className="border-b border-border">
+                        <td className="py-2 font-medium">{entry.asset}</td>
+                        <td className="py-2 font-mono-numeric text-xs">{entry.detail}</td>
+                        <td
+                          className="py-2 text-xs"
+                          style={{ color: `hsl(var(--${entry.result.success ? "success" : "destructive"}))` }}
+                        >
+                          {entry.result.success
+                            ? entry.result.status === "filled" ? "Filled" : "Done"
+                            : entry.result.error}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to cancel or close.</p>
+            )
+          ) : (
+            <div className="space-y-3 text-sm">
+              <div className="rounded-lg bg-muted/50 p-3 font-mono-numeric text-xs">
+                {orderCount} open order{orderCount === 1 ? "" : "s"} · {positionCount} position{positionCount === 1 ? "" : "s"}
+              </div>
+              {mode !== "panic" && coins.length > 0 && (
+                <div className="flex items-center justify-between gap-3">
+                  <Label>Market</Label>
+                  <Select value={coin} onValueChange={setCoin}>
+                    <SelectTrigger className="h-8 w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All markets</SelectItem>
+                      {coins.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {report ? (
+              <Button onClick={close}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={close} disabled={isExecuting}>
+                  Back
+                </Button>
+                <Button variant="destructive" onClick={handleConfirm} disabled={isExecuting}>
+                  {isExecuting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {copy?.confirm}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
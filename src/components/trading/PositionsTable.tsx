@@ -5,7 +5,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { hyperliquidAPI } from "@/lib/hyperliquid";
+import { AssetRegistry } from "@/lib/assetRegistry";
+import { getFillFeeRate, getFillNetPnl } from "@/lib/fees";
+import { useWallet } from "@/contexts/WalletContext";
+import { useTrackedOrders } from "@/hooks/useOrderLifecycle";
 import type { Position, OpenOrder, Fill } from "@/types/hyperliquid";
+import { AdvancedOrdersPanel } from "./AdvancedOrdersPanel";
+import { IsolatedMarginDialog } from "./IsolatedMarginDialog";
+import { OrderActivityList } from "./OrderActivityList";
+import { OrderTemplatesPanel } from "./OrderTemplatesPanel";
+import { PanicControls } from "./PanicControls";
 
 export const PositionsTable = () => {
   const [positions, setPositions] = useState<Position[]>([]);
@@ -13,13 +22,10 @@ export const PositionsTable = () => {
   const [fills, setFills] = useState<Fill[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [userAddress, setUserAddress] = useState<string | null>(null);
-
-  // Mock user address for testing - in real app this would come from wallet connection
-  useEffect(() => {
-    // You can set a test address here for testing, or get from wallet context
-    // setUserAddress("0x...");
-  }, []);
+  const [marginPosition, setMarginPosition] = useState<Position | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const { address: userAddress, refreshUserData } = useWallet();
+  const trackedOrders = useTrackedOrders();
 
   useEffect(() => {
     if (!userAddress) {
@@ -67,7 +73,7 @@ export const PositionsTable = () => {
         clearInterval(intervalId);
       }
     };
-  }, [userAddress]);
+  }, [userAddress, refreshKey]);
 
   const formatOrderSide = (side: "A" | "B") => side === "A" ? "SELL" : "BUY";
   const formatOrderType = (order: OpenOrder) => {
@@ -76,6 +82,18 @@ export const PositionsTable = () => {
     return "Market";
   };
 
+  // Markets with something to cancel or close
+  const activeCoins = Array.from(new Set([
+    ...positions.map((position) => AssetRegistry.toCoin(position.pair)),
+    ...openOrders.map((order) => order.coin)
+  ]));
+
+  // Reload after margin or bulk actions instead of waiting for the next poll
+  const reloadData = () => {
+    setRefreshKey(key => key + 1);
+    refreshUserData();
+  };
+
   if (!userAddress) {
     return (
       <Card className="border-border bg-card">
@@ -108,12 +126,27 @@ export const PositionsTable = () => {
           <TabsTrigger value="orders" className="rounded-none">
             Open Orders ({openOrders.length})
           </TabsTrigger>
+          <TabsTrigger value="activity" className="rounded-none">
+            Order Activity ({trackedOrders.length})
+          </TabsTrigger>
+          <TabsTrigger value="advanced" className="rounded-none">
+            Advanced Orders
+          </TabsTrigger>
+          <TabsTrigger value="templates" className="rounded-none">
+            Templates
+          </TabsTrigger>
           <TabsTrigger value="trades" className="rounded-none">
             Trade History ({fills.length})
           </TabsTrigger>
           <TabsTrigger value="funding" className="rounded-none">
             Funding History
           </TabsTrigger>
+          <PanicControls
+            coins={activeCoins}
+            orderCount={openOrders.length}
+            positionCount={positions.length}
+            onComplete={reloadData}
+          />
         </TabsList>
 
         <TabsContent value="positions" className="m-0 p-0">
@@ -153,6 +186,9 @@ export const PositionsTable = () => {
                         >
                           {position.side.toUpperCase()} {position.leverage}x
                         </span>
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          {position.marginMode === "isolated" ? "Isolated" : "Cross"}
+                        </div>
                       </td>
                       <td className="p-3 font-mono-numeric">${position.size.toLocaleString()}</td>
                       <td className="p-3 font-mono-numeric">${position.entryPrice.toLocaleString()}</td>
@@ -185,6 +221,11 @@ export const PositionsTable = () => {
                           <Button size="sm" variant="outline">
                             Edit
                           </Button>
+                          {position.marginMode === "isolated" && (
+                            <Button size="sm" variant="outline" onClick={() => setMarginPosition(position)}>
+                              Margin
+                            </Button>
+                          )}
                           <Button size="sm" variant="destructive">
                             Close
                           </Button>
@@ -260,6 +301,18 @@ export const PositionsTable = () => {
           )}
         </TabsContent>
 
+        <TabsContent value="activity" className="m-0 p-0">
+          <OrderActivityList orders={trackedOrders} />
+        </TabsContent>
+
+        <TabsContent value="advanced" className="m-0 p-0">
+          <AdvancedOrdersPanel />
+        </TabsContent>
+
+        <TabsContent value="templates" className="m-0 p-0">
+          <OrderTemplatesPanel />
+        </TabsContent>
+
         <TabsContent value="trades" className="m-0 p-0">
           {fills.length > 0 ? (
             <div className="overflow-x-auto">
@@ -271,7 +324,7 @@ export const PositionsTable = () => {
                     <th className="p-3 font-medium">Size</th>
                     <th className="p-3 font-medium">Price</th>
                     <th className="p-3 font-medium">Fee</th>
-                    <th className="p-3 font-medium">PnL</th>
+                    <th className="p-3 font-medium">Net PnL</th>
                     <th className="p-3 font-medium">Time</th>
                   </tr>
                 </thead>
@@ -291,15 +344,20 @@ export const PositionsTable = () => {
                       </td>
                       <td className="p-3 font-mono-numeric">{fill.sz}</td>
                       <td className="p-3 font-mono-numeric">${parseFloat(fill.px).toLocaleString()}</td>
-                      <td className="p-3 font-mono-numeric">${fill.fee}</td>
+                      <td className="p-3 font-mono-numeric">
+                        <div>${fill.fee}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {fill.crossed ? "Taker" : "Maker"} {(getFillFeeRate(fill) * 100).toFixed(4)}%
+                        </div>
+                      </td>
                       <td className="p-3">
                         <span
                           className={cn(
                             "font-mono-numeric",
-                            parseFloat(fill.closedPnl) >= 0 ? "text-success" : "text-danger"
+                            getFillNetPnl(fill) >= 0 ? "text-success" : "text-danger"
                           )}
                         >
-                          {parseFloat(fill.closedPnl) >= 0 ? "+" : ""}${fill.closedPnl}
+                          {getFillNetPnl(fill) >= 0 ? "+" : "-"}${Math.abs(getFillNetPnl(fill)).toFixed(2)}
                         </span>
                       </td>
                       <td className="p-3 text-xs text-muted-foreground">
@@ -323,6 +381,12 @@ export const PositionsTable = () => {
           </div>
         </TabsContent>
       </Tabs>
+
+      <IsolatedMarginDialog
+        position={marginPosition}
+        onClose={() => setMarginPosition(null)}
+        onUpdated={reloadData}
+      />
     </Card>
   );
 };
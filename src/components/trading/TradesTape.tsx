@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VirtualList } from "@/components/VirtualScrolling";
+import { cn } from "@/lib/utils";
+import { formatHyperliquidVolume } from "@/lib/hyperliquid";
+import { getVolumeDelta, MAX_DELTA_WINDOW_MS, type TapeTrade, type TradeSide } from "@/lib/trades";
+import { useTradeTape } from "@/hooks/useTradeTape";
+import { usePersistentState } from "@/hooks/usePersistentState";
+import { useElementSize } from "@/hooks/usePerformance";
+
+interface TradeTapeSettings {
+  minNotional: number;     // Hide prints below this notional (USD)
+  whaleNotional: number;   // Highlight prints at or above this notional (USD)
+  whaleSound: boolean;
+  deltaWindow: number;     // Volume delta lookback (ms)
+}
+
+const DEFAULT_SETTINGS: TradeTapeSettings = {
+  minNotional: 0,
+  whaleNotional: 100_000,
+  whaleSound: false,
+  deltaWindow: 60_000
+};
+
+const DELTA_WINDOWS = [
+  { value: 60_000, label: "1m" },
+  { value: 5 * 60_000, label: "5m" },
+  { value: MAX_DELTA_WINDOW_MS, label: "15m" }
+];
+
+const ROW_HEIGHT = 22;
+
+// Theme colors are applied inline; the success color has no Tailwind utility
+const SIDE_COLORS: Record<TradeSide, string> = {
+  buy: "hsl(var(--success))",
+  sell: "hsl(var(--destructive))"
+};
+
+let audioContext: AudioContext | null = null;
+
+// Short tone for a whale print: higher for buys, lower for sells
+const playWhaleAlert = (side: TradeSide) => {
+  try {
+    audioContext ??= new AudioContext();
+    const now = audioContext.currentTime;
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.frequency.value = side === "buy" ? 880 : 440;
+    gain.gain.setValueAtTime(0.1, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.25);
+
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(now);
+    oscillator.stop(now + 0.25);
+  } catch (error) {
+    console.warn("Unable to play trade alert:", error);
+  }
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour12: false });
+
+interface TradesTapeProps {
+  coin?: string;
+  className?: string;
+}
+
+// Time-and-sales for a coin: taker prints colored by side, with a minimum
+// notional filter, whale highlighting and a rolling buy/sell volume delta
+export const TradesTape = ({ coin = "BTC", className }: TradesTapeProps) => {
+  const { trades, volume, isConnected } = useTradeTape(coin);
+  const [storedSettings, setSettings] = usePersistentState<Partial<TradeTapeSettings>>("tradeTape", DEFAULT_SETTINGS);
+  const settings = useMemo(() => ({ ...DEFAULT_SETTINGS, ...storedSettings }), [storedSettings]);
+  const { ref: listRef, height } = useElementSize<HTMLDivElement>();
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the rolling delta moving when no trades arrive
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const visibleTrades = useMemo(
+    () => settings.minNotional > 0 ? trades.filter(trade => trade.notional >= settings.minNotional) : trades,
+    [trades, settings.minNotional]
+  );
+
+  const delta = useMemo(
+    () => getVolumeDelta(volume, settings.deltaWindow, now),
+    [volume, settings.deltaWindow, now]
+  );
+
+  // Alert once per whale print, ignoring the snapshot sent on subscribe
+  const alertAfterRef = useRef(Date.now());
+  const alertedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    alertAfterRef.current = Date.now();
+    alertedRef.current = new Set();
+  }, [coin]);
+
+  useEffect(() => {
+    if (!settings.whaleSound) return;
+
+    let alertSide: TradeSide | null = null;
+    for (const trade of trades) {
+      if (trade.time < alertAfterRef.current) break;
+      if (trade.notional < settings.whaleNotional || alertedRef.current.has(trade.id)) continue;
+
+      alertedRef.current.add(trade.id);
+      alertSide ??= trade.side;
+    }
+
+    if (alertSide) playWhaleAlert(alertSide);
+  }, [trades, settings.whaleSound, settings.whaleNotional]);
+
+  const updateSettings = (changes: Partial<TradeTapeSettings>) =>
+    setSettings(prev => ({ ...prev, ...changes }));
+
+  const renderTrade = (trade: TapeTrade) => {
+    const isWhale = trade.notional >= settings.whaleNotional;
+    return (
+      <div
+        className={cn(
+          "grid h-full grid-cols-[1fr_1fr_1fr_auto] items-center gap-2 px-3 font-mono text-xs",
+          isWhale && "font-semibold"
+        )}
+        style={{
+          color: SIDE_COLORS[trade.side],
+          backgroundColor: isWhale ? `hsl(var(--${trade.side === "buy" ? "success" : "destructive"}) / 0.15)` : undefined
+        }}
+      >
+        <span>{trade.price.toLocaleString(undefined, { maximumFractionDigits: 6 })}</span>
+        <span className="text-right">{trade.size.toLocaleString(undefined, { maximumFractionDigits: 4 })}</span>
+        <span className="text-right">{formatHyperliquidVolume(trade.notional.toString())}</span>
+        <span className="w-20 text-right text-muted-foreground">
+          {trade.fills > 1 && <span className="mr-1">×{trade.fills}</span>}
+          {formatTime(trade.time)}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <Card className={cn("flex h-full flex-col border-border bg-card", className)}>
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Trades</span>
+          <span className="text-xs text-muted-foreground">{coin}</span>
+          <div className={cn("h-2 w-2 rounded-full", isConnected ? "bg-success" : "bg-muted-foreground")} />
+        </div>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="text-muted-foreground hover:text-foreground" aria-label="Trade tape settings">
+              <Settings2 className="h-4 w-4" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-60 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="tape-min-notional" className="text-xs">Minimum notional (USD)</Label>
+              <Input
+                id="tape-min-notional"
+                type="number"
+                min={0}
+                className="h-8"
+                value={settings.minNotional}
+                onChange={(e) => updateSettings({ minNotional: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tape-whale-notional" className="text-xs">Whale threshold (USD)</Label>
+              <Input
+                id="tape-whale-notional"
+                type="number"
+                min={0}
+                className="h-8"
+                value={settings.whaleNotional}
+                onChange={(e) => updateSettings({ whaleNotional: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="tape-whale-sound" className="text-xs">Sound on whale trades</Label>
+              <Switch
+                id="tape-whale-sound"
+                checked={settings.whaleSound}
+                onCheckedChange={(whaleSound) => updateSettings({ whaleSound })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Delta window</Label>
+              <Select
+                value={settings.deltaWindow.toString()}
+                onValueChange={(value) => updateSettings({ deltaWindow: parseInt(value, 10) })}
+              >
+                <SelectTrigger className="h-8 w-20 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELTA_WINDOWS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value.toString()} className="text-xs">
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {/* Rolling buy/sell volume delta */}
+      <div className="space-y-1 border-b border-border px-3 py-2">
+        <div className="flex justify-between font-mono text-xs">
+          <span style={{ color: SIDE_COLORS.buy }}>{formatHyperliquidVolume(delta.buyNotional.toString())}</span>
+          <span
+            className="text-muted-foreground"
+            title={delta.isPartial ? "Covers the time since the tape opened" : undefined}
+          >
+            Δ {delta.delta < 0 ? "-" : "+"}{formatHyperliquidVolume(Math.abs(delta.delta).toString())}
+            {delta.isPartial && "*"}
+          </span>
+          <span style={{ color: SIDE_COLORS.sell }}>{formatHyperliquidVolume(delta.sellNotional.toString())}</span>
+        </div>
+        <div className="flex h-1.5 overflow-hidden rounded-full" style={{ backgroundColor: SIDE_COLORS.sell }}>
+          <div
+            className="h-full transition-all duration-300"
+            style={{ width: `${delta.buyShare * 100}%`, backgroundColor: SIDE_COLORS.buy }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 px-3 py-1 text-xs text-muted-foreground">
+        <span>Price</span>
+        <span className="text-right">Size</span>
+        <span className="text-right">Value</span>
+        <span className="w-20 text-right">Time</span>
+      </div>
+
+      <div ref={listRef} className="min-h-0 flex-1">
+        {visibleTrades.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            {trades.length === 0 ? "Waiting for trades..." : "No trades above the minimum size"}
+          </div>
+        ) : (
+          height > 0 && (
+            <VirtualList
+              items={visibleTrades}
+              itemHeight={ROW_HEIGHT}
+              height={height}
+              renderItem={renderTrade}
+              getItemKey={(trade) => trade.id}
+            />
+          )
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -1,11 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, Clock, Loader2, AlertCircle, BarChart3, Activity } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { hyperliquidAPI } from "@/lib/hyperliquid";
-import { TradingViewChart } from "./TradingViewChart";
+import { useWallet } from "@/contexts/WalletContext";
+import { useOrderExecution, repriceOpenOrder } from "@/hooks/useOrderExecution";
+import type { OpenOrder, Position } from "@/types/hyperliquid";
+import { CandlestickChart } from "./CandlestickChart";
+import { ChartOrderOverlay, type ChartPosition } from "./ChartOrderOverlay";
+import { ChartTradeMenu } from "./ChartTradeMenu";
 
 interface MarketData {
   symbol: string;
@@ -23,12 +28,48 @@ interface MarketData {
   spread: number;
 }
 
-export const TradingChart = () => {
+interface TradingChartProps {
+  coin?: string;
+  // Hide the market summary above the chart (e.g. in a grid of charts)
+  compact?: boolean;
+  // Chart height in pixels, or "fill" to fill a sized parent
+  height?: number | "fill";
+}
+
+export const TradingChart = ({ coin = "BTC", compact = false, height = 600 }: TradingChartProps) => {
   const [marketData, setMarketData] = useState<MarketData | null>(null);
-  const [selectedAsset, setSelectedAsset] = useState("BTC");
+  const selectedAsset = coin;
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [chartType, setChartType] = useState<"advanced" | "simple">("advanced");
+  const [chartType, setChartType] = useState<"candles" | "line">("candles");
+  const [menuPrice, setMenuPrice] = useState<number | null>(null);
+
+  const { userOrders, userPositions, clearinghouseState, refreshUserData } = useWallet();
+  const { modifyOrder, cancelOrders } = useOrderExecution();
+
+  const orders = useMemo(
+    () => (userOrders as OpenOrder[]).filter(order => order.coin === selectedAsset),
+    [userOrders, selectedAsset]
+  );
+  // Position sizes in coins by market; the UI positions only carry the USD notional
+  const positionSizes = useMemo(
+    () => new Map((clearinghouseState?.assetPositions ?? []).map(({ position }) =>
+      [position.coin, Math.abs(parseFloat(position.szi))]
+    )),
+    [clearinghouseState]
+  );
+  const positions = useMemo<ChartPosition[]>(
+    () => (userPositions as Position[])
+      .filter(position => position.pair === `${selectedAsset}/USD`)
+      .map(position => ({ ...position, coinSize: positionSizes.get(selectedAsset) ?? 0 })),
+    [userPositions, positionSizes, selectedAsset]
+  );
+
+  // Keep orders and the position entry in view even when away from the candles
+  const extraPrices = useMemo(() => [
+    ...orders.map(order => parseFloat(order.isTrigger && order.triggerPx ? order.triggerPx : order.limitPx)),
+    ...positions.map(position => position.entryPrice)
+  ], [orders, positions]);
 
   useEffect(() => {
     let isMounted = true;
@@ -66,6 +107,19 @@ export const TradingChart = () => {
     };
   }, [selectedAsset]);
 
+  const handleModifyOrder = async (order: OpenOrder, price: number) => {
+    // Position TP/SL orders rest with size 0 and close the whole position
+    const size = parseFloat(order.sz) || positionSizes.get(order.coin);
+    const result = await modifyOrder(order.oid, repriceOpenOrder(order, price, size));
+    if (result.success) await refreshUserData();
+    return result.success;
+  };
+
+  const handleCancelOrder = async (order: OpenOrder) => {
+    const [result] = await cancelOrders([{ asset: order.coin, oid: order.oid }]);
+    if (result?.success) await refreshUserData();
+  };
+
   // Calculate next funding time (every 8 hours)
   const getNextFundingTime = () => {
     const now = new Date();
@@ -87,7 +141,7 @@ export const TradingChart = () => {
 
   if (loading) {
     return (
-      <Card className="flex h-[500px] flex-col border-border bg-card">
+      <Card className={cn("flex flex-col border-border bg-card", height === "fill" ? "h-full" : "h-[500px]")}>
         <div className="flex items-center justify-center h-full">
           <div className="text-center">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2 text-primary" />
@@ -100,7 +154,7 @@ export const TradingChart = () => {
 
   if (error || !marketData) {
     return (
-      <Card className="flex h-[500px] flex-col border-border bg-card">
+      <Card className={cn("flex flex-col border-border bg-card", height === "fill" ? "h-full" : "h-[500px]")}>
         <div className="flex items-center justify-center h-full">
           <div className="text-center">
             <AlertCircle className="h-8 w-8 mx-auto mb-2 text-destructive" />
@@ -113,170 +167,171 @@ export const TradingChart = () => {
   }
 
   return (
-    <div className="space-y-4">
+    <div className={height === "fill" ? "flex h-full flex-col gap-4" : "space-y-4"}>
       {/* Market Data Summary Card */}
-      <Card className="border-border bg-card">
-        {/* Chart Header */}
-        <div className="flex items-center justify-between border-b border-border p-4">
-          <div className="flex items-center gap-6">
-            <div>
-              <div className="text-sm text-muted-foreground">{marketData.symbol}</div>
-              <div className="flex items-baseline gap-2">
-                <span className="text-2xl font-bold font-mono-numeric">
-                  ${marketData.price.toLocaleString(undefined, { 
+      {!compact && (
+        <Card className="border-border bg-card">
+          {/* Chart Header */}
+          <div className="flex items-center justify-between border-b border-border p-4">
+            <div className="flex items-center gap-6">
+              <div>
+                <div className="text-sm text-muted-foreground">{marketData.symbol}</div>
+                <div className="flex items-baseline gap-2">
+                  <span className="text-2xl font-bold font-mono-numeric">
+                    ${marketData.price.toLocaleString(undefined, { 
+                      minimumFractionDigits: 2, 
+                      maximumFractionDigits: marketData.price < 1 ? 6 : 2 
+                    })}
+                  </span>
+                  <span className={`flex items-center gap-1 text-sm ${
+                    marketData.change24h >= 0 ? 'text-success' : 'text-danger'
+                  }`}>
+                    <TrendingUp className={`h-4 w-4 ${
+                      marketData.change24h < 0 ? 'rotate-180' : ''
+                    }`} />
+                    {marketData.change24h >= 0 ? '+' : ''}{marketData.change24hPercent.toFixed(2)}%
+                  </span>
+                </div>
+              </div>
+              <div className="h-8 w-px bg-border" />
+              <div>
+                <div className="text-sm text-muted-foreground">Mark Price</div>
+                <div className="font-mono-numeric text-lg">
+                  ${marketData.markPrice.toLocaleString(undefined, { 
                     minimumFractionDigits: 2, 
-                    maximumFractionDigits: marketData.price < 1 ? 6 : 2 
+                    maximumFractionDigits: marketData.markPrice < 1 ? 6 : 2 
                   })}
-                </span>
-                <span className={`flex items-center gap-1 text-sm ${
-                  marketData.change24h >= 0 ? 'text-success' : 'text-danger'
-                }`}>
-                  <TrendingUp className={`h-4 w-4 ${
-                    marketData.change24h < 0 ? 'rotate-180' : ''
-                  }`} />
-                  {marketData.change24h >= 0 ? '+' : ''}{marketData.change24hPercent.toFixed(2)}%
-                </span>
+                </div>
               </div>
-            </div>
-            <div className="h-8 w-px bg-border" />
-            <div>
-              <div className="text-sm text-muted-foreground">Mark Price</div>
-              <div className="font-mono-numeric text-lg">
-                ${marketData.markPrice.toLocaleString(undefined, { 
-                  minimumFractionDigits: 2, 
-                  maximumFractionDigits: marketData.markPrice < 1 ? 6 : 2 
-                })}
+              <div className="h-8 w-px bg-border" />
+              <div>
+                <div className="text-sm text-muted-foreground">Oracle Price</div>
+                <div className="font-mono-numeric text-lg">
+                  ${marketData.oraclePrice.toLocaleString(undefined, { 
+                    minimumFractionDigits: 2, 
+                    maximumFractionDigits: marketData.oraclePrice < 1 ? 6 : 2 
+                  })}
+                </div>
               </div>
-            </div>
-            <div className="h-8 w-px bg-border" />
-            <div>
-              <div className="text-sm text-muted-foreground">Oracle Price</div>
-              <div className="font-mono-numeric text-lg">
-                ${marketData.oraclePrice.toLocaleString(undefined, { 
-                  minimumFractionDigits: 2, 
-                  maximumFractionDigits: marketData.oraclePrice < 1 ? 6 : 2 
-                })}
+              <div className="h-8 w-px bg-border" />
+              <div>
+                <div className="text-sm text-muted-foreground">Funding Rate</div>
+                <div className="flex items-center gap-2">
+                  <span className={`font-mono-numeric text-lg ${
+                    marketData.fundingRate >= 0 ? 'text-success' : 'text-danger'
+                  }`}>
+                    {marketData.fundingRate >= 0 ? '+' : ''}{(marketData.fundingRate * 100).toFixed(4)}%
+                  </span>
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">in {getNextFundingTime()}</span>
+                </div>
               </div>
             </div>
-            <div className="h-8 w-px bg-border" />
-            <div>
-              <div className="text-sm text-muted-foreground">Funding Rate</div>
-              <div className="flex items-center gap-2">
-                <span className={`font-mono-numeric text-lg ${
-                  marketData.fundingRate >= 0 ? 'text-success' : 'text-danger'
-                }`}>
-                  {marketData.fundingRate >= 0 ? '+' : ''}{(marketData.fundingRate * 100).toFixed(4)}%
-                </span>
-                <Clock className="h-4 w-4 text-muted-foreground" />
-                <span className="text-sm text-muted-foreground">in {getNextFundingTime()}</span>
-              </div>
-            </div>
-          </div>
-
-          {/* Chart Type Toggle */}
-          <div className="flex items-center gap-2">
-            <Button
-              size="sm"
-              variant={chartType === "advanced" ? "default" : "outline"}
-              onClick={() => setChartType("advanced")}
-              className="gap-2"
-            >
-              <BarChart3 className="h-4 w-4" />
-              Advanced
-            </Button>
-            <Button
-              size="sm"
-              variant={chartType === "simple" ? "default" : "outline"}
-              onClick={() => setChartType("simple")}
-              className="gap-2"
-            >
-              <Activity className="h-4 w-4" />
-              Simple
-            </Button>
-          </div>
-        </div>
 
-        {/* Market Stats Row */}
-        <div className="flex items-center justify-between border-b border-border p-3 text-sm">
-          <div className="flex items-center gap-6">
-            <div>
-              <span className="text-muted-foreground">24h Volume: </span>
-              <span className="font-mono-numeric">
-                ${parseFloat(marketData.volume24h).toLocaleString(undefined, { 
-                  minimumFractionDigits: 0, 
-                  maximumFractionDigits: 0 
-                })}
-              </span>
-            </div>
-            <div>
-              <span className="text-muted-foreground">Open Interest: </span>
-              <span className="font-mono-numeric">
-                ${parseFloat(marketData.openInterest).toLocaleString(undefined, { 
-                  minimumFractionDigits: 0, 
-                  maximumFractionDigits: 0 
-                })}
-              </span>
-            </div>
-            <div>
-              <span className="text-muted-foreground">Bid: </span>
-              <span className="font-mono-numeric text-success">
-                ${parseFloat(marketData.bid).toLocaleString(undefined, { 
-                  minimumFractionDigits: 2, 
-                  maximumFractionDigits: 6 
-                })}
-              </span>
-            </div>
-            <div>
-              <span className="text-muted-foreground">Ask: </span>
-              <span className="font-mono-numeric text-danger">
-                ${parseFloat(marketData.ask).toLocaleString(undefined, { 
-                  minimumFractionDigits: 2, 
-                  maximumFractionDigits: 6 
-                })}
-              </span>
-            </div>
-            <div>
-              <span className="text-muted-foreground">Spread: </span>
-              <span className="font-mono-numeric">
-                ${marketData.spread.toFixed(2)}
-              </span>
+            {/* Chart Type Toggle */}
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant={chartType === "candles" ? "default" : "outline"}
+                onClick={() => setChartType("candles")}
+                className="gap-2"
+              >
+                <BarChart3 className="h-4 w-4" />
+                Candles
+              </Button>
+              <Button
+                size="sm"
+                variant={chartType === "line" ? "default" : "outline"}
+                onClick={() => setChartType("line")}
+                className="gap-2"
+              >
+                <Activity className="h-4 w-4" />
+                Line
+              </Button>
             </div>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="h-2 w-2 rounded-full bg-success"></div>
-            <span className="text-xs text-muted-foreground">Live Data</span>
-          </div>
-        </div>
-      </Card>
 
-      {/* Chart Component */}
-      {chartType === "advanced" ? (
-        <TradingViewChart
-          symbol={selectedAsset}
-          height={600}
-          onSymbolChange={(symbol) => setSelectedAsset(symbol.replace('USD', ''))}
-          className="border-border"
-        />
-      ) : (
-        <Card className="border-border bg-card p-6">
-          <div className="flex items-center justify-center h-[600px]">
-            <div className="text-center">
-              <div className="mb-4 text-6xl font-bold font-mono-numeric text-primary/20">
-                📈
+          {/* Market Stats Row */}
+          <div className="flex items-center justify-between border-b border-border p-3 text-sm">
+            <div className="flex items-center gap-6">
+              <div>
+                <span className="text-muted-foreground">24h Volume: </span>
+                <span className="font-mono-numeric">
+                  ${parseFloat(marketData.volume24h).toLocaleString(undefined, { 
+                    minimumFractionDigits: 0, 
+                    maximumFractionDigits: 0 
+                  })}
+                </span>
               </div>
-              <div className="text-muted-foreground text-lg mb-2">
-                Simple Chart View
+              <div>
+                <span className="text-muted-foreground">Open Interest: </span>
+                <span className="font-mono-numeric">
+                  ${parseFloat(marketData.openInterest).toLocaleString(undefined, { 
+                    minimumFractionDigits: 0, 
+                    maximumFractionDigits: 0 
+                  })}
+                </span>
               </div>
-              <div className="text-sm text-muted-foreground mb-4">
-                Basic price visualization for {marketData.symbol}
+              <div>
+                <span className="text-muted-foreground">Bid: </span>
+                <span className="font-mono-numeric text-success">
+                  ${parseFloat(marketData.bid).toLocaleString(undefined, { 
+                    minimumFractionDigits: 2, 
+                    maximumFractionDigits: 6 
+                  })}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Ask: </span>
+                <span className="font-mono-numeric text-danger">
+                  ${parseFloat(marketData.ask).toLocaleString(undefined, { 
+                    minimumFractionDigits: 2, 
+                    maximumFractionDigits: 6 
+                  })}
+                </span>
               </div>
-              <div className="text-xs text-muted-foreground bg-muted/50 rounded p-2 max-w-md">
-                � Simple chart implementation can be added here for lightweight visualization
+              <div>
+                <span className="text-muted-foreground">Spread: </span>
+                <span className="font-mono-numeric">
+                  ${marketData.spread.toFixed(2)}
+                </span>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="h-2 w-2 rounded-full bg-success"></div>
+              <span className="text-xs text-muted-foreground">Live Data</span>
+            </div>
           </div>
         </Card>
       )}
+
+      {/* Chart Component */}
+      <ChartTradeMenu
+        coin={selectedAsset}
+        price={menuPrice}
+        lastPrice={marketData.price}
+        onOrderPlaced={refreshUserData}
+        className={height === "fill" ? "min-h-0 flex-1" : undefined}
+      >
+        <CandlestickChart
+          coin={selectedAsset}
+          height={height}
+          chartStyle={chartType}
+          className="border-border"
+          extraPrices={extraPrices}
+          onPriceContextMenu={setMenuPrice}
+        >
+          {(viewport) => (
+            <ChartOrderOverlay
+              viewport={viewport}
+              orders={orders}
+              positions={positions}
+              onModifyOrder={handleModifyOrder}
+              onCancelOrder={handleCancelOrder}
+            />
+          )}
+        </CandlestickChart>
+      </ChartTradeMenu>
     </div>
   );
 };
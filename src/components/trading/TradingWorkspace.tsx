@@ -0,0 +1,210 @@
+import { Fragment, useEffect, useState } from "react";
+import { LayoutGrid, RotateCcw, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { hyperliquidAPI } from "@/lib/hyperliquid";
+import { LAYOUT_PRESETS, listPanes, type LayoutNode } from "@/lib/workspace";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { WorkspacePane } from "./WorkspacePane";
+
+const FALLBACK_COINS = ["BTC", "ETH", "SOL", "HYPE"];
+const MIN_PANEL_SIZE = 10;
+
+// Dockable multi-pane trading workspace. Panes are arranged in nested
+// resizable splits and the layout can be saved and restored by name.
+export const TradingWorkspace = () => {
+  const {
+    layout,
+    revision,
+    savedLayouts,
+    setSplitSizes,
+    updatePane,
+    addPane,
+    closePane,
+    loadPreset,
+    saveLayout,
+    loadSavedLayout,
+    deleteSavedLayout
+  } = useWorkspace();
+  const [coins, setCoins] = useState<string[]>(FALLBACK_COINS);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [layoutName, setLayoutName] = useState("");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    hyperliquidAPI.getAssetRegistry()
+      .then((registry) => {
+        const listed = registry.list().filter((asset) => !asset.isDelisted).map((asset) => asset.name);
+        if (isMounted && listed.length > 0) setCoins(listed);
+      })
+      .catch((error) => console.error("Failed to load markets for workspace:", error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const canClose = listPanes(layout).length > 1;
+
+  const handleSave = () => {
+    saveLayout(layoutName);
+    setSaveDialogOpen(false);
+  };
+
+  const renderNode = (node: LayoutNode) => {
+    if (node.type === "pane") {
+      return (
+        <WorkspacePane
+          pane={node}
+          coins={coins}
+          canClose={canClose}
+          onChange={(changes) => updatePane(node.id, changes)}
+          onSplit={(direction, kind) => addPane(node.id, direction, kind, node.coin)}
+          onClose={() => closePane(node.id)}
+        />
+      );
+    }
+
+    // Remount groups when their children change so the stored sizes apply
+    const groupKey = `${revision}:${node.id}:${node.children.map((child) => child.id).join(",")}`;
+
+    return (
+      <ResizablePanelGroup
+        key={groupKey}
+        direction={node.direction}
+        onLayout={(sizes) => setSplitSizes(node.id, sizes)}
+      >
+        {node.children.map((child, index) => (
+          <Fragment key={child.id}>
+            {index > 0 && <ResizableHandle withHandle />}
+            <ResizablePanel id={child.id} order={index} defaultSize={node.sizes[index]} minSize={MIN_PANEL_SIZE}>
+              {renderNode(child)}
+            </ResizablePanel>
+          </Fragment>
+        ))}
+      </ResizablePanelGroup>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-2">
+      <div className="flex items-center justify-end gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" className="gap-2">
+              <LayoutGrid className="h-4 w-4" />
+              Layouts
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel>Presets</DropdownMenuLabel>
+            {Object.entries(LAYOUT_PRESETS).map(([key, preset]) => (
+              <DropdownMenuItem key={key} onClick={() => loadPreset(key)}>
+                {preset.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Saved layouts</DropdownMenuLabel>
+            {savedLayouts.length === 0 ? (
+              <DropdownMenuItem disabled>No saved layouts</DropdownMenuItem>
+            ) : (
+              savedLayouts.map((saved) => (
+                <DropdownMenuItem
+                  key={saved.name}
+                  onClick={() => loadSavedLayout(saved.name)}
+                  className="justify-between"
+                >
+                  <span className="truncate">{saved.name}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                    aria-label={`Delete ${saved.name}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteSavedLayout(saved.name);
+                    }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </DropdownMenuItem>
+              ))
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          onClick={() => {
+            setLayoutName("");
+            setSaveDialogOpen(true);
+          }}
+        >
+          <Save className="h-4 w-4" />
+          Save layout
+        </Button>
+
+        <Button size="sm" variant="ghost" className="gap-2" onClick={() => loadPreset("default")}>
+          <RotateCcw className="h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-hidden rounded-lg border border-border">
+        {renderNode(layout)}
+      </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save layout</DialogTitle>
+            <DialogDescription>
+              Saving with the name of an existing layout replaces it.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <Input
+              autoFocus
+              placeholder="Layout name"
+              value={layoutName}
+              onChange={(e) => setLayoutName(e.target.value)}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" onClick={() => setSaveDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!layoutName.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { TwapProgress } from "@/lib/algoOrders";
+
+interface TwapOrdersListProps {
+  twaps: TwapProgress[];
+  onCancel: (twap: TwapProgress) => void;
+}
+
+const formatSize = (size: number) => size.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+  return `${minutes}m left`;
+};
+
+// Progress of running TWAP orders: executed size, average fill price and time left
+export const TwapOrdersList = ({ twaps, onCancel }: TwapOrdersListProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (twaps.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Running TWAPs</div>
+      {twaps.map((twap) => (
+        <div key={twap.twapId} className="space-y-1.5 rounded-lg bg-muted/50 p-3 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">
+              <span style={{ color: `hsl(var(--${twap.side === "buy" ? "success" : "destructive"}))` }}>
+                {twap.side === "buy" ? "Buy" : "Sell"}
+              </span>{" "}
+              {formatSize(twap.size)} {twap.coin}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+              onClick={() => onCancel(twap)}
+              aria-label="Cancel TWAP"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <Progress value={twap.progress * 100} className="h-1.5" />
+          <div className="flex justify-between text-muted-foreground">
+            <span className="font-mono-numeric">
+              {formatSize(twap.executedSize)} / {formatSize(twap.size)} ({(twap.progress * 100).toFixed(0)}%)
+            </span>
+            <span>{formatRemaining(Math.max(0, twap.endTime - now))}</span>
+          </div>
+          {twap.averagePrice !== null && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Avg. fill ({twap.fills} slices)</span>
+              <span className="font-mono-numeric">
+                ${twap.averagePrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+              </span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
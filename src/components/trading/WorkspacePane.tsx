@@ -0,0 +1,147 @@
+import { MoreHorizontal, PanelBottom, PanelRight, Replace, X, Eye, EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_COIN, PANE_DEFINITIONS, type PaneKind, type PaneNode, type SplitDirection } from "@/lib/workspace";
+import { TradingChart } from "./TradingChart";
+import { OrderBookPanel } from "./OrderBookPanel";
+import { TradesTape } from "./TradesTape";
+import { MarketDepthPanel } from "./MarketDepthPanel";
+import { OrderEntryPanel } from "./OrderEntryPanel";
+import { PositionsTable } from "./PositionsTable";
+
+interface WorkspacePaneProps {
+  pane: PaneNode;
+  coins: string[];
+  canClose: boolean;
+  onChange: (changes: Partial<Omit<PaneNode, "type" | "id">>) => void;
+  onSplit: (direction: SplitDirection, kind: PaneKind) => void;
+  onClose: () => void;
+}
+
+const PANE_KINDS = Object.values(PANE_DEFINITIONS);
+
+const renderPaneBody = (pane: PaneNode) => {
+  switch (pane.kind) {
+    case "chart":
+      return <TradingChart coin={pane.coin} compact={pane.compact} height="fill" />;
+    case "orderBook":
+      return <OrderBookPanel coin={pane.coin} />;
+    case "trades":
+      return <TradesTape coin={pane.coin} />;
+    case "depth":
+      return <MarketDepthPanel coin={pane.coin} height="fill" />;
+    case "orderEntry":
+      return (
+        <div className="h-full overflow-y-auto">
+          <OrderEntryPanel />
+        </div>
+      );
+    case "positions":
+      return (
+        <div className="h-full overflow-auto">
+          <PositionsTable />
+        </div>
+      );
+  }
+};
+
+// One dockable pane in the trading workspace: a slim header with the pane's
+// market and layout actions above the panel itself
+export const WorkspacePane = ({ pane, coins, canClose, onChange, onSplit, onClose }: WorkspacePaneProps) => {
+  const definition = PANE_DEFINITIONS[pane.kind];
+  const coinOptions = pane.coin && !coins.includes(pane.coin) ? [pane.coin, ...coins] : coins;
+
+  const renderKindItems = (direction: SplitDirection) =>
+    PANE_KINDS.map(({ kind, label }) => (
+      <DropdownMenuItem key={kind} onClick={() => onSplit(direction, kind)}>
+        {label}
+      </DropdownMenuItem>
+    ));
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex h-8 shrink-0 items-center justify-between gap-2 px-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="truncate text-xs font-medium text-muted-foreground">{definition.label}</span>
+          {definition.hasCoin && (
+            <Select value={pane.coin} onValueChange={(coin) => onChange({ coin })}>
+              <SelectTrigger className="h-6 w-24 px-2 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {coinOptions.map((coin) => (
+                  <SelectItem key={coin} value={coin} className="text-xs">
+                    {coin}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-6 w-6 p-0" aria-label="Pane options">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <PanelRight className="mr-2 h-4 w-4" />
+                Split right
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>{renderKindItems("horizontal")}</DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <PanelBottom className="mr-2 h-4 w-4" />
+                Split down
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>{renderKindItems("vertical")}</DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Replace className="mr-2 h-4 w-4" />
+                Change pane
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {PANE_KINDS.filter(({ kind }) => kind !== pane.kind).map(({ kind, label, hasCoin }) => (
+                  <DropdownMenuItem
+                    key={kind}
+                    onClick={() => onChange({ kind, coin: hasCoin ? pane.coin ?? DEFAULT_COIN : undefined })}
+                  >
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            {pane.kind === "chart" && (
+              <DropdownMenuItem onClick={() => onChange({ compact: !pane.compact })}>
+                {pane.compact ? <Eye className="mr-2 h-4 w-4" /> : <EyeOff className="mr-2 h-4 w-4" />}
+                {pane.compact ? "Show summary" : "Hide summary"}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onClose} disabled={!canClose} className="text-destructive">
+              <X className="mr-2 h-4 w-4" />
+              Close pane
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="min-h-0 flex-1">{renderPaneBody(pane)}</div>
+    </div>
+  );
+};
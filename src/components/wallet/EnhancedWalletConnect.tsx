@@ -12,7 +12,8 @@ import {
   TestTube,
   Globe,
   AlertCircle,
-  Loader2
+  Loader2,
+  Zap
 } from 'lucide-react';
 import { useWallet } from '@/contexts/WalletContext';
 import { cn } from '@/lib/utils';
@@ -64,7 +65,11 @@ export const EnhancedWalletConnect = () => {
     availableMargin,
     error,
     clearError,
-    isRefreshing
+    isRefreshing,
+    agent,
+    isApprovingAgent,
+    enableOneClickTrading,
+    revokeAgent
   } = useWallet();
 
   const [isOpen, setIsOpen] = useState(false);
@@ -233,6 +238,45 @@ export const EnhancedWalletConnect = () => {
 
             <Separator />
 
+            {/* One-Click Trading */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">One-Click Trading</label>
+              {agent ? (
+                <div className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
+                  <div className="space-y-0.5">
+                    <div className="flex items-center gap-1 text-sm">
+                      <Zap className="h-3 w-3 text-primary" />
+                      <code className="font-mono">{formatAddress(agent.address)}</code>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Expires {new Date(agent.expiresAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={revokeAgent}
+                    disabled={isApprovingAgent}
+                  >
+                    {isApprovingAgent ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Revoke'}
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={enableOneClickTrading}
+                  disabled={isApprovingAgent}
+                >
+                  {isApprovingAgent ? <Loader2 className="h-3 w-3 animate-spin" /> : <Zap className="h-3 w-3" />}
+                  Enable one-click trading
+                </Button>
+              )}
+            </div>
+
+            <Separator />
+
             {/* Actions */}
             <div className="flex gap-2">
               <Button
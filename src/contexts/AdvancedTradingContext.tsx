@@ -0,0 +1,31 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { useAdvancedTrading } from '@/hooks/useAdvancedTrading';
+
+type AdvancedTradingContextType = ReturnType<typeof useAdvancedTrading>;
+
+const AdvancedTradingContext = createContext<AdvancedTradingContextType | null>(null);
+
+interface AdvancedTradingProviderProps {
+  children: ReactNode;
+}
+
+// Runs the advanced-order engine (price stream, trailing-stop ratchets and
+// reconciliation) once for the trading page, so it keeps working whether or
+// not a panel showing advanced orders is open
+export const AdvancedTradingProvider = ({ children }: AdvancedTradingProviderProps) => {
+  const advancedTrading = useAdvancedTrading();
+
+  return (
+    <AdvancedTradingContext.Provider value={advancedTrading}>
+      {children}
+    </AdvancedTradingContext.Provider>
+  );
+};
+
+export const useAdvancedOrders = () => {
+  const context = useContext(AdvancedTradingContext);
+  if (!context) {
+    throw new Error('useAdvancedOrders must be used within an AdvancedTradingProvider');
+  }
+  return context;
+};
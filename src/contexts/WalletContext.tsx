@@ -1,7 +1,19 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { useAccount, useConnect, useDisconnect, useBalance, useChainId, useSwitchChain } from 'wagmi';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { useAccount, useConnect, useDisconnect, useBalance, useChainId, useSwitchChain, useWalletClient } from 'wagmi';
 import { mainnet, sepolia, arbitrum } from 'wagmi/chains';
-import { hyperliquidAPI } from '@/lib/hyperliquid';
+import { toast } from 'sonner';
+import { hyperliquidAPI, hyperliquidExchange } from '@/lib/hyperliquid';
+import { toHyperliquidSigner, HyperliquidSigner } from '@/lib/signing';
+import type { ClearinghouseState } from '@/types/hyperliquid';
+import {
+  AgentWallet,
+  clearAgentWallet,
+  createAgentWallet,
+  createRevocationAddress,
+  loadAgentWallet,
+  saveAgentWallet,
+  toAgentSigner
+} from '@/lib/agentWallet';
 
 interface WalletContextType {
   // Connection state
@@ -26,11 +38,19 @@ interface WalletContextType {
   userOrders: any[];
   accountValue: number;
   availableMargin: number;
+  clearinghouseState: ClearinghouseState | null;
   
   // Data refresh
   refreshUserData: () => Promise<void>;
   isRefreshing: boolean;
   
+  // One-click trading (agent wallet)
+  agent: { address: string; expiresAt: number } | null;
+  agentSigner: HyperliquidSigner | null;
+  isApprovingAgent: boolean;
+  enableOneClickTrading: () => Promise<void>;
+  revokeAgent: () => Promise<void>;
+  
   // Error handling
   error: string | null;
   clearError: () => void;
@@ -49,6 +69,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
   const { data: balance } = useBalance({ address });
   const chainId = useChainId();
   const { switchChain } = useSwitchChain();
+  const { data: walletClient } = useWalletClient();
   
   // Local state
   const [isTestnetMode, setIsTestnetMode] = useState(false);
@@ -56,8 +77,11 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
   const [userOrders, setUserOrders] = useState<any[]>([]);
   const [accountValue, setAccountValue] = useState(0);
   const [availableMargin, setAvailableMargin] = useState(0);
+  const [clearinghouseState, setClearinghouseState] = useState<ClearinghouseState | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [agentWallet, setAgentWallet] = useState<AgentWallet | null>(null);
+  const [isApprovingAgent, setIsApprovingAgent] = useState(false);
 
   // Update API mode when testnet mode changes
   useEffect(() => {
@@ -85,9 +109,39 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       setUserOrders([]);
       setAccountValue(0);
       setAvailableMargin(0);
+      setClearinghouseState(null);
     }
   }, [address, isTestnetMode]);
 
+  // Restore the stored agent for this account and network
+  useEffect(() => {
+    let isMounted = true;
+    setAgentWallet(null);
+
+    if (address) {
+      loadAgentWallet(address, isTestnetMode).then(agent => {
+        if (isMounted) setAgentWallet(agent);
+      });
+    }
+
+    return () => {
+      isMounted = false;
+    };
+  }, [address, isTestnetMode]);
+
+  // Drop the agent once it expires
+  useEffect(() => {
+    if (!agentWallet || !address) return;
+
+    const timeout = setTimeout(() => {
+      clearAgentWallet(address, isTestnetMode);
+      setAgentWallet(null);
+      toast.info('One-click trading session expired');
+    }, Math.max(0, agentWallet.expiresAt - Date.now()));
+
+    return () => clearTimeout(timeout);
+  }, [agentWallet, address, isTestnetMode]);
+
   // Set up periodic data refresh
   useEffect(() => {
     if (!address) return;
@@ -117,6 +171,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       setUserOrders(orders);
       
       if (clearinghouse) {
+        setClearinghouseState(clearinghouse);
         setAccountValue(parseFloat(clearinghouse.marginSummary.accountValue));
         setAvailableMargin(parseFloat(clearinghouse.withdrawable));
       }
@@ -157,6 +212,69 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     }
   }, [chainId, switchChain]);
 
+  const enableOneClickTrading = useCallback(async () => {
+    if (!address || !walletClient) {
+      setError('Connect a wallet to enable one-click trading');
+      return;
+    }
+
+    setIsApprovingAgent(true);
+
+    try {
+      const agent = createAgentWallet();
+      await hyperliquidExchange.approveAgent(
+        agent.address,
+        agent.name,
+        toHyperliquidSigner(walletClient),
+        walletClient.chain.id
+      );
+      await saveAgentWallet(address, isTestnetMode, agent);
+      setAgentWallet(agent);
+      toast.success('One-click trading enabled');
+    } catch (err) {
+      console.error('Failed to approve agent wallet:', err);
+      toast.error('Failed to enable one-click trading');
+    } finally {
+      setIsApprovingAgent(false);
+    }
+  }, [address, walletClient, isTestnetMode]);
+
+  const revokeAgent = useCallback(async () => {
+    if (!address || !agentWallet) return;
+
+    // Revoking needs the main wallet's signature. Keep the key until then:
+    // dropping it locally would leave the agent approved on the exchange.
+    if (!walletClient) {
+      toast.error('Connect your wallet to revoke the agent on the exchange');
+      return;
+    }
+
+    setIsApprovingAgent(true);
+
+    try {
+      // Replacing the agent under the same name deauthorizes the old key
+      await hyperliquidExchange.approveAgent(
+        createRevocationAddress(),
+        agentWallet.name,
+        toHyperliquidSigner(walletClient),
+        walletClient.chain.id
+      );
+      clearAgentWallet(address, isTestnetMode);
+      setAgentWallet(null);
+      toast.success('One-click trading disabled');
+    } catch (err) {
+      console.error('Failed to revoke agent wallet:', err);
+      toast.error('Failed to revoke agent on the exchange; one-click trading is still active');
+    } finally {
+      setIsApprovingAgent(false);
+    }
+  }, [address, agentWallet, walletClient, isTestnetMode]);
+
+  const agentSigner = useMemo(
+    () => (agentWallet ? toAgentSigner(agentWallet) : null),
+    [agentWallet]
+  );
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -184,11 +302,19 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     userOrders,
     accountValue,
     availableMargin,
+    clearinghouseState,
     
     // Data refresh
     refreshUserData,
     isRefreshing,
     
+    // One-click trading (agent wallet)
+    agent: agentWallet ? { address: agentWallet.address, expiresAt: agentWallet.expiresAt } : null,
+    agentSigner,
+    isApprovingAgent,
+    enableOneClickTrading,
+    revokeAgent,
+    
     // Error handling
     error,
     clearError
@@ -235,6 +361,11 @@ export const useUserData = () => {
   };
 };
 
+export const useOneClickTrading = () => {
+  const { agent, isApprovingAgent, enableOneClickTrading, revokeAgent } = useWallet();
+  return { agent, isApprovingAgent, enableOneClickTrading, revokeAgent };
+};
+
 export const useTestnetMode = () => {
   const { isTestnetMode, setTestnetMode, switchToMainnet, switchToTestnet } = useWallet();
   return { isTestnetMode, setTestnetMode, switchToMainnet, switchToTestnet };
@@ -1,11 +1,21 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { toast } from 'sonner';
-import { useOrderExecution, OrderRequest } from './useOrderExecution';
+import { useOrderExecution, OrderRequest, OrderExecutionResult } from './useOrderExecution';
+import { useHyperliquidWebSocket, WSMessage } from './useHyperliquidWebSocket';
+import { usePersistentState } from './usePersistentState';
+import { useWallet } from '@/contexts/WalletContext';
+import { AssetRegistry } from '@/lib/assetRegistry';
+import { createCloid } from '@/lib/signing';
+import { DEFAULT_MAX_SLIPPAGE } from '@/lib/slippage';
+import { downloadJson, readJsonFile, migrate, STORAGE_SCHEMA_VERSION } from '@/lib/persistence';
+import type { OpenOrder } from '@/types/hyperliquid';
 
 // Advanced order types
 export interface StopLossOrder {
   id: string;
+  oid?: number; // Exchange order ID of the native trigger order
   asset: string;
+  side: 'long' | 'short'; // Side of the position being protected
   triggerPrice: number;
   size: number;
   orderType: 'market' | 'limit';
@@ -16,7 +26,9 @@ export interface StopLossOrder {
 
 export interface TakeProfitOrder {
   id: string;
+  oid?: number; // Exchange order ID of the native trigger order
   asset: string;
+  side: 'long' | 'short'; // Side of the position being protected
   triggerPrice: number;
   size: number;
   orderType: 'market' | 'limit';
@@ -27,6 +39,7 @@ export interface TakeProfitOrder {
 
 export interface OCOOrder {
   id: string;
+  oids?: number[]; // Exchange order IDs of both legs
   asset: string;
   orders: [OrderRequest, OrderRequest]; // Two orders that cancel each other
   isActive: boolean;
@@ -35,6 +48,9 @@ export interface OCOOrder {
 
 export interface TrailingStopOrder {
   id: string;
+  oid?: number; // Exchange order ID of the stop being trailed; changes with every modify
+  cloid?: string; // Client order ID of the stop, kept across modifies
+  exchangeStopPrice?: number; // Trigger price last confirmed on the exchange
   asset: string;
   trailAmount: number; // Trail distance in price or percentage
   trailType: 'price' | 'percentage';
@@ -89,116 +105,451 @@ export interface RiskMetrics {
   marginRequired: number;
 }
 
+// Orders created within this window are kept even if the last open-orders
+// snapshot predates them
+const RECONCILE_GRACE_MS = 15000;
+
+// Wait this long after a failed modify before moving the same stop again
+const MODIFY_RETRY_MS = 10000;
+
+type TriggerOrderParams = Omit<StopLossOrder, 'id' | 'oid' | 'isActive' | 'createdAt'>;
+
+// Build the reduce-only native trigger order that closes a position at the trigger price
+export const toTriggerOrder = (params: TriggerOrderParams, tpsl: 'tp' | 'sl'): OrderRequest => ({
+  asset: params.asset,
+  isBuy: params.side === 'short',
+  size: params.size,
+  price: params.orderType === 'limit' ? params.limitPrice : undefined,
+  orderType: params.orderType === 'limit' ? 'stopLimit' : 'stop',
+  stopPrice: params.triggerPrice,
+  reduceOnly: true,
+  tpsl
+});
+
+// Ratchet a trailing stop towards the price; returns the same object if nothing moved
+const advanceTrailingStop = (order: TrailingStopOrder, currentPrice: number): TrailingStopOrder => {
+  if (!order.isActive) return order;
+
+  const trailDistance = order.trailType === 'percentage'
+    ? currentPrice * (order.trailAmount / 100)
+    : order.trailAmount;
+
+  if (order.side === 'long') {
+    // For long positions, trail the stop loss up as price increases
+    if (currentPrice <= order.highWaterMark) return order;
+    return {
+      ...order,
+      highWaterMark: currentPrice,
+      currentStopPrice: Math.max(order.currentStopPrice, currentPrice - trailDistance)
+    };
+  }
+
+  // For short positions, trail the stop loss down as price decreases
+  if (currentPrice >= order.lowWaterMark) return order;
+  return {
+    ...order,
+    lowWaterMark: currentPrice,
+    currentStopPrice: Math.min(order.currentStopPrice, currentPrice + trailDistance)
+  };
+};
+
+// Identifies files produced by exportOrderTemplates
+const TEMPLATE_EXPORT_TYPE = 'prep-trade/order-templates';
+
+interface OrderTemplateExport {
+  type: typeof TEMPLATE_EXPORT_TYPE;
+  version: number;
+  exportedAt: number;
+  templates: OrderTemplate[];
+}
+
+const isOrderTemplate = (value: unknown): value is OrderTemplate => {
+  const template = value as Partial<OrderTemplate> | null;
+  return !!template &&
+    typeof template.name === 'string' &&
+    typeof template.asset === 'string' &&
+    ['market', 'limit', 'stop', 'stopLimit'].includes(template.orderType ?? '') &&
+    ['long', 'short'].includes(template.side ?? '') &&
+    !!template.riskManagement;
+};
+
+// Validate and migrate the contents of an exported templates file
+const parseTemplateExport = (value: unknown): OrderTemplate[] => {
+  const file = value as Partial<OrderTemplateExport> | null;
+  if (file?.type !== TEMPLATE_EXPORT_TYPE || typeof file.version !== 'number' || !Array.isArray(file.templates)) {
+    throw new Error('Not an order templates file');
+  }
+
+  const templates = migrate<unknown[]>(file.templates, file.version, 'orderTemplates');
+  const invalid = templates.filter(template => !isOrderTemplate(template));
+  if (invalid.length > 0) {
+    throw new Error(`${invalid.length} template(s) in the file are invalid`);
+  }
+
+  return templates as OrderTemplate[];
+};
+
+// The persisted fields of the trailing stops; high/low water marks move with
+// every favourable tick and are not worth a storage write each time
+const trailingStopsPersistKey = (orders: TrailingStopOrder[]) => JSON.stringify(
+  orders.map(order => [order.id, order.oid, order.cloid, order.exchangeStopPrice, order.trailAmount, order.trailType, order.isActive])
+);
+
+const getTriggerKind = (order: OpenOrder): 'tp' | 'sl' =>
+  order.orderType?.startsWith('Take Profit') ? 'tp' : 'sl';
+
+const parseOid = (result?: OrderExecutionResult): number | undefined =>
+  result?.orderId ? parseInt(result.orderId, 10) : undefined;
+
+// Build a local entry for a trigger order that only exists on the exchange
+const fromOpenOrder = (order: OpenOrder, prefix: string): StopLossOrder => {
+  const orderType = order.orderType?.includes('Market') ? 'market' : 'limit';
+
+  return {
+    id: `${prefix}_${order.oid}`,
+    oid: order.oid,
+    asset: order.coin,
+    side: order.side === 'A' ? 'long' : 'short',
+    triggerPrice: parseFloat(order.triggerPx || '0'),
+    size: parseFloat(order.sz),
+    orderType,
+    limitPrice: orderType === 'limit' ? parseFloat(order.limitPx) : undefined,
+    isActive: true,
+    createdAt: order.timestamp
+  };
+};
+
+// Sync local TP/SL entries with the exchange's open trigger orders
+const reconcileTriggerOrders = (
+  local: StopLossOrder[],
+  exchangeOrders: OpenOrder[],
+  prefix: string
+): StopLossOrder[] => {
+  const byOid = new Map(exchangeOrders.map(order => [order.oid, order]));
+  const now = Date.now();
+
+  const kept = local
+    .filter(order => order.oid !== undefined &&
+      (byOid.has(order.oid) || now - order.createdAt < RECONCILE_GRACE_MS))
+    .map(order => {
+      const live = byOid.get(order.oid!);
+      return live
+        ? { ...order, triggerPrice: parseFloat(live.triggerPx || '0') || order.triggerPrice, size: parseFloat(live.sz) }
+        : order;
+    });
+
+  const knownOids = new Set(local.map(order => order.oid));
+  const discovered = exchangeOrders
+    .filter(order => !knownOids.has(order.oid))
+    .map(order => fromOpenOrder(order, prefix));
+
+  return [...kept, ...discovered];
+};
+
 export const useAdvancedTrading = () => {
-  const { executeOrder, isExecuting } = useOrderExecution();
+  const {
+    executeOrder,
+    executeBatchOrders,
+    cancelOrders,
+    cancelOrdersByCloid,
+    modifyOrder,
+    isExecuting
+  } = useOrderExecution();
+  const { userOrders, refreshUserData } = useWallet();
   
   // Order management state
   const [stopLossOrders, setStopLossOrders] = useState<StopLossOrder[]>([]);
   const [takeProfitOrders, setTakeProfitOrders] = useState<TakeProfitOrder[]>([]);
   const [ocoOrders, setOcoOrders] = useState<OCOOrder[]>([]);
   const [trailingStopOrders, setTrailingStopOrders] = useState<TrailingStopOrder[]>([]);
-  const [orderTemplates, setOrderTemplates] = useState<OrderTemplate[]>([]);
+  const [isTrailingStopsHydrated, setIsTrailingStopsHydrated] = useState(false);
+  const [storedTrailingStops, setStoredTrailingStops, isTrailingStopsLoaded] =
+    usePersistentState<TrailingStopOrder[]>('trailingStops', []);
+  const [orderTemplates, setOrderTemplates] = usePersistentState<OrderTemplate[]>('orderTemplates', []);
+
+  // Live trailing stops change on every favourable tick; storage only gets a
+  // copy when a stop is added, removed or moved on the exchange
+  const storedTrailingStopsRef = useRef(storedTrailingStops);
+  const persistedTrailingKeyRef = useRef<string | null>(null);
+  storedTrailingStopsRef.current = storedTrailingStops;
+
+  useEffect(() => {
+    const stored = isTrailingStopsLoaded ? storedTrailingStopsRef.current : [];
+    persistedTrailingKeyRef.current = trailingStopsPersistKey(stored);
+    setTrailingStopOrders(stored);
+    setIsTrailingStopsHydrated(isTrailingStopsLoaded);
+  }, [isTrailingStopsLoaded]);
+
+  useEffect(() => {
+    if (!isTrailingStopsLoaded || !isTrailingStopsHydrated) return;
+
+    const key = trailingStopsPersistKey(trailingStopOrders);
+    if (key === persistedTrailingKeyRef.current) return;
+
+    persistedTrailingKeyRef.current = key;
+    setStoredTrailingStops(trailingStopOrders);
+  }, [trailingStopOrders, isTrailingStopsLoaded, isTrailingStopsHydrated, setStoredTrailingStops]);
+
+  const trailingStopsRef = useRef<TrailingStopOrder[]>([]);
+  const pendingModifiesRef = useRef<Set<string>>(new Set());
+  const failedModifiesRef = useRef<Map<string, number>>(new Map());
+  trailingStopsRef.current = trailingStopOrders;
+
+  // Ratchet trailing stops on every mid price update
+  const handlePriceMessage = useCallback((message: WSMessage) => {
+    if (message.channel !== 'allMids') return;
+    const mids: Record<string, string> = message.data?.mids ?? {};
+
+    setTrailingStopOrders(prev => {
+      let changed = false;
+      const next = prev.map(order => {
+        const price = parseFloat(mids[AssetRegistry.toCoin(order.asset)]);
+        if (!(price > 0)) return order;
+
+        const advanced = advanceTrailingStop(order, price);
+        if (advanced !== order) changed = true;
+        return advanced;
+      });
+      return changed ? next : prev;
+    });
+  }, [setTrailingStopOrders]);
+
+  const priceStream = useHyperliquidWebSocket(
+    {
+      subscriptions: [
+        { method: 'subscribe', subscription: { type: 'allMids' } }
+      ],
+      channels: ['allMids']
+    },
+    handlePriceMessage
+  );
+
+  // Trailing stops only advance on live prices, so they pause while the
+  // socket is down and the last on-exchange stop keeps protecting the position
+  const isTrailingPaused = !priceStream.isConnected;
+
+  // Move the on-exchange stop whenever the local stop has ratcheted past it.
+  // One modify per order is in flight at a time; later ratchets are coalesced.
+  // A modify replaces the order under a new oid, so the stop is addressed by its
+  // cloid; stops placed without one get a cloid on their first modify.
+  useEffect(() => {
+    if (isTrailingPaused) return;
+
+    trailingStopOrders.forEach(order => {
+      if (!order.isActive || (order.oid === undefined && !order.cloid)) return;
+      if (order.exchangeStopPrice === order.currentStopPrice) return;
+      if (pendingModifiesRef.current.has(order.id)) return;
+
+      const failedAt = failedModifiesRef.current.get(order.id);
+      if (failedAt !== undefined && Date.now() - failedAt < MODIFY_RETRY_MS) return;
+
+      const targetStopPrice = order.currentStopPrice;
+      const cloid = order.cloid ?? createCloid();
+      pendingModifiesRef.current.add(order.id);
+
+      modifyOrder(order.cloid ?? order.oid!, {
+        ...toTriggerOrder({
+          asset: order.asset,
+          side: order.side,
+          size: order.size,
+          triggerPrice: targetStopPrice,
+          orderType: 'market'
+        }, 'sl'),
+        cloid
+      })
+        .then(result => {
+          if (!result.success) {
+            failedModifiesRef.current.set(order.id, Date.now());
+            return;
+          }
+
+          failedModifiesRef.current.delete(order.id);
+          setTrailingStopOrders(prev => prev.map(o => o.id === order.id
+            ? { ...o, cloid, exchangeStopPrice: targetStopPrice }
+            : o
+          ));
+        })
+        .finally(() => {
+          pendingModifiesRef.current.delete(order.id);
+        });
+    });
+  }, [trailingStopOrders, isTrailingPaused, modifyOrder, setTrailingStopOrders]);
+
+  // Reconcile TP/SL/OCO state with the exchange's open trigger orders
+  useEffect(() => {
+    const triggerOrders = (userOrders as OpenOrder[]).filter(order => order.isTrigger);
+    const openOids = new Set(triggerOrders.map(order => order.oid));
+    const byCloid = new Map(triggerOrders.filter(order => order.cloid).map(order => [order.cloid!, order]));
+    const now = Date.now();
+
+    // Stops owned by a trailing stop are tracked separately
+    const trailingOids = new Set(trailingStopsRef.current.map(order => order.oid));
+    const trailingCloids = new Set(trailingStopsRef.current.map(order => order.cloid).filter(Boolean));
+    const plainTriggerOrders = triggerOrders.filter(order =>
+      !trailingOids.has(order.oid) && !(order.cloid && trailingCloids.has(order.cloid))
+    );
+
+    setStopLossOrders(prev => reconcileTriggerOrders(
+      prev,
+      plainTriggerOrders.filter(order => getTriggerKind(order) === 'sl'),
+      'sl'
+    ));
+    setTakeProfitOrders(prev => reconcileTriggerOrders(
+      prev,
+      plainTriggerOrders.filter(order => getTriggerKind(order) === 'tp'),
+      'tp'
+    ));
+    // An OCO is done once neither leg is resting any more
+    setOcoOrders(prev => prev.filter(order =>
+      now - order.createdAt < RECONCILE_GRACE_MS ||
+      order.oids?.some(oid => openOids.has(oid))
+    ));
+    // A trailing stop whose order is gone has triggered or been cancelled.
+    // Live stops found by cloid pick up the oid of their latest replacement.
+    setTrailingStopOrders(prev => {
+      let changed = false;
+      const next = prev
+        .filter(order => {
+          const isLive = order.oid === undefined && !order.cloid ||
+            now - order.createdAt < RECONCILE_GRACE_MS ||
+            pendingModifiesRef.current.has(order.id) ||
+            (order.cloid ? byCloid.has(order.cloid) : openOids.has(order.oid!));
+          if (!isLive) changed = true;
+          return isLive;
+        })
+        .map(order => {
+          const live = order.cloid ? byCloid.get(order.cloid) : undefined;
+          if (!live || live.oid === order.oid) return order;
+          changed = true;
+          return { ...order, oid: live.oid };
+        });
+      return changed ? next : prev;
+    });
+  }, [userOrders, setTrailingStopOrders]);
+
+  // Create stop loss order as a native trigger order
+  const createStopLoss = useCallback(async (params: TriggerOrderParams) => {
+    const result = await executeOrder(toTriggerOrder(params, 'sl'));
+    if (!result.success) return null;
 
-  // Create stop loss order
-  const createStopLoss = useCallback((params: Omit<StopLossOrder, 'id' | 'isActive' | 'createdAt'>) => {
     const order: StopLossOrder = {
       ...params,
       id: `sl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      oid: parseOid(result),
       isActive: true,
       createdAt: Date.now()
     };
 
     setStopLossOrders(prev => [...prev, order]);
-    toast.success(`Stop loss order created for ${params.asset} at $${params.triggerPrice}`);
+    refreshUserData();
     
     return order.id;
-  }, []);
+  }, [executeOrder, refreshUserData]);
+
+  // Create take profit order as a native trigger order
+  const createTakeProfit = useCallback(async (params: TriggerOrderParams) => {
+    const result = await executeOrder(toTriggerOrder(params, 'tp'));
+    if (!result.success) return null;
 
-  // Create take profit order
-  const createTakeProfit = useCallback((params: Omit<TakeProfitOrder, 'id' | 'isActive' | 'createdAt'>) => {
     const order: TakeProfitOrder = {
       ...params,
       id: `tp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      oid: parseOid(result),
       isActive: true,
       createdAt: Date.now()
     };
 
     setTakeProfitOrders(prev => [...prev, order]);
-    toast.success(`Take profit order created for ${params.asset} at $${params.triggerPrice}`);
+    refreshUserData();
     
     return order.id;
-  }, []);
+  }, [executeOrder, refreshUserData]);
+
+  // Create OCO order: both legs are attached to the position, so the
+  // exchange cancels the remaining leg once the position is closed
+  const createOCO = useCallback(async (params: Omit<OCOOrder, 'id' | 'oids' | 'isActive' | 'createdAt'>) => {
+    const legs = params.orders.map(order => ({ ...order, reduceOnly: true }));
+    const results = await executeBatchOrders(legs, 'positionTpsl');
+    if (!results.every(result => result.success)) return null;
 
-  // Create OCO order
-  const createOCO = useCallback((params: Omit<OCOOrder, 'id' | 'isActive' | 'createdAt'>) => {
     const order: OCOOrder = {
       ...params,
       id: `oco_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      oids: results.map(parseOid).filter((oid): oid is number => oid !== undefined),
       isActive: true,
       createdAt: Date.now()
     };
 
     setOcoOrders(prev => [...prev, order]);
+    refreshUserData();
     toast.success(`OCO order created for ${params.asset}`);
     
     return order.id;
-  }, []);
+  }, [executeBatchOrders, refreshUserData]);
+
+  // Create trailing stop order backed by a native stop on the exchange
+  const createTrailingStop = useCallback(async (params: Omit<TrailingStopOrder, 'id' | 'oid' | 'exchangeStopPrice' | 'isActive' | 'createdAt'>) => {
+    const result = await executeOrder(toTriggerOrder({
+      asset: params.asset,
+      side: params.side,
+      size: params.size,
+      triggerPrice: params.currentStopPrice,
+      orderType: 'market'
+    }, 'sl'));
+    if (!result.success) return null;
 
-  // Create trailing stop order
-  const createTrailingStop = useCallback((params: Omit<TrailingStopOrder, 'id' | 'isActive' | 'createdAt'>) => {
     const order: TrailingStopOrder = {
       ...params,
       id: `ts_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      oid: parseOid(result),
+      cloid: result.cloid,
+      exchangeStopPrice: params.currentStopPrice,
       isActive: true,
       createdAt: Date.now()
     };
 
     setTrailingStopOrders(prev => [...prev, order]);
+    refreshUserData();
     toast.success(`Trailing stop order created for ${params.asset}`);
     
     return order.id;
-  }, []);
+  }, [executeOrder, refreshUserData, setTrailingStopOrders]);
 
   // Update trailing stop based on price movement
   const updateTrailingStop = useCallback((orderId: string, currentPrice: number) => {
-    setTrailingStopOrders(prev => prev.map(order => {
-      if (order.id !== orderId || !order.isActive) return order;
-
-      let newStopPrice = order.currentStopPrice;
-      let newHighWaterMark = order.highWaterMark;
-      let newLowWaterMark = order.lowWaterMark;
-
-      if (order.side === 'long') {
-        // For long positions, trail the stop loss up as price increases
-        if (currentPrice > order.highWaterMark) {
-          newHighWaterMark = currentPrice;
-          const trailDistance = order.trailType === 'percentage' 
-            ? currentPrice * (order.trailAmount / 100)
-            : order.trailAmount;
-          newStopPrice = currentPrice - trailDistance;
-        }
-      } else {
-        // For short positions, trail the stop loss down as price decreases
-        if (currentPrice < order.lowWaterMark) {
-          newLowWaterMark = currentPrice;
-          const trailDistance = order.trailType === 'percentage' 
-            ? currentPrice * (order.trailAmount / 100)
-            : order.trailAmount;
-          newStopPrice = currentPrice + trailDistance;
-        }
+    setTrailingStopOrders(prev => prev.map(order =>
+      order.id === orderId ? advanceTrailingStop(order, currentPrice) : order
+    ));
+  }, [setTrailingStopOrders]);
+
+  // Cancel advanced order, pulling its trigger orders from the exchange first
+  const cancelAdvancedOrder = useCallback(async (type: 'stopLoss' | 'takeProfit' | 'oco' | 'trailingStop', orderId: string) => {
+    const exchangeOrders: Array<{ asset: string; oid: number }> = [];
+
+    if (type === 'stopLoss' || type === 'takeProfit') {
+      const order = (type === 'stopLoss' ? stopLossOrders : takeProfitOrders).find(o => o.id === orderId);
+      if (order?.oid !== undefined) {
+        exchangeOrders.push({ asset: order.asset, oid: order.oid });
       }
+    } else if (type === 'oco') {
+      const order = ocoOrders.find(o => o.id === orderId);
+      order?.oids?.forEach(oid => exchangeOrders.push({ asset: order.asset, oid }));
+    } else {
+      const order = trailingStopOrders.find(o => o.id === orderId);
+      // The oid goes stale after each modify; the cloid doesn't
+      if (order?.cloid) {
+        const results = await cancelOrdersByCloid([{ asset: order.asset, cloid: order.cloid }]);
+        if (!results.every(result => result.success)) return;
+      } else if (order?.oid !== undefined) {
+        exchangeOrders.push({ asset: order.asset, oid: order.oid });
+      }
+    }
+
+    if (exchangeOrders.length > 0) {
+      const results = await cancelOrders(exchangeOrders);
+      if (!results.every(result => result.success)) return;
+    }
 
-      return {
-        ...order,
-        currentStopPrice: newStopPrice,
-        highWaterMark: newHighWaterMark,
-        lowWaterMark: newLowWaterMark
-      };
-    }));
-  }, []);
-
-  // Cancel advanced order
-  const cancelAdvancedOrder = useCallback((type: 'stopLoss' | 'takeProfit' | 'oco' | 'trailingStop', orderId: string) => {
     switch (type) {
       case 'stopLoss':
         setStopLossOrders(prev => prev.filter(order => order.id !== orderId));
@@ -214,7 +565,7 @@ export const useAdvancedTrading = () => {
         break;
     }
     toast.success('Advanced order cancelled');
-  }, []);
+  }, [stopLossOrders, takeProfitOrders, ocoOrders, trailingStopOrders, cancelOrders, cancelOrdersByCloid, setTrailingStopOrders]);
 
   // Save order template
   const saveOrderTemplate = useCallback((template: Omit<OrderTemplate, 'id' | 'createdAt'>) => {
@@ -228,13 +579,45 @@ export const useAdvancedTrading = () => {
     toast.success(`Order template "${template.name}" saved`);
     
     return newTemplate.id;
-  }, []);
+  }, [setOrderTemplates]);
 
   // Delete order template
   const deleteOrderTemplate = useCallback((templateId: string) => {
     setOrderTemplates(prev => prev.filter(template => template.id !== templateId));
     toast.success('Order template deleted');
-  }, []);
+  }, [setOrderTemplates]);
+
+  // Download all templates as a JSON file that can be shared and re-imported
+  const exportOrderTemplates = useCallback(() => {
+    const file: OrderTemplateExport = {
+      type: TEMPLATE_EXPORT_TYPE,
+      version: STORAGE_SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      templates: orderTemplates
+    };
+
+    downloadJson(`order-templates-${new Date().toISOString().slice(0, 10)}.json`, file);
+  }, [orderTemplates]);
+
+  // Import templates from an exported file; imported templates get fresh IDs
+  const importOrderTemplates = useCallback(async (file: File) => {
+    try {
+      const templates = parseTemplateExport(await readJsonFile(file));
+      const imported = templates.map(template => ({
+        ...template,
+        id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        createdAt: Date.now()
+      }));
+
+      setOrderTemplates(prev => [...prev, ...imported]);
+      toast.success(`Imported ${imported.length} order template(s)`);
+
+      return imported.length;
+    } catch (error) {
+      toast.error(`Failed to import templates: ${(error as Error).message}`);
+      return 0;
+    }
+  }, [setOrderTemplates]);
 
   // Execute order from template
   const executeFromTemplate = useCallback(async (templateId: string, overrides: Partial<OrderRequest> = {}) => {
@@ -254,34 +637,38 @@ export const useAdvancedTrading = () => {
     };
 
     try {
-      const result = await executeOrder(baseOrder);
-      
-      if (result.success && template.stopLoss) {
-        createStopLoss({
+      if (!template.stopLoss && !template.takeProfit) {
+        return await executeOrder(baseOrder);
+      }
+
+      // Submit entry and TP/SL children together so the exchange links them
+      const orders: OrderRequest[] = [baseOrder];
+      if (template.stopLoss) {
+        orders.push(toTriggerOrder({
           asset: template.asset,
-          triggerPrice: template.stopLoss.triggerPrice,
+          side: template.side,
           size: baseOrder.size,
-          orderType: template.stopLoss.orderType,
-          limitPrice: template.stopLoss.limitPrice
-        });
+          ...template.stopLoss
+        }, 'sl'));
       }
-
-      if (result.success && template.takeProfit) {
-        createTakeProfit({
+      if (template.takeProfit) {
+        orders.push(toTriggerOrder({
           asset: template.asset,
-          triggerPrice: template.takeProfit.triggerPrice,
+          side: template.side,
           size: baseOrder.size,
-          orderType: template.takeProfit.orderType,
-          limitPrice: template.takeProfit.limitPrice
-        });
+          ...template.takeProfit
+        }, 'tp'));
       }
 
-      return result;
+      const [entryResult] = await executeBatchOrders(orders, 'normalTpsl');
+      refreshUserData();
+
+      return entryResult;
     } catch (error) {
       toast.error('Failed to execute template order');
       throw error;
     }
-  }, [orderTemplates, executeOrder, createStopLoss, createTakeProfit]);
+  }, [orderTemplates, executeOrder, executeBatchOrders, refreshUserData]);
 
   return {
     // State
@@ -291,6 +678,7 @@ export const useAdvancedTrading = () => {
     trailingStopOrders,
     orderTemplates,
     isExecuting,
+    isTrailingPaused,
 
     // Actions
     createStopLoss,
@@ -301,6 +689,8 @@ export const useAdvancedTrading = () => {
     cancelAdvancedOrder,
     saveOrderTemplate,
     deleteOrderTemplate,
+    exportOrderTemplates,
+    importOrderTemplates,
     executeFromTemplate
   };
 };
@@ -348,15 +738,25 @@ export const calculateRiskReward = (
 };
 
 // Portfolio risk management
+const DEFAULT_RISK_SETTINGS = {
+  maxRiskPerTrade: 2, // 2% per trade
+  maxPortfolioRisk: 10, // 10% total portfolio risk
+  maxLeverage: 10,
+  minRiskRewardRatio: 1.5,
+  maxPositionsPerAsset: 3,
+  maxCorrelatedPositions: 5,
+  maxSlippage: DEFAULT_MAX_SLIPPAGE * 100 // % from mid for market orders
+};
+
+export type RiskSettings = typeof DEFAULT_RISK_SETTINGS;
+
 export const useRiskManagement = () => {
-  const [riskSettings, setRiskSettings] = useState({
-    maxRiskPerTrade: 2, // 2% per trade
-    maxPortfolioRisk: 10, // 10% total portfolio risk
-    maxLeverage: 10,
-    minRiskRewardRatio: 1.5,
-    maxPositionsPerAsset: 3,
-    maxCorrelatedPositions: 5
-  });
+  const [storedRiskSettings, setRiskSettings] = usePersistentState<Partial<RiskSettings>>('riskSettings', DEFAULT_RISK_SETTINGS);
+  // Fill in settings added since the stored copy was saved
+  const riskSettings = useMemo(
+    () => ({ ...DEFAULT_RISK_SETTINGS, ...storedRiskSettings }),
+    [storedRiskSettings]
+  );
 
   const validateTrade = useCallback((trade: {
     asset: string;
@@ -392,9 +792,9 @@ export const useRiskManagement = () => {
     return { warnings, errors, isValid: errors.length === 0 };
   }, [riskSettings]);
 
-  const updateRiskSettings = useCallback((newSettings: Partial<typeof riskSettings>) => {
+  const updateRiskSettings = useCallback((newSettings: Partial<RiskSettings>) => {
     setRiskSettings(prev => ({ ...prev, ...newSettings }));
-  }, []);
+  }, [setRiskSettings]);
 
   return {
     riskSettings,
@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useHyperliquidWebSocket, WSMessage } from './useHyperliquidWebSocket';
+import { hyperliquidAPI } from '@/lib/hyperliquid';
+import {
+  mergeCandles,
+  parseCandle,
+  Candle,
+  CandleInterval,
+  CANDLE_PAGE_SIZE,
+  INTERVAL_MS
+} from '@/lib/candles';
+import type { CandleSnapshot } from '@/types/hyperliquid';
+
+// Candle history for a coin and interval: the latest page over REST, live
+// updates from the candle subscription, and older pages on demand
+export const useCandles = (coin: string, interval: CandleInterval) => {
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Identifies the current series so responses for a previous one are dropped
+  const seriesRef = useRef(`${coin}:${interval}`);
+  const loadingMoreRef = useRef(false);
+
+  const handleMessage = useCallback((message: WSMessage) => {
+    if (message.channel !== 'candle') return;
+
+    const snapshot = message.data as CandleSnapshot;
+    if (`${snapshot.s}:${snapshot.i}` !== seriesRef.current) return;
+
+    setCandles(prev => mergeCandles(prev, [parseCandle(snapshot)]));
+  }, []);
+
+  const {
+    isConnected,
+    subscribeToCandles,
+    unsubscribeFromCandles
+  } = useHyperliquidWebSocket({ channels: ['candle'] }, handleMessage);
+
+  // Load the most recent page whenever the series changes
+  useEffect(() => {
+    const series = `${coin}:${interval}`;
+    seriesRef.current = series;
+    loadingMoreRef.current = false;
+
+    setCandles([]);
+    setHasMore(true);
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setError(null);
+
+    const endTime = Date.now();
+    const startTime = endTime - CANDLE_PAGE_SIZE * INTERVAL_MS[interval];
+
+    hyperliquidAPI.getCandles(coin, interval, startTime, endTime)
+      .then(snapshots => {
+        if (seriesRef.current !== series) return;
+        setCandles(prev => mergeCandles(snapshots.map(parseCandle), prev));
+        setHasMore(snapshots.length > 0);
+      })
+      .catch(err => {
+        console.error('Failed to load candles:', err);
+        if (seriesRef.current === series) setError('Failed to load candles');
+      })
+      .finally(() => {
+        if (seriesRef.current === series) setIsLoading(false);
+      });
+  }, [coin, interval]);
+
+  // Stream updates to the forming candle
+  useEffect(() => {
+    if (!isConnected) return;
+
+    subscribeToCandles(coin, interval);
+    return () => {
+      unsubscribeFromCandles(coin, interval);
+    };
+  }, [coin, interval, isConnected, subscribeToCandles, unsubscribeFromCandles]);
+
+  // Page further back in time, before the oldest loaded candle
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || !hasMore || candles.length === 0) return;
+
+    const series = seriesRef.current;
+    const endTime = candles[0].time - 1;
+    const startTime = endTime - CANDLE_PAGE_SIZE * INTERVAL_MS[interval];
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      const snapshots = await hyperliquidAPI.getCandles(coin, interval, startTime, endTime);
+      if (seriesRef.current !== series) return;
+
+      if (snapshots.length === 0) {
+        setHasMore(false);
+      } else {
+        setCandles(prev => mergeCandles(prev, snapshots.map(parseCandle)));
+      }
+    } catch (err) {
+      console.error('Failed to load older candles:', err);
+    } finally {
+      if (seriesRef.current === series) {
+        loadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [coin, interval, candles, hasMore]);
+
+  return {
+    candles,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    error,
+    isConnected,
+    loadMore
+  };
+};
@@ -0,0 +1,112 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { usePersistentState } from './usePersistentState';
+import { useWallet } from '@/contexts/WalletContext';
+import { downloadJson, readJsonFile, STORAGE_SCHEMA_VERSION } from '@/lib/persistence';
+import {
+  createDrawingId,
+  createDrawingsExport,
+  drawingsKey,
+  parseDrawingsExport,
+  Drawing
+} from '@/lib/drawings';
+
+const MAX_UNDO_STEPS = 50;
+
+const NO_DRAWINGS: Drawing[] = [];
+
+// Drawings for one market and interval, persisted per wallet and network in a
+// record of their own, so charts on other markets never write over them.
+// Every change records the previous drawings so it can be undone.
+export const useChartDrawings = (coin: string, interval: string) => {
+  const { address, isTestnetMode } = useWallet();
+  const key = drawingsKey(coin, interval);
+  const [drawings, setDrawings, isLoaded] = usePersistentState<Drawing[]>('chartDrawings', NO_DRAWINGS, key);
+  // Undo stacks per market, kept for the session only
+  const [history, setHistory] = useState<Record<string, Drawing[][]>>({});
+
+  const undoStack = useMemo(() => history[key] ?? [], [history, key]);
+
+  // Undo history belongs to the wallet whose drawings it edits
+  useEffect(() => {
+    setHistory({});
+  }, [address, isTestnetMode]);
+
+  // Apply a change to the current market's drawings, recording the previous state
+  const commit = useCallback((update: (current: Drawing[]) => Drawing[]) => {
+    if (!isLoaded) return;
+
+    const next = update(drawings);
+    if (next === drawings) return;
+
+    setHistory(prev => ({
+      ...prev,
+      [key]: [...(prev[key] ?? []), drawings].slice(-MAX_UNDO_STEPS)
+    }));
+    setDrawings(next);
+  }, [isLoaded, drawings, key, setDrawings]);
+
+  const addDrawing = useCallback((drawing: Omit<Drawing, 'id' | 'createdAt'>) => {
+    const created: Drawing = { ...drawing, id: createDrawingId(), createdAt: Date.now() };
+    commit(current => [...current, created]);
+    return created;
+  }, [commit]);
+
+  const updateDrawing = useCallback((id: string, changes: Partial<Omit<Drawing, 'id'>>) => {
+    commit(current => current.map(drawing => drawing.id === id ? { ...drawing, ...changes } : drawing));
+  }, [commit]);
+
+  const removeDrawing = useCallback((id: string) => {
+    commit(current => current.filter(drawing => drawing.id !== id));
+  }, [commit]);
+
+  const clearDrawings = useCallback(() => {
+    commit(current => current.length === 0 ? current : []);
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    if (!isLoaded || undoStack.length === 0) return;
+
+    const previous = undoStack[undoStack.length - 1];
+    setHistory(prev => ({ ...prev, [key]: undoStack.slice(0, -1) }));
+    setDrawings(previous);
+  }, [isLoaded, undoStack, key, setDrawings]);
+
+  const exportDrawings = useCallback(() => {
+    downloadJson(
+      `drawings-${coin}-${interval}-${new Date().toISOString().slice(0, 10)}.json`,
+      createDrawingsExport(coin, interval, drawings, STORAGE_SCHEMA_VERSION)
+    );
+  }, [coin, interval, drawings]);
+
+  // Import drawings into the current market; imported drawings get fresh IDs
+  const importDrawings = useCallback(async (file: File) => {
+    try {
+      const imported = parseDrawingsExport(await readJsonFile(file)).map(drawing => ({
+        ...drawing,
+        id: createDrawingId()
+      }));
+
+      commit(current => [...current, ...imported]);
+      toast.success(`Imported ${imported.length} drawing(s)`);
+
+      return imported.length;
+    } catch (error) {
+      toast.error(`Failed to import drawings: ${(error as Error).message}`);
+      return 0;
+    }
+  }, [commit]);
+
+  return {
+    drawings,
+    isLoaded,
+    addDrawing,
+    updateDrawing,
+    removeDrawing,
+    clearDrawings,
+    undo,
+    canUndo: undoStack.length > 0,
+    exportDrawings,
+    importDrawings
+  };
+};
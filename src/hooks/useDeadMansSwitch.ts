@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { OrderExecutionService } from './useOrderExecution';
+import { useNetworkRecovery } from './useNetworkRecovery';
+import { usePersistentState } from './usePersistentState';
+import {
+  DEFAULT_DEAD_MANS_SWITCH,
+  getRefreshInterval,
+  type DeadMansSwitchSettings
+} from '@/lib/deadMansSwitch';
+
+// off: disabled; needsAgent: enabled but there is no agent to sign refreshes
+// without a wallet popup; failing: the timer can't be refreshed right now
+export type DeadMansSwitchStatus = 'off' | 'needsAgent' | 'active' | 'failing';
+
+const ALERT_ID = 'dead-mans-switch';
+
+const orderService = OrderExecutionService.getInstance();
+
+// Keep the exchange's scheduled cancel pushed back while this tab is open and
+// online. Mount once (the Header does) so only one loop refreshes the timer.
+export const useDeadMansSwitch = () => {
+  const { address, agentSigner } = useWallet();
+  const { networkStatus } = useNetworkRecovery();
+  const [storedSettings, setSettings] = usePersistentState<Partial<DeadMansSwitchSettings>>(
+    'deadMansSwitch',
+    DEFAULT_DEAD_MANS_SWITCH
+  );
+  const settings = useMemo(() => ({ ...DEFAULT_DEAD_MANS_SWITCH, ...storedSettings }), [storedSettings]);
+
+  // When the exchange will cancel all orders, as of the last successful refresh
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  // The refresh loop's stop function and in-flight request, so turning the
+  // switch off can stop it and wait for a refresh already on its way
+  const stopRefreshRef = useRef<(() => void) | null>(null);
+  const pendingRefreshRef = useRef<Promise<unknown> | null>(null);
+  // Bumped on every toggle, so a clear doesn't outlive the switch being turned back on
+  const toggleRef = useRef(0);
+
+  // A scheduled cancel belongs to the account that set it
+  useEffect(() => {
+    setDeadline(null);
+    setRefreshError(null);
+  }, [address]);
+
+  // Refresh loop: set the cancel time now, then keep pushing it back
+  useEffect(() => {
+    const signer = agentSigner;
+    if (!settings.enabled || !address || !signer || !networkStatus.isOnline) return;
+
+    let cancelled = false;
+
+    const refresh = async () => {
+      const time = Date.now() + settings.timeoutSeconds * 1000;
+      const request = orderService.scheduleCancel(time, signer);
+      pendingRefreshRef.current = request;
+      const result = await request;
+      if (cancelled) return;
+
+      if (result.success) {
+        setDeadline(time);
+        setRefreshError(null);
+      } else {
+        setRefreshError(result.error || 'Exchange rejected the request');
+      }
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, getRefreshInterval(settings.timeoutSeconds));
+
+    const stop = () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+    stopRefreshRef.current = stop;
+
+    return stop;
+  }, [settings.enabled, settings.timeoutSeconds, address, agentSigner, networkStatus.isOnline]);
+
+  const refreshBlocker = !networkStatus.isOnline
+    ? 'network offline'
+    : !agentSigner
+      ? 'one-click trading is off'
+      : refreshError;
+
+  // Alert while orders are due to be cancelled and the timer can't be pushed back
+  useEffect(() => {
+    if (!settings.enabled || !refreshBlocker || (deadline === null && !refreshError)) {
+      toast.dismiss(ALERT_ID);
+      return;
+    }
+
+    toast.error(
+      deadline !== null
+        ? `Dead-man's switch can't be refreshed (${refreshBlocker}). Open orders will be cancelled at ${new Date(deadline).toLocaleTimeString()}`
+        : `Dead-man's switch could not be started: ${refreshBlocker}`,
+      { id: ALERT_ID, duration: Infinity }
+    );
+  }, [settings.enabled, refreshBlocker, refreshError, deadline]);
+
+  useEffect(() => {
+    return () => {
+      toast.dismiss(ALERT_ID);
+    };
+  }, []);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    const toggle = ++toggleRef.current;
+    setSettings(prev => ({ ...prev, enabled }));
+    if (enabled) return;
+
+    const pendingDeadline = deadline;
+    setDeadline(null);
+    setRefreshError(null);
+
+    // A refresh landing after the clear would schedule the cancel again
+    stopRefreshRef.current?.();
+    await pendingRefreshRef.current?.catch(() => undefined);
+    if (toggle !== toggleRef.current) return;
+
+    // Clear the scheduled cancel, otherwise turning the switch off would still cancel orders
+    if (!agentSigner) {
+      if (pendingDeadline !== null) {
+        toast.warning(`Open orders are still scheduled to be cancelled at ${new Date(pendingDeadline).toLocaleTimeString()}`);
+      }
+      return;
+    }
+
+    const result = await orderService.scheduleCancel(null, agentSigner);
+    if (result.success) {
+      toast.success("Dead-man's switch turned off");
+    } else {
+      toast.error(`Failed to clear scheduled cancel: ${result.error}`);
+    }
+  }, [agentSigner, deadline, setSettings]);
+
+  const setTimeoutSeconds = useCallback((timeoutSeconds: number) => {
+    setSettings(prev => ({ ...prev, timeoutSeconds }));
+  }, [setSettings]);
+
+  const status: DeadMansSwitchStatus = !settings.enabled
+    ? 'off'
+    : !agentSigner
+      ? 'needsAgent'
+      : refreshBlocker
+        ? 'failing'
+        : 'active';
+
+  return {
+    settings,
+    status,
+    deadline,
+    refreshError: refreshBlocker,
+    setEnabled,
+    setTimeoutSeconds
+  };
+};
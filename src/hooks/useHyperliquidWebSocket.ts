@@ -1,13 +1,18 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useSyncExternalStore } from 'react';
 import { toast } from 'sonner';
+import type { Fill, L2BookSnapshot } from '@/types/hyperliquid';
+import type { BookGrouping } from '@/lib/orderBook';
 
 // WebSocket message types for Hyperliquid
 export interface WSSubscription {
   method: 'subscribe';
   subscription: {
-    type: 'allMids' | 'orderbook' | 'trades' | 'userEvents' | 'userFills' | 'userFundings';
+    type: 'allMids' | 'l2Book' | 'trades' | 'candle' | 'userEvents' | 'userFills' | 'userFundings' | 'orderUpdates';
     coin?: string;
     user?: string;
+    interval?: string;        // candle interval
+    nSigFigs?: number | null; // l2Book price grouping
+    mantissa?: number;
   };
 }
 
@@ -17,11 +22,8 @@ export interface WSMessage {
   timestamp?: number;
 }
 
-export interface WSOrderBookData {
-  coin: string;
-  levels: Array<[string, string]>; // [price, size]
-  time: number;
-}
+// l2Book pushes full snapshots, in the same shape as the info endpoint
+export type WSOrderBookData = L2BookSnapshot;
 
 export interface WSTradeData {
   coin: string;
@@ -30,13 +32,16 @@ export interface WSTradeData {
   sz: string;
   time: number;
   tid: number;
+  hash: string;
+  users: [string, string]; // [buyer, seller]
 }
 
+// userEvents messages, delivered on the "user" channel, carry one of these keys
 export interface WSUserEvent {
-  fills: any[];
-  funding: any[];
-  liquidation: any[];
-  nonUserCancel: any[];
+  fills?: Fill[];
+  funding?: any;
+  liquidation?: any;
+  nonUserCancel?: Array<{ coin: string; oid: number }>;
 }
 
 interface WebSocketConfig {
@@ -44,52 +49,134 @@ interface WebSocketConfig {
   reconnectAttempts: number;
   reconnectInterval: number;
   heartbeatInterval: number;
-  subscriptions: WSSubscription[];
+}
+
+// What one consumer of the shared connection asks for
+interface StreamConfig {
+  subscriptions: WSSubscription[];  // Held while the hook is mounted
+  channels?: string[];              // Channels delivered to onMessage; all when omitted
+  connection?: string;              // Key of a separate connection, for subscriptions that can't share one
 }
 
 interface WebSocketState {
   isConnected: boolean;
   isConnecting: boolean;
-  lastMessage: WSMessage | null;
   error: string | null;
   reconnectCount: number;
   latency: number;
 }
 
+type MessageListener = (message: WSMessage) => void;
+type ErrorListener = (error: string) => void;
+
 const DEFAULT_CONFIG: WebSocketConfig = {
   url: 'wss://api.hyperliquid.xyz/ws',
   reconnectAttempts: 5,
   reconnectInterval: 3000,
-  heartbeatInterval: 30000,
-  subscriptions: []
+  heartbeatInterval: 30000
 };
 
-export const useHyperliquidWebSocket = (
-  config: Partial<WebSocketConfig> = {},
-  onMessage?: (message: WSMessage) => void,
-  onError?: (error: string) => void
-) => {
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const heartbeatTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const pingTimeRef = useRef<number>(0);
-  
-  const [state, setState] = useState<WebSocketState>({
+const DEFAULT_CONNECTION = 'default';
+const ALL_CHANNELS = '*';
+
+// One WebSocket shared by every hook using the same connection key. The
+// socket opens with the first hook and closes after the last one unmounts.
+// Subscriptions are reference counted: the exchange is asked to subscribe
+// when the first hook needs a feed and to unsubscribe when the last one lets
+// go, and every held subscription is sent again after a reconnect.
+class HyperliquidSocket {
+  private static connections = new Map<string, HyperliquidSocket>();
+
+  private ws: WebSocket | null = null;
+  private users = 0;
+  private closeTimeout: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private pingTime = 0;
+  private subscriptions = new Map<string, { subscription: WSSubscription['subscription']; count: number }>();
+  private messageListeners = new Map<string, Set<MessageListener>>();
+  private errorListeners = new Set<ErrorListener>();
+  private stateListeners = new Set<() => void>();
+  private state: WebSocketState = {
     isConnected: false,
     isConnecting: false,
-    lastMessage: null,
     error: null,
     reconnectCount: 0,
     latency: 0
-  });
+  };
+
+  private constructor(private key: string, private config: WebSocketConfig) {}
+
+  public static get(key = DEFAULT_CONNECTION): HyperliquidSocket {
+    let socket = HyperliquidSocket.connections.get(key);
+    if (!socket) {
+      socket = new HyperliquidSocket(key, DEFAULT_CONFIG);
+      HyperliquidSocket.connections.set(key, socket);
+    }
+    return socket;
+  }
+
+  getState = (): WebSocketState => this.state;
+
+  subscribeToState = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
 
-  const wsConfig = { ...DEFAULT_CONFIG, ...config };
+  private setState(changes: Partial<WebSocketState>) {
+    this.state = { ...this.state, ...changes };
+    this.stateListeners.forEach(listener => listener());
+  }
+
+  // Hold the connection open; returns the release function
+  acquire(): () => void {
+    this.users++;
+    if (this.closeTimeout) {
+      clearTimeout(this.closeTimeout);
+      this.closeTimeout = null;
+    }
+    this.connect();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.users--;
+      // Deferred so a remount in the same tick keeps the socket
+      if (this.users === 0) {
+        this.closeTimeout = setTimeout(() => {
+          this.closeTimeout = null;
+          if (this.users === 0) this.disconnect();
+        }, 0);
+      }
+    };
+  }
+
+  addMessageListener(channels: string[], listener: MessageListener): () => void {
+    channels.forEach(channel => {
+      const listeners = this.messageListeners.get(channel) ?? new Set();
+      listeners.add(listener);
+      this.messageListeners.set(channel, listeners);
+    });
+    return () => {
+      channels.forEach(channel => this.messageListeners.get(channel)?.delete(listener));
+    };
+  }
+
+  addErrorListener(listener: ErrorListener): () => void {
+    this.errorListeners.add(listener);
+    return () => {
+      this.errorListeners.delete(listener);
+    };
+  }
 
   // Send message with error handling
-  const sendMessage = useCallback((message: any) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+  send = (message: unknown): boolean => {
+    if (this.ws?.readyState === WebSocket.OPEN) {
       try {
-        wsRef.current.send(JSON.stringify(message));
+        this.ws.send(JSON.stringify(message));
         return true;
       } catch (error) {
         console.error('Failed to send WebSocket message:', error);
@@ -97,38 +184,56 @@ export const useHyperliquidWebSocket = (
       }
     }
     return false;
-  }, []);
+  };
+
+  subscribe = (subscription: WSSubscription): boolean => {
+    const key = JSON.stringify(subscription.subscription);
+    const held = this.subscriptions.get(key);
+    if (held) {
+      held.count++;
+      return true;
+    }
 
-  // Subscribe to channels
-  const subscribe = useCallback((subscription: WSSubscription) => {
-    return sendMessage(subscription);
-  }, [sendMessage]);
+    this.subscriptions.set(key, { subscription: subscription.subscription, count: 1 });
+    // Sent on open when the socket isn't ready yet
+    return this.send(subscription);
+  };
 
-  // Unsubscribe from channels
-  const unsubscribe = useCallback((subscription: Omit<WSSubscription, 'method'>) => {
-    return sendMessage({
-      method: 'unsubscribe',
-      subscription
-    });
-  }, [sendMessage]);
+  unsubscribe = (subscription: Omit<WSSubscription, 'method'>): boolean => {
+    const key = JSON.stringify(subscription.subscription);
+    const held = this.subscriptions.get(key);
+    if (!held) return false;
 
-  // Send ping for latency measurement
-  const sendPing = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      pingTimeRef.current = Date.now();
-      sendMessage({ method: 'ping' });
+    held.count--;
+    if (held.count > 0) return true;
+
+    this.subscriptions.delete(key);
+    return this.send({ method: 'unsubscribe', ...subscription });
+  };
+
+  private emitError(error: string) {
+    this.errorListeners.forEach(listener => listener(error));
+  }
+
+  // Status toasts come from the shared connection only
+  private notify(show: () => void) {
+    if (this.key === DEFAULT_CONNECTION) show();
+  }
+
+  private sendPing = () => {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.pingTime = Date.now();
+      this.send({ method: 'ping' });
     }
-  }, [sendMessage]);
+  };
 
-  // Handle incoming messages
-  const handleMessage = useCallback((event: MessageEvent) => {
+  private handleMessage = (event: MessageEvent) => {
     try {
       const data = JSON.parse(event.data);
-      
+
       // Handle pong response for latency calculation
       if (data.method === 'pong') {
-        const latency = Date.now() - pingTimeRef.current;
-        setState(prev => ({ ...prev, latency }));
+        this.setState({ latency: Date.now() - this.pingTime });
         return;
       }
 
@@ -138,160 +243,173 @@ export const useHyperliquidWebSocket = (
         timestamp: Date.now()
       };
 
-      setState(prev => ({ ...prev, lastMessage: message, error: null }));
-      onMessage?.(message);
-
+      if (this.state.error) this.setState({ error: null });
+      this.messageListeners.get(message.channel)?.forEach(listener => listener(message));
+      this.messageListeners.get(ALL_CHANNELS)?.forEach(listener => listener(message));
     } catch (error) {
       console.error('Failed to parse WebSocket message:', error);
-      setState(prev => ({ ...prev, error: 'Failed to parse message' }));
+      this.setState({ error: 'Failed to parse message' });
     }
-  }, [onMessage]);
+  };
 
-  // Handle connection open
-  const handleOpen = useCallback(() => {
+  private handleOpen = () => {
     console.log('WebSocket connected to Hyperliquid');
-    
-    setState(prev => ({ 
-      ...prev, 
-      isConnected: true, 
-      isConnecting: false, 
-      error: null,
-      reconnectCount: 0 
-    }));
-
-    // Send initial subscriptions
-    wsConfig.subscriptions.forEach(subscription => {
-      setTimeout(() => subscribe(subscription), 100);
-    });
+
+    this.setState({ isConnected: true, isConnecting: false, error: null, reconnectCount: 0 });
+
+    // Restore every subscription held while the socket was down
+    this.subscriptions.forEach(({ subscription }) => this.send({ method: 'subscribe', subscription }));
 
     // Start heartbeat
-    if (heartbeatTimeoutRef.current) {
-      clearInterval(heartbeatTimeoutRef.current);
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
     }
-    heartbeatTimeoutRef.current = setInterval(sendPing, wsConfig.heartbeatInterval);
+    this.heartbeatInterval = setInterval(this.sendPing, this.config.heartbeatInterval);
 
-    toast.success('Real-time data connected');
-  }, [subscribe, sendPing, wsConfig.subscriptions, wsConfig.heartbeatInterval]);
+    this.notify(() => toast.success('Real-time data connected'));
+  };
 
-  // Handle connection close
-  const handleClose = useCallback((event: CloseEvent) => {
+  private handleClose = (event: CloseEvent) => {
     console.log('WebSocket disconnected:', event.code, event.reason);
-    
-    setState(prev => ({ 
-      ...prev, 
-      isConnected: false, 
-      isConnecting: false 
-    }));
+
+    this.ws = null;
+    this.setState({ isConnected: false, isConnecting: false });
 
     // Clear heartbeat
-    if (heartbeatTimeoutRef.current) {
-      clearInterval(heartbeatTimeoutRef.current);
-      heartbeatTimeoutRef.current = null;
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
     }
 
     // Attempt reconnection if not intentional close
-    if (event.code !== 1000 && state.reconnectCount < wsConfig.reconnectAttempts) {
-      const delay = wsConfig.reconnectInterval * Math.pow(2, state.reconnectCount);
-      console.log(`Reconnecting in ${delay}ms (attempt ${state.reconnectCount + 1})`);
-      
-      setState(prev => ({ 
-        ...prev, 
-        reconnectCount: prev.reconnectCount + 1,
-        error: `Connection lost. Reconnecting... (${prev.reconnectCount + 1}/${wsConfig.reconnectAttempts})`
-      }));
-
-      reconnectTimeoutRef.current = setTimeout(() => {
-        connect();
+    if (event.code === 1000 || this.users === 0) return;
+
+    const { reconnectCount } = this.state;
+    if (reconnectCount < this.config.reconnectAttempts) {
+      const delay = this.config.reconnectInterval * Math.pow(2, reconnectCount);
+      const error = `Connection lost. Reconnecting... (${reconnectCount + 1}/${this.config.reconnectAttempts})`;
+      console.log(`Reconnecting in ${delay}ms (attempt ${reconnectCount + 1})`);
+
+      this.setState({ reconnectCount: reconnectCount + 1, error });
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect();
       }, delay);
 
-      toast.error(`Connection lost. Reconnecting... (${state.reconnectCount + 1}/${wsConfig.reconnectAttempts})`);
-    } else if (state.reconnectCount >= wsConfig.reconnectAttempts) {
-      setState(prev => ({ 
-        ...prev, 
-        error: 'Failed to reconnect after maximum attempts' 
-      }));
-      toast.error('Failed to reconnect to real-time data');
-      onError?.('Failed to reconnect after maximum attempts');
+      this.notify(() => toast.error(error));
+    } else {
+      this.setState({ error: 'Failed to reconnect after maximum attempts' });
+      this.notify(() => toast.error('Failed to reconnect to real-time data'));
+      this.emitError('Failed to reconnect after maximum attempts');
     }
-  }, [state.reconnectCount, wsConfig.reconnectAttempts, wsConfig.reconnectInterval, onError]);
+  };
 
-  // Handle connection error
-  const handleError = useCallback((event: Event) => {
+  private handleError = (event: Event) => {
     console.error('WebSocket error:', event);
     const errorMessage = 'WebSocket connection error';
-    
-    setState(prev => ({ 
-      ...prev, 
-      error: errorMessage,
-      isConnecting: false 
-    }));
-    
-    onError?.(errorMessage);
-  }, [onError]);
 
-  // Connect to WebSocket
-  const connect = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      return; // Already connected
+    this.setState({ error: errorMessage, isConnecting: false });
+    this.emitError(errorMessage);
+  };
+
+  connect = () => {
+    if (this.ws || this.reconnectTimeout) {
+      return; // Already connected, connecting or waiting to reconnect
     }
 
-    setState(prev => ({ ...prev, isConnecting: true, error: null }));
+    this.setState({ isConnecting: true, error: null });
 
     try {
-      wsRef.current = new WebSocket(wsConfig.url);
-      
-      wsRef.current.onopen = handleOpen;
-      wsRef.current.onmessage = handleMessage;
-      wsRef.current.onclose = handleClose;
-      wsRef.current.onerror = handleError;
+      this.ws = new WebSocket(this.config.url);
 
+      this.ws.onopen = this.handleOpen;
+      this.ws.onmessage = this.handleMessage;
+      this.ws.onclose = this.handleClose;
+      this.ws.onerror = this.handleError;
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
-      setState(prev => ({ 
-        ...prev, 
-        isConnecting: false, 
-        error: 'Failed to create connection' 
-      }));
+      this.ws = null;
+      this.setState({ isConnecting: false, error: 'Failed to create connection' });
     }
-  }, [wsConfig.url, handleOpen, handleMessage, handleClose, handleError]);
+  };
 
-  // Disconnect from WebSocket
-  const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
+  disconnect = () => {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
     }
-    
-    if (heartbeatTimeoutRef.current) {
-      clearInterval(heartbeatTimeoutRef.current);
-      heartbeatTimeoutRef.current = null;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
     }
 
-    if (wsRef.current) {
-      wsRef.current.close(1000, 'Intentional disconnect');
-      wsRef.current = null;
+    if (this.ws) {
+      // Detached first so a late close event can't touch the next socket
+      this.ws.onopen = this.ws.onmessage = this.ws.onclose = this.ws.onerror = null;
+      this.ws.close(1000, 'Intentional disconnect');
+      this.ws = null;
     }
 
-    setState(prev => ({ 
-      ...prev, 
-      isConnected: false, 
-      isConnecting: false,
-      reconnectCount: 0,
-      error: null 
-    }));
-  }, []);
+    this.setState({ isConnected: false, isConnecting: false, reconnectCount: 0, error: null });
+  };
 
   // Force reconnection
-  const reconnect = useCallback(() => {
-    disconnect();
-    setTimeout(connect, 1000);
-  }, [disconnect, connect]);
+  reconnect = () => {
+    this.disconnect();
+    setTimeout(() => {
+      if (this.users > 0) this.connect();
+    }, 1000);
+  };
+}
 
-  // Auto-connect on mount
+// A consumer of the shared Hyperliquid connection. Each hook receives the
+// messages of its channels, and subscriptions it makes are released through
+// the matching unsubscribe call or, for config subscriptions, on unmount.
+export const useHyperliquidWebSocket = (
+  config: Partial<StreamConfig> = {},
+  onMessage?: (message: WSMessage) => void,
+  onError?: (error: string) => void
+) => {
+  const socket = HyperliquidSocket.get(config.connection);
+  const state = useSyncExternalStore(socket.subscribeToState, socket.getState);
+
+  const onMessageRef = useRef(onMessage);
+  const onErrorRef = useRef(onError);
   useEffect(() => {
-    connect();
-    return disconnect;
-  }, []);
+    onMessageRef.current = onMessage;
+    onErrorRef.current = onError;
+  }, [onMessage, onError]);
+
+  const channelsKey = (config.channels ?? [ALL_CHANNELS]).join(',');
+
+  useEffect(() => {
+    const release = socket.acquire();
+    const removeMessageListener = socket.addMessageListener(
+      channelsKey.split(','),
+      message => onMessageRef.current?.(message)
+    );
+    const removeErrorListener = socket.addErrorListener(error => onErrorRef.current?.(error));
+
+    return () => {
+      removeMessageListener();
+      removeErrorListener();
+      release();
+    };
+  }, [socket, channelsKey]);
+
+  // Hold the config subscriptions while mounted
+  const subscriptionsKey = JSON.stringify(config.subscriptions ?? []);
+
+  useEffect(() => {
+    const subscriptions: WSSubscription[] = JSON.parse(subscriptionsKey);
+    subscriptions.forEach(socket.subscribe);
+    return () => {
+      subscriptions.forEach(socket.unsubscribe);
+    };
+  }, [socket, subscriptionsKey]);
+
+  const { subscribe, unsubscribe, send: sendMessage } = socket;
 
   // Subscribe to all mids (ticker data)
   const subscribeToAllMids = useCallback(() => {
@@ -301,14 +419,35 @@ export const useHyperliquidWebSocket = (
     });
   }, [subscribe]);
 
-  // Subscribe to orderbook for specific coin
-  const subscribeToOrderBook = useCallback((coin: string) => {
+  // Subscribe to orderbook for specific coin, optionally grouped by price
+  const subscribeToOrderBook = useCallback((coin: string, grouping?: BookGrouping) => {
     subscribe({
       method: 'subscribe',
-      subscription: { type: 'orderbook', coin }
+      subscription: { type: 'l2Book', coin, ...grouping }
     });
   }, [subscribe]);
 
+  // Unsubscribe from a coin's orderbook; the grouping must match the subscription
+  const unsubscribeFromOrderBook = useCallback((coin: string, grouping?: BookGrouping) => {
+    unsubscribe({
+      subscription: { type: 'l2Book', coin, ...grouping }
+    });
+  }, [unsubscribe]);
+
+  // Subscribe to live candles for a coin and interval
+  const subscribeToCandles = useCallback((coin: string, interval: string) => {
+    subscribe({
+      method: 'subscribe',
+      subscription: { type: 'candle', coin, interval }
+    });
+  }, [subscribe]);
+
+  const unsubscribeFromCandles = useCallback((coin: string, interval: string) => {
+    unsubscribe({
+      subscription: { type: 'candle', coin, interval }
+    });
+  }, [unsubscribe]);
+
   // Subscribe to trades for specific coin
   const subscribeToTrades = useCallback((coin: string) => {
     subscribe({
@@ -317,7 +456,13 @@ export const useHyperliquidWebSocket = (
     });
   }, [subscribe]);
 
-  // Subscribe to user events
+  const unsubscribeFromTrades = useCallback((coin: string) => {
+    unsubscribe({
+      subscription: { type: 'trades', coin }
+    });
+  }, [unsubscribe]);
+
+  // Subscribe to user events; they arrive on the "user" channel
   const subscribeToUserEvents = useCallback((user: string) => {
     subscribe({
       method: 'subscribe',
@@ -325,14 +470,48 @@ export const useHyperliquidWebSocket = (
     });
   }, [subscribe]);
 
+  const unsubscribeFromUserEvents = useCallback((user: string) => {
+    unsubscribe({
+      subscription: { type: 'userEvents', user }
+    });
+  }, [unsubscribe]);
+
+  // Subscribe to a user's fills, starting with a snapshot of recent ones
+  const subscribeToUserFills = useCallback((user: string) => {
+    subscribe({
+      method: 'subscribe',
+      subscription: { type: 'userFills', user }
+    });
+  }, [subscribe]);
+
+  const unsubscribeFromUserFills = useCallback((user: string) => {
+    unsubscribe({
+      subscription: { type: 'userFills', user }
+    });
+  }, [unsubscribe]);
+
+  // Subscribe to status changes of a user's orders
+  const subscribeToOrderUpdates = useCallback((user: string) => {
+    subscribe({
+      method: 'subscribe',
+      subscription: { type: 'orderUpdates', user }
+    });
+  }, [subscribe]);
+
+  const unsubscribeFromOrderUpdates = useCallback((user: string) => {
+    unsubscribe({
+      subscription: { type: 'orderUpdates', user }
+    });
+  }, [unsubscribe]);
+
   return {
     // State
     ...state,
     
-    // Actions
-    connect,
-    disconnect,
-    reconnect,
+    // Actions on the shared connection
+    connect: socket.connect,
+    disconnect: socket.disconnect,
+    reconnect: socket.reconnect,
     subscribe,
     unsubscribe,
     sendMessage,
@@ -340,8 +519,17 @@ export const useHyperliquidWebSocket = (
     // Convenience methods
     subscribeToAllMids,
     subscribeToOrderBook,
+    unsubscribeFromOrderBook,
+    subscribeToCandles,
+    unsubscribeFromCandles,
     subscribeToTrades,
-    subscribeToUserEvents
+    unsubscribeFromTrades,
+    subscribeToUserEvents,
+    unsubscribeFromUserEvents,
+    subscribeToUserFills,
+    unsubscribeFromUserFills,
+    subscribeToOrderUpdates,
+    unsubscribeFromOrderUpdates
   };
 };
 
@@ -373,15 +561,24 @@ export const useMarketDataStream = (coins: string[] = []) => {
     handleMessage
   );
 
+  const { subscribeToOrderBook, unsubscribeFromOrderBook, subscribeToTrades, unsubscribeFromTrades } = ws;
+
+  const coinsKey = coins.join(',');
+
   // Subscribe to specific coins
   useEffect(() => {
-    if (ws.isConnected && coins.length > 0) {
+    const coins = coinsKey ? coinsKey.split(',') : [];
+    coins.forEach(coin => {
+      subscribeToOrderBook(coin);
+      subscribeToTrades(coin);
+    });
+    return () => {
       coins.forEach(coin => {
-        ws.subscribeToOrderBook(coin);
-        ws.subscribeToTrades(coin);
+        unsubscribeFromOrderBook(coin);
+        unsubscribeFromTrades(coin);
       });
-    }
-  }, [ws.isConnected, coins, ws]);
+    };
+  }, [coinsKey, subscribeToOrderBook, unsubscribeFromOrderBook, subscribeToTrades, unsubscribeFromTrades]);
 
   return {
     marketData,
@@ -397,7 +594,7 @@ export const useUserDataStream = (userAddress?: string) => {
   const [lastUpdate, setLastUpdate] = useState<number>(0);
 
   const handleMessage = useCallback((message: WSMessage) => {
-    if (message.channel === 'userEvents') {
+    if (message.channel === 'user') {
       setUserEvents(prev => [...prev, message.data]);
       if (message.data.fills?.length > 0) {
         setFills(prev => [...prev, ...message.data.fills]);
@@ -415,13 +612,6 @@ export const useUserDataStream = (userAddress?: string) => {
     handleMessage
   );
 
-  // Subscribe when user address is available
-  useEffect(() => {
-    if (ws.isConnected && userAddress) {
-      ws.subscribeToUserEvents(userAddress);
-    }
-  }, [ws.isConnected, userAddress, ws]);
-
   return {
     userEvents,
     fills,
@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useRef } from 'react';
+import {
+  computeIndicator,
+  updateIndicator,
+  IndicatorConfig,
+  IndicatorSeries
+} from '@/lib/indicators';
+import type { Candle } from '@/lib/candles';
+
+// Indicator series for the configured indicators, kept in step with the candles.
+// Series are extended incrementally as candles stream in; changing an indicator's
+// config (a new object) recomputes just that indicator. Updates build on the
+// last committed series, so a render React throws away leaves no trace.
+export const useIndicators = (candles: Candle[], configs: IndicatorConfig[]) => {
+  const seriesRef = useRef(new Map<string, IndicatorSeries>());
+
+  const series = useMemo(() => {
+    const next = new Map<string, IndicatorSeries>();
+
+    configs.forEach(config => {
+      const previous = seriesRef.current.get(config.id);
+      next.set(
+        config.id,
+        previous && previous.config === config
+          ? updateIndicator(previous, candles)
+          : computeIndicator(config, candles)
+      );
+    });
+
+    return next;
+  }, [candles, configs]);
+
+  useEffect(() => {
+    seriesRef.current = series;
+  }, [series]);
+
+  return series;
+};
@@ -30,18 +30,44 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxDelay: 30000,
   backoffMultiplier: 2,
   retryCondition: (error) => {
-    // Retry on network errors, timeouts, and 5xx server errors
-    const retryablePatterns = [
-      /network/i,
-      /timeout/i,
-      /connection/i,
-      /fetch/i,
-      /cors/i,
-      /5\d{2}/
-    ];
-    return retryablePatterns.some(pattern => 
-      pattern.test(error?.message || error?.status?.toString() || '')
-    );
+    // Only retry requests that may not have reached the server, and 5xx
+    // server errors; anything else (bad signature, rejected order) fails
+    // the same way again
+    if (typeof error?.status === 'number') return error.status >= 500;
+    if (error?.code) return error.code === 'NETWORK_ERROR';
+
+    // fetch rejects with a TypeError when no response arrives
+    return error instanceof TypeError ||
+      error?.name === 'AbortError' ||
+      /network|timeout|connection/i.test(error?.message ?? '');
+  }
+};
+
+// Run an operation, retrying failures that match the retry condition with
+// exponential backoff while the network is up. Each attempt calls `operation`
+// again, so it must be safe to repeat.
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  retryConfig: Partial<RetryConfig> = {},
+  isOnline: () => boolean = () => navigator.onLine
+): Promise<T> => {
+  const config: RetryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
+
+  for (let attempts = 0; ; attempts++) {
+    try {
+      return await operation();
+    } catch (error) {
+      // No more retries or not retryable
+      if (attempts >= config.maxRetries || !config.retryCondition?.(error) || !isOnline()) {
+        throw error;
+      }
+
+      const delay = Math.min(
+        config.initialDelay * Math.pow(config.backoffMultiplier, attempts),
+        config.maxDelay
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
   }
 };
 
@@ -63,7 +89,6 @@ export const useNetworkRecovery = (options: NetworkRecoveryOptions = {}) => {
 
   const recoveryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const qualityCheckRef = useRef<NodeJS.Timeout | null>(null);
-  const retryAttemptsRef = useRef<Map<string, number>>(new Map());
 
   const config: RetryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
 
@@ -183,49 +208,17 @@ export const useNetworkRecovery = (options: NetworkRecoveryOptions = {}) => {
     attemptRecovery();
   }, [onlineCheckUrl, onConnectionRestored, config]);
 
-  // Retry function with exponential backoff
-  const retryWithBackoff = useCallback(async <T>(
-    operation: () => Promise<T>,
-    operationId: string = 'default'
-  ): Promise<T> => {
-    const attempts = retryAttemptsRef.current.get(operationId) || 0;
-
-    try {
-      const result = await operation();
-      // Reset attempts on success
-      retryAttemptsRef.current.delete(operationId);
-      return result;
-    } catch (error) {
-      // Check if we should retry
-      if (
-        attempts < config.maxRetries &&
-        config.retryCondition?.(error) &&
-        networkStatus.isOnline
-      ) {
-        const delay = Math.min(
-          config.initialDelay * Math.pow(config.backoffMultiplier, attempts),
-          config.maxDelay
-        );
-
-        retryAttemptsRef.current.set(operationId, attempts + 1);
-
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return retryWithBackoff(operation, operationId);
-      }
-
-      // No more retries or not retryable
-      retryAttemptsRef.current.delete(operationId);
-      throw error;
-    }
+  // Retry function with exponential backoff, using this hook's retry config
+  const retry = useCallback(<T>(operation: () => Promise<T>): Promise<T> => {
+    return retryWithBackoff(operation, config, () => networkStatus.isOnline);
   }, [config, networkStatus.isOnline]);
 
   // Enhanced fetch with retry
   const enhancedFetch = useCallback(async (
     url: string,
-    options?: RequestInit,
-    operationId?: string
+    options?: RequestInit
   ) => {
-    return retryWithBackoff(async () => {
+    return retry(async () => {
       if (!networkStatus.isOnline) {
         throw new Error('Network unavailable');
       }
@@ -242,7 +235,7 @@ export const useNetworkRecovery = (options: NetworkRecoveryOptions = {}) => {
         clearTimeout(timeoutId);
 
         if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          throw Object.assign(new Error(`HTTP ${response.status}: ${response.statusText}`), { status: response.status });
         }
 
         return response;
@@ -250,8 +243,8 @@ export const useNetworkRecovery = (options: NetworkRecoveryOptions = {}) => {
         clearTimeout(timeoutId);
         throw error;
       }
-    }, operationId || url);
-  }, [networkStatus.isOnline, retryWithBackoff]);
+    });
+  }, [networkStatus.isOnline, retry]);
 
   // Setup event listeners
   useEffect(() => {
@@ -288,7 +281,7 @@ export const useNetworkRecovery = (options: NetworkRecoveryOptions = {}) => {
 
   return {
     networkStatus,
-    retryWithBackoff,
+    retryWithBackoff: retry,
     enhancedFetch,
     checkConnectionQuality,
     forceReconnect: startRecoveryProcess
@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useHyperliquidWebSocket, WSMessage, WSOrderBookData } from './useHyperliquidWebSocket';
+import { hyperliquidAPI } from '@/lib/hyperliquid';
+import {
+  aggregateOrderBook,
+  getGroupingOptions,
+  AggregatedOrderBook,
+  BookGrouping,
+  FULL_PRECISION
+} from '@/lib/orderBook';
+
+// Live order book for a coin, fed by the l2Book WebSocket channel with a REST
+// snapshot to fill the gap until the first push arrives
+export const useOrderBook = (coin: string, initialGrouping: BookGrouping = FULL_PRECISION) => {
+  const [grouping, setGrouping] = useState<BookGrouping>(initialGrouping);
+  const [book, setBook] = useState<AggregatedOrderBook | null>(null);
+  const activeCoinRef = useRef<string | null>(null);
+
+  const handleMessage = useCallback((message: WSMessage) => {
+    if (message.channel !== 'l2Book') return;
+
+    const snapshot = message.data as WSOrderBookData;
+    // Ignore late pushes from a coin we have already switched away from
+    if (snapshot.coin !== activeCoinRef.current) return;
+
+    setBook(prev => aggregateOrderBook(snapshot, prev));
+  }, []);
+
+  // l2Book pushes don't say which grouping they are for, so grouped books get
+  // a connection of their own rather than mixing into full-precision ones
+  const connection = grouping.nSigFigs === null ? undefined : `l2Book:${grouping.nSigFigs}:${grouping.mantissa ?? ''}`;
+
+  const {
+    isConnected,
+    subscribeToOrderBook,
+    unsubscribeFromOrderBook
+  } = useHyperliquidWebSocket({ channels: ['l2Book'], connection }, handleMessage);
+
+  // Resubscribe whenever the coin or grouping changes. The book is reset so
+  // levels from a different grouping are not reported as size changes.
+  useEffect(() => {
+    if (!coin) return;
+
+    activeCoinRef.current = coin;
+    setBook(null);
+
+    hyperliquidAPI.getL2Book(coin, grouping)
+      .then(snapshot => {
+        if (activeCoinRef.current !== coin) return;
+        setBook(prev => prev ?? aggregateOrderBook(snapshot));
+      })
+      .catch(error => console.error('Failed to load order book snapshot:', error));
+
+    if (!isConnected) return;
+
+    subscribeToOrderBook(coin, grouping);
+    return () => {
+      unsubscribeFromOrderBook(coin, grouping);
+    };
+  }, [coin, grouping, isConnected, subscribeToOrderBook, unsubscribeFromOrderBook]);
+
+  // Grouping ticks only depend on the price's order of magnitude
+  const magnitude = book?.midPrice ? Math.floor(Math.log10(book.midPrice)) : null;
+  const groupingOptions = useMemo(
+    () => magnitude === null ? [] : getGroupingOptions(Math.pow(10, magnitude)),
+    [magnitude]
+  );
+
+  return {
+    book,
+    grouping,
+    setGrouping,
+    groupingOptions,
+    isConnected
+  };
+};
@@ -1,9 +1,38 @@
-import { useState } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { toast } from 'sonner';
 import { useAccount, useWalletClient } from 'wagmi';
 import { parseEther, formatUnits } from 'viem';
-import { hyperliquidAPI } from '@/lib/hyperliquid';
+import { hyperliquidAPI, hyperliquidExchange, parseOrderLookup } from '@/lib/hyperliquid';
+import { createCloid, floatToWire, isValidCloid, toHyperliquidSigner, HyperliquidSigner } from '@/lib/signing';
+import { AssetRegistry, MIN_ORDER_NOTIONAL, RegisteredAsset } from '@/lib/assetRegistry';
+import { MAX_TWAP_MINUTES, MIN_TWAP_MINUTES } from '@/lib/algoOrders';
+import { estimateOrderMargin, type MarginMode } from '@/lib/margin';
+import {
+  checkSlippage,
+  DEFAULT_MAX_SLIPPAGE,
+  estimateSlippage,
+  getSlippageLimitPrice,
+  PANIC_MAX_SLIPPAGE
+} from '@/lib/slippage';
+import { MIN_SCHEDULE_CANCEL_DELAY_MS } from '@/lib/deadMansSwitch';
+import {
+  applyOrderEvent,
+  type OrderLifecycleEvent,
+  type OrderTransition,
+  type TrackedOrder
+} from '@/lib/orderLifecycle';
+import type {
+  ActionResult,
+  HyperliquidError,
+  OpenOrder,
+  OrderExecutionResult,
+  OrderGrouping,
+  OrderTypeWire,
+  OrderWire,
+  TwapExecutionResult
+} from '@/types/hyperliquid';
 import { useWallet } from '@/contexts/WalletContext';
+import { retryWithBackoff } from './useNetworkRecovery';
 
 export interface OrderRequest {
   asset: string;
@@ -15,13 +44,30 @@ export interface OrderRequest {
   reduceOnly?: boolean;
   postOnly?: boolean;
   stopPrice?: number; // for stop orders
+  tpsl?: 'tp' | 'sl'; // trigger kind for stop orders, defaults to stop loss
+  leverage?: number; // leverage for the margin check, defaults to the position's
+  maxSlippage?: number; // for market orders, as a fraction of mid; defaults to DEFAULT_MAX_SLIPPAGE
+  cloid?: string; // client order ID, generated on submission when not given
 }
 
-export interface OrderExecutionResult {
-  success: boolean;
-  orderId?: string;
-  transactionHash?: string;
-  error?: string;
+export type { OrderExecutionResult, TwapExecutionResult };
+
+export interface TwapRequest {
+  asset: string;
+  isBuy: boolean;
+  size: number;
+  minutes: number;
+  randomize?: boolean;
+  reduceOnly?: boolean;
+  leverage?: number;
+}
+
+// One order's or position's outcome in a bulk cancel or close
+export interface BulkActionResult {
+  asset: string;
+  action: 'cancel' | 'close';
+  detail: string;
+  result: OrderExecutionResult;
 }
 
 export interface PositionAdjustment {
@@ -30,9 +76,57 @@ export interface PositionAdjustment {
   price?: number; // for limit orders
 }
 
+/**
+ * Rebuild the request for a resting order with its price moved, for use with modify.
+ * Trigger orders move their trigger; a stop-limit keeps its limit the same distance away.
+ */
+export const repriceOpenOrder = (order: OpenOrder, price: number, size?: number): OrderRequest => {
+  const base = {
+    asset: order.coin,
+    isBuy: order.side === 'B',
+    size: size ?? parseFloat(order.sz),
+    reduceOnly: order.reduceOnly,
+    cloid: order.cloid ?? undefined
+  };
+
+  if (!order.isTrigger) {
+    return {
+      ...base,
+      orderType: 'limit',
+      price,
+      postOnly: order.tif === 'Alo',
+      timeInForce: order.tif === 'Ioc' ? 'ioc' : undefined
+    };
+  }
+
+  const tpsl = order.orderType?.startsWith('Take Profit') ? 'tp' : 'sl';
+  if (order.orderType?.includes('Market') ?? true) {
+    return { ...base, orderType: 'stop', stopPrice: price, tpsl };
+  }
+
+  const triggerPrice = parseFloat(order.triggerPx || order.limitPx);
+  return {
+    ...base,
+    orderType: 'stopLimit',
+    stopPrice: price,
+    price: parseFloat(order.limitPx) + (price - triggerPrice),
+    tpsl
+  };
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof Error) return error.message;
+  return (error as HyperliquidError)?.message || fallback;
+};
+
+// Give an order a client ID so the exchange's reports can be matched to it
+const withCloid = (order: OrderRequest): OrderRequest => ({ ...order, cloid: order.cloid ?? createCloid() });
+
 // Order execution service for Hyperliquid
 export class OrderExecutionService {
   private static instance: OrderExecutionService;
+  private trackedOrders: TrackedOrder[] = [];
+  private orderListeners = new Set<(transition: OrderTransition) => void>();
 
   public static getInstance(): OrderExecutionService {
     if (!OrderExecutionService.instance) {
@@ -44,60 +138,42 @@ export class OrderExecutionService {
   // Execute a single order
   async executeOrder(
     order: OrderRequest,
-    walletClient: any,
+    signer: HyperliquidSigner,
     address: string
   ): Promise<OrderExecutionResult> {
-    try {
-      // Validate order parameters
-      const validation = this.validateOrder(order);
-      if (!validation.valid) {
-        throw new Error(validation.error);
-      }
-
-      // Get market data for calculations
-      const marketData = await hyperliquidAPI.getMarketData(order.asset);
-      if (!marketData) {
-        throw new Error(`Market data not available for ${order.asset}`);
-      }
-
-      // Calculate order price
-      const orderPrice = this.calculateOrderPrice(order, marketData);
+    let keys: string[] = [];
 
-      // Check margin requirements
-      const marginCheck = await this.checkMarginRequirements(order, orderPrice, address);
-      if (!marginCheck.sufficient) {
-        throw new Error(`Insufficient margin. Required: $${marginCheck.required}, Available: $${marginCheck.available}`);
-      }
-
-      // Prepare order payload for Hyperliquid
-      const orderPayload = this.prepareOrderPayload(order, orderPrice);
+    try {
+      const request = withCloid(order);
+      const orderWire = await this.prepareOrder(request, address);
 
       // Sign and submit order
-      const signature = await this.signOrder(orderPayload, walletClient);
-      const result = await this.submitOrder(orderPayload, signature);
-
-      // Track order
-      if (result.success && result.orderId) {
-        this.trackOrder(result.orderId, order);
-      }
+      keys = this.trackSigning([request], [orderWire]);
+      const [result] = await retryWithBackoff(this.submitOrders([orderWire], signer, address));
+      this.trackResults(keys, [result]);
 
       return result;
 
     } catch (error) {
       console.error('Order execution failed:', error);
-      return {
+      const result = {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: getErrorMessage(error, 'Unknown error occurred')
       };
+      this.trackResults(keys, [result]);
+      return result;
     }
   }
 
-  // Execute multiple orders atomically
+  // Execute multiple orders atomically, optionally grouped as entry/TP/SL
   async executeBatchOrders(
     orders: OrderRequest[],
-    walletClient: any,
-    address: string
+    signer: HyperliquidSigner,
+    address: string,
+    grouping: OrderGrouping = 'na'
   ): Promise<OrderExecutionResult[]> {
+    let keys: string[] = [];
+
     try {
       // Validate all orders first
       for (const order of orders) {
@@ -107,35 +183,318 @@ export class OrderExecutionService {
         }
       }
 
-      // Execute orders in sequence for now
-      // In production, this could be optimized with batch transactions
-      const results: OrderExecutionResult[] = [];
-      
-      for (const order of orders) {
-        const result = await this.executeOrder(order, walletClient, address);
-        results.push(result);
-        
-        // If any order fails, consider stopping or continuing based on strategy
+      // Submit every order in a single signed action
+      const requests = orders.map(withCloid);
+      const orderWires = await Promise.all(requests.map(order => this.prepareOrder(order, address)));
+      keys = this.trackSigning(requests, orderWires);
+      const results = await retryWithBackoff(this.submitOrders(orderWires, signer, address, grouping));
+      this.trackResults(keys, results);
+
+      results.forEach((result, index) => {
         if (!result.success) {
-          console.warn(`Order failed for ${order.asset}:`, result.error);
+          console.warn(`Order failed for ${orders[index].asset}:`, result.error);
         }
-      }
+      });
 
       return results;
 
     } catch (error) {
       console.error('Batch order execution failed:', error);
-      return orders.map(() => ({
+      const results = orders.map(() => ({
+        success: false,
+        error: getErrorMessage(error, 'Batch execution failed')
+      }));
+      this.trackResults(keys, results);
+      return results;
+    }
+  }
+
+  // Place a scale ladder of limit orders in one action. The ladder is
+  // margin-checked as a whole, and sizes are lot-rounded so the levels add up
+  // to the rounded total, with the rounding remainder on the last level.
+  async executeScaleOrders(
+    orders: OrderRequest[],
+    signer: HyperliquidSigner,
+    address: string
+  ): Promise<OrderExecutionResult[]> {
+    let keys: string[] = [];
+
+    try {
+      const [first] = orders;
+      if (!first) {
+        throw new Error('Scale order has no levels');
+      }
+      if (orders.some(order => order.asset !== first.asset || order.isBuy !== first.isBuy)) {
+        throw new Error('Scale levels must share an asset and side');
+      }
+      for (const order of orders) {
+        const validation = this.validateOrder(order);
+        if (!validation.valid) {
+          throw new Error(`Invalid order for ${order.asset}: ${validation.error}`);
+        }
+      }
+
+      const registry = await hyperliquidAPI.getAssetRegistry();
+      const asset = registry.resolveTradable(first.asset);
+
+      const totalSize = registry.roundSize(asset, orders.reduce((sum, order) => sum + order.size, 0));
+      let allocated = 0;
+      const levels = orders.map((order, index) => {
+        const size = index === orders.length - 1 ? totalSize - allocated : order.size;
+        const normalized = registry.normalizeOrder(asset, order.price!, size);
+        if (normalized.error) {
+          throw new Error(`Level ${index + 1}: ${normalized.error}`);
+        }
+        if (!order.reduceOnly && normalized.price * normalized.size < MIN_ORDER_NOTIONAL) {
+          throw new Error(`Level ${index + 1}: order value must be at least $${MIN_ORDER_NOTIONAL}`);
+        }
+
+        allocated += normalized.size;
+        return normalized;
+      });
+
+      // One check for the whole ladder at its average price
+      if (!first.reduceOnly) {
+        const notional = levels.reduce((sum, level) => sum + level.price * level.size, 0);
+        const marginCheck = await this.checkMarginRequirements(
+          { ...first, size: totalSize },
+          notional / totalSize,
+          address
+        );
+        if (!marginCheck.sufficient) {
+          throw new Error(marginCheck.error);
+        }
+      }
+
+      const requests = orders.map(withCloid);
+      const orderWires = levels.map((level, index) => this.prepareOrderPayload(requests[index], asset, level, registry));
+      keys = this.trackSigning(requests, orderWires);
+      const results = await retryWithBackoff(this.submitOrders(orderWires, signer, address));
+      this.trackResults(keys, results);
+
+      return results;
+
+    } catch (error) {
+      console.error('Scale order execution failed:', error);
+      const results = orders.map(() => ({
+        success: false,
+        error: getErrorMessage(error, 'Scale order failed')
+      }));
+      this.trackResults(keys, results);
+      return results;
+    }
+  }
+
+  // Hand a size to the exchange to execute in slices over a duration
+  async executeTwapOrder(
+    twap: TwapRequest,
+    signer: HyperliquidSigner,
+    address: string
+  ): Promise<TwapExecutionResult> {
+    try {
+      if (!Number.isInteger(twap.minutes) || twap.minutes < MIN_TWAP_MINUTES || twap.minutes > MAX_TWAP_MINUTES) {
+        throw new Error(`TWAP duration must be between ${MIN_TWAP_MINUTES} and ${MAX_TWAP_MINUTES} minutes`);
+      }
+
+      const registry = await hyperliquidAPI.getAssetRegistry();
+      const asset = registry.resolveTradable(twap.asset);
+      const marketData = await hyperliquidAPI.getMarketData(asset.name);
+
+      const normalized = registry.normalizeOrder(asset, marketData.markPrice, twap.size);
+      if (normalized.error) {
+        throw new Error(normalized.error);
+      }
+
+      if (!twap.reduceOnly) {
+        const marginCheck = await this.checkMarginRequirements(
+          { asset: twap.asset, isBuy: twap.isBuy, size: normalized.size, orderType: 'market', leverage: twap.leverage },
+          normalized.price,
+          address
+        );
+        if (!marginCheck.sufficient) {
+          throw new Error(marginCheck.error);
+        }
+      }
+
+      return await hyperliquidExchange.twapOrder({
+        a: asset.index,
+        b: twap.isBuy,
+        s: floatToWire(normalized.size),
+        r: twap.reduceOnly || false,
+        m: twap.minutes,
+        t: twap.randomize || false
+      }, signer);
+    } catch (error) {
+      console.error('TWAP order failed:', error);
+      return {
+        success: false,
+        error: getErrorMessage(error, 'Failed to start TWAP')
+      };
+    }
+  }
+
+  // Stop a running TWAP order
+  async cancelTwapOrder(
+    asset: string,
+    twapId: number,
+    signer: HyperliquidSigner
+  ): Promise<TwapExecutionResult> {
+    try {
+      const registry = await hyperliquidAPI.getAssetRegistry();
+      return await hyperliquidExchange.twapCancel(registry.resolve(asset).index, twapId, signer);
+    } catch (error) {
+      console.error('TWAP cancellation failed:', error);
+      return {
+        success: false,
+        error: getErrorMessage(error, 'Failed to cancel TWAP')
+      };
+    }
+  }
+
+  // Cancel resting orders by exchange order ID
+  async cancelOrders(
+    cancels: Array<{ asset: string; oid: number }>,
+    signer: HyperliquidSigner
+  ): Promise<OrderExecutionResult[]> {
+    try {
+      const registry = await hyperliquidAPI.getAssetRegistry();
+      return await hyperliquidExchange.cancel(
+        cancels.map(({ asset, oid }) => ({ asset: registry.resolve(asset).index, oid })),
+        signer
+      );
+    } catch (error) {
+      console.error('Order cancellation failed:', error);
+      return cancels.map(() => ({
+        success: false,
+        error: getErrorMessage(error, 'Failed to cancel order')
+      }));
+    }
+  }
+
+  // Cancel resting orders by client order ID
+  async cancelOrdersByCloid(
+    cancels: Array<{ asset: string; cloid: string }>,
+    signer: HyperliquidSigner
+  ): Promise<OrderExecutionResult[]> {
+    try {
+      const registry = await hyperliquidAPI.getAssetRegistry();
+      return await hyperliquidExchange.cancelByCloid(
+        cancels.map(({ asset, cloid }) => ({ asset: registry.resolve(asset).index, cloid })),
+        signer
+      );
+    } catch (error) {
+      console.error('Order cancellation failed:', error);
+      return cancels.map(() => ({
         success: false,
-        error: error instanceof Error ? error.message : 'Batch execution failed'
+        error: getErrorMessage(error, 'Failed to cancel order')
       }));
     }
   }
 
+  // Replace a resting order's price, size or trigger in place
+  async modifyOrder(
+    oid: number | string, // exchange order ID or cloid
+    order: OrderRequest,
+    signer: HyperliquidSigner,
+    address: string
+  ): Promise<OrderExecutionResult> {
+    try {
+      const orderWire = await this.prepareOrder(order, address);
+      return await hyperliquidExchange.modify(oid, orderWire, signer);
+    } catch (error) {
+      console.error('Order modification failed:', error);
+      return {
+        success: false,
+        error: getErrorMessage(error, 'Failed to modify order')
+      };
+    }
+  }
+
+  // Set an asset's leverage and margin mode on the exchange
+  async updateLeverage(
+    asset: string,
+    leverage: number,
+    marginMode: MarginMode,
+    signer: HyperliquidSigner
+  ): Promise<ActionResult> {
+    try {
+      const registry = await hyperliquidAPI.getAssetRegistry();
+      const info = registry.resolveTradable(asset);
+
+      if (marginMode === 'cross' && info.onlyIsolated) {
+        throw new Error(`${info.name} only supports isolated margin`);
+      }
+      if (!Number.isInteger(leverage) || leverage < 1 || leverage > info.maxLeverage) {
+        throw new Error(`Leverage must be a whole number from 1x to ${info.maxLeverage}x`);
+      }
+
+      return await hyperliquidExchange.updateLeverage(info.index, leverage, marginMode === 'cross', signer);
+    } catch (error) {
+      console.error('Leverage update failed:', error);
+      return {
+        success: false,
+        error: getErrorMessage(error, 'Failed to update leverage')
+      };
+    }
+  }
+
+  // Add (positive amount) or remove (negative amount) USD margin on an isolated position
+  async updateIsolatedMargin(
+    asset: string,
+    amount: number,
+    signer: HyperliquidSigner,
+    address: string
+  ): Promise<ActionResult> {
+    try {
+      if (!Number.isFinite(amount) || amount === 0) {
+        throw new Error('Margin amount must be non-zero');
+      }
+
+      const [registry, clearinghouseState] = await Promise.all([
+        hyperliquidAPI.getAssetRegistry(),
+        hyperliquidAPI.getClearinghouseState(address)
+      ]);
+      const info = registry.resolve(asset);
+      const position = clearinghouseState.assetPositions.find(({ position }) => position.coin === info.name)?.position;
+
+      if (!position) {
+        throw new Error(`No open ${info.name} position`);
+      }
+      if (position.leverage.type !== 'isolated') {
+        throw new Error(`${info.name} position uses cross margin`);
+      }
+
+      return await hyperliquidExchange.updateIsolatedMargin(info.index, parseFloat(position.szi) > 0, amount, signer);
+    } catch (error) {
+      console.error('Isolated margin update failed:', error);
+      return {
+        success: false,
+        error: getErrorMessage(error, 'Failed to update margin')
+      };
+    }
+  }
+
+  // Have the exchange cancel all open orders at `time` (ms), or clear the schedule with null
+  async scheduleCancel(time: number | null, signer: HyperliquidSigner): Promise<ActionResult> {
+    try {
+      if (time !== null && time < Date.now() + MIN_SCHEDULE_CANCEL_DELAY_MS) {
+        throw new Error(`Scheduled cancel must be at least ${MIN_SCHEDULE_CANCEL_DELAY_MS / 1000} seconds away`);
+      }
+
+      return await hyperliquidExchange.scheduleCancel(time, signer);
+    } catch (error) {
+      console.error('Scheduling cancel failed:', error);
+      return {
+        success: false,
+        error: getErrorMessage(error, 'Failed to schedule cancel')
+      };
+    }
+  }
+
   // Adjust position size
   async adjustPosition(
     adjustment: PositionAdjustment,
-    walletClient: any,
+    signer: HyperliquidSigner,
     address: string
   ): Promise<OrderExecutionResult> {
     try {
@@ -163,7 +522,7 @@ export class OrderExecutionService {
         reduceOnly: adjustment.sizeDelta < 0
       };
 
-      return await this.executeOrder(order, walletClient, address);
+      return await this.executeOrder(order, signer, address);
 
     } catch (error) {
       console.error('Position adjustment failed:', error);
@@ -177,7 +536,7 @@ export class OrderExecutionService {
   // Close position completely
   async closePosition(
     asset: string,
-    walletClient: any,
+    signer: HyperliquidSigner,
     address: string
   ): Promise<OrderExecutionResult> {
     try {
@@ -199,7 +558,7 @@ export class OrderExecutionService {
         reduceOnly: true
       };
 
-      return await this.executeOrder(order, walletClient, address);
+      return await this.executeOrder(order, signer, address);
 
     } catch (error) {
       console.error('Position close failed:', error);
@@ -210,6 +569,157 @@ export class OrderExecutionService {
     }
   }
 
+  // Cancel every open order, or only one coin's
+  async cancelAllOrders(
+    signer: HyperliquidSigner,
+    address: string,
+    coin?: string
+  ): Promise<BulkActionResult[]> {
+    try {
+      const openOrders = await hyperliquidAPI.getOpenOrders(address);
+      const targets = coin
+        ? openOrders.filter(order => order.coin === AssetRegistry.toCoin(coin))
+        : openOrders;
+      if (targets.length === 0) return [];
+
+      const results = await this.cancelOrders(targets.map(({ coin, oid }) => ({ asset: coin, oid })), signer);
+
+      return targets.map((order, index) => ({
+        asset: order.coin,
+        action: 'cancel',
+        detail: `${order.side === 'B' ? 'Buy' : 'Sell'} ${order.sz} @ ${order.limitPx}`,
+        result: results[index] ?? { success: false, error: 'No status returned' }
+      }));
+    } catch (error) {
+      console.error('Cancel all failed:', error);
+      return [{
+        asset: coin ?? 'All',
+        action: 'cancel',
+        detail: 'Load open orders',
+        result: { success: false, error: getErrorMessage(error, 'Failed to load open orders') }
+      }];
+    }
+  }
+
+  // Flatten every position, or only one coin's, with reduce-only IOC orders.
+  // Each close is prepared on its own, so one market that can't be priced or
+  // sized (delisted, dust, no book) doesn't hold back the others; the rest go
+  // out in a single batch.
+  async closeAllPositions(
+    signer: HyperliquidSigner,
+    address: string,
+    coin?: string
+  ): Promise<BulkActionResult[]> {
+    try {
+      const clearinghouseState = await hyperliquidAPI.getClearinghouseState(address);
+      const targets = clearinghouseState.assetPositions
+        .map(({ position }) => position)
+        .filter(position => parseFloat(position.szi) !== 0)
+        .filter(position => !coin || position.coin === AssetRegistry.toCoin(coin));
+      if (targets.length === 0) return [];
+
+      const orders: OrderRequest[] = targets.map(position => withCloid({
+        asset: position.coin,
+        isBuy: parseFloat(position.szi) < 0, // opposite direction to close
+        size: Math.abs(parseFloat(position.szi)),
+        orderType: 'market',
+        reduceOnly: true,
+        maxSlippage: PANIC_MAX_SLIPPAGE
+      }));
+      const prepared = await Promise.allSettled(orders.map(order => this.prepareOrder(order, address)));
+
+      const results: OrderExecutionResult[] = prepared.map(outcome => outcome.status === 'rejected'
+        ? { success: false, error: getErrorMessage(outcome.reason, 'Failed to prepare close order') }
+        : { success: false, error: 'No status returned' }
+      );
+
+      const readyIndexes = prepared.flatMap((outcome, index) => outcome.status === 'fulfilled' ? [index] : []);
+      if (readyIndexes.length > 0) {
+        const readyOrders = readyIndexes.map(index => orders[index]);
+        const wires = readyIndexes.map(index => (prepared[index] as PromiseFulfilledResult<OrderWire>).value);
+        const keys = this.trackSigning(readyOrders, wires);
+
+        let submitted: OrderExecutionResult[];
+        try {
+          submitted = await retryWithBackoff(this.submitOrders(wires, signer, address, 'na'));
+        } catch (error) {
+          console.error('Close all submission failed:', error);
+          submitted = wires.map(() => ({ success: false, error: getErrorMessage(error, 'Batch execution failed') }));
+        }
+        this.trackResults(keys, submitted);
+
+        readyIndexes.forEach((targetIndex, index) => {
+          results[targetIndex] = submitted[index] ?? results[targetIndex];
+        });
+      }
+
+      return targets.map((position, index) => ({
+        asset: position.coin,
+        action: 'close',
+        detail: `Close ${parseFloat(position.szi) > 0 ? 'long' : 'short'} ${Math.abs(parseFloat(position.szi))}`,
+        result: results[index]
+      }));
+    } catch (error) {
+      console.error('Close all failed:', error);
+      return [{
+        asset: coin ?? 'All',
+        action: 'close',
+        detail: 'Load positions',
+        result: { success: false, error: getErrorMessage(error, 'Failed to load positions') }
+      }];
+    }
+  }
+
+  // Cancel all orders first, so nothing left resting can reopen exposure, then flatten all positions
+  async panicCloseAll(signer: HyperliquidSigner, address: string): Promise<BulkActionResult[]> {
+    const cancels = await this.cancelAllOrders(signer, address);
+    const closes = await this.closeAllPositions(signer, address);
+    return [...cancels, ...closes];
+  }
+
+  // Validate, price and margin-check an order, returning its wire form
+  private async prepareOrder(order: OrderRequest, address: string): Promise<OrderWire> {
+    const validation = this.validateOrder(order);
+    if (!validation.valid) {
+      throw new Error(`Invalid order for ${order.asset}: ${validation.error}`);
+    }
+
+    // Resolve the asset before anything reaches the signer
+    const registry = await hyperliquidAPI.getAssetRegistry();
+    const asset = registry.resolveTradable(order.asset);
+
+    // Get market data for calculations
+    const marketData = await hyperliquidAPI.getMarketData(asset.name);
+    if (!marketData) {
+      throw new Error(`Market data not available for ${asset.name}`);
+    }
+
+    // Calculate order price and snap price and size to tick/lot sizes
+    const price = await this.calculateOrderPrice(order, asset.name, marketData);
+    const normalized = registry.normalizeOrder(asset, price, order.size);
+    if (normalized.error) {
+      throw new Error(normalized.error);
+    }
+
+    if (!order.reduceOnly && normalized.price * normalized.size < MIN_ORDER_NOTIONAL) {
+      throw new Error(`Order value must be at least $${MIN_ORDER_NOTIONAL}`);
+    }
+
+    // Check margin requirements (reduce-only orders never add exposure)
+    if (!order.reduceOnly) {
+      const marginCheck = await this.checkMarginRequirements(
+        { ...order, size: normalized.size },
+        normalized.price,
+        address
+      );
+      if (!marginCheck.sufficient) {
+        throw new Error(marginCheck.error);
+      }
+    }
+
+    return this.prepareOrderPayload(order, asset, normalized, registry);
+  }
+
   // Validate order parameters
   private validateOrder(order: OrderRequest): { valid: boolean; error?: string } {
     if (!order.asset || order.asset.trim() === '') {
@@ -229,123 +739,223 @@ export class OrderExecutionService {
       return { valid: false, error: 'Stop orders require a valid stop price' };
     }
 
+    if (order.timeInForce === 'fok') {
+      return { valid: false, error: 'Fill-or-kill orders are not supported by Hyperliquid' };
+    }
+
+    if (order.cloid !== undefined && !isValidCloid(order.cloid)) {
+      return { valid: false, error: 'Client order ID must be 16 bytes of 0x-prefixed hex' };
+    }
+
     return { valid: true };
   }
 
   // Calculate effective order price
-  private calculateOrderPrice(order: OrderRequest, marketData: any): number {
+  private async calculateOrderPrice(order: OrderRequest, coin: string, marketData: any): Promise<number> {
     if (order.orderType === 'market') {
-      // Use mark price with slippage estimate
-      const markPrice = parseFloat(marketData.markPx);
-      const slippageMultiplier = order.isBuy ? 1.001 : 0.999; // 0.1% slippage estimate
-      return markPrice * slippageMultiplier;
+      // Check the book can fill the size within the max slippage, then cap the IOC price there
+      const maxSlippage = order.maxSlippage ?? DEFAULT_MAX_SLIPPAGE;
+      const book = await hyperliquidAPI.getL2Book(coin);
+      const estimate = estimateSlippage(book, order.isBuy, order.size);
+      const slippageError = checkSlippage(estimate, order.size, maxSlippage);
+      // Reduce-only orders may fill partly rather than not at all; the IOC limit still caps their price
+      if (slippageError && !(order.reduceOnly && estimate.midPrice !== null)) {
+        throw new Error(slippageError);
+      }
+      return getSlippageLimitPrice(estimate.midPrice ?? marketData.markPrice, order.isBuy, maxSlippage);
     }
 
-    return order.price || parseFloat(marketData.markPx);
+    if (order.orderType === 'stop' || order.orderType === 'stopLimit') {
+      // Trigger orders rest at their limit price, or the trigger price for market triggers
+      return order.price || order.stopPrice!;
+    }
+
+    return order.price || marketData.markPrice;
   }
 
-  // Check margin requirements
+  // Check the order against the account's margin using the asset's margin tiers
   private async checkMarginRequirements(
-    order: OrderRequest, 
-    price: number, 
+    order: OrderRequest,
+    price: number,
     address: string
-  ): Promise<{ sufficient: boolean; required: number; available: number }> {
+  ): Promise<{ sufficient: boolean; required: number; available: number; error?: string }> {
     try {
-      // Get clearinghouse state to check available margin
-      const clearinghouseState = await hyperliquidAPI.getClearinghouseState(address);
-      const availableMargin = typeof clearinghouseState.crossMaintenanceMarginUsed === 'string' 
-        ? parseFloat(clearinghouseState.crossMaintenanceMarginUsed) 
-        : (clearinghouseState.crossMaintenanceMarginUsed || 0);
-      
-      const notional = order.size * price;
-      
-      // Simplified margin calculation (in production, use proper margin requirements)
-      const marginRequirement = notional * 0.1; // 10x leverage assumption
-      
+      const [meta, registry, clearinghouseState] = await Promise.all([
+        hyperliquidAPI.getMeta(),
+        hyperliquidAPI.getAssetRegistry(),
+        hyperliquidAPI.getClearinghouseState(address)
+      ]);
+
+      const estimate = estimateOrderMargin(meta, registry.resolve(order.asset), clearinghouseState, {
+        isBuy: order.isBuy,
+        size: order.size,
+        price,
+        leverage: order.leverage
+      });
+
       return {
-        sufficient: availableMargin >= marginRequirement,
-        required: marginRequirement,
-        available: availableMargin
+        sufficient: estimate.sufficient,
+        required: estimate.requiredMargin,
+        available: estimate.available,
+        error: estimate.error
       };
     } catch (error) {
       console.error('Margin check failed:', error);
-      return { sufficient: false, required: 0, available: 0 };
+      return { sufficient: false, required: 0, available: 0, error: 'Unable to check margin' };
     }
   }
 
-  // Prepare order payload for Hyperliquid API
-  private prepareOrderPayload(order: OrderRequest, price: number): any {
-    const timestamp = Date.now();
-    
+  // Prepare order wire for Hyperliquid API from a normalized price and size
+  private prepareOrderPayload(
+    order: OrderRequest,
+    asset: RegisteredAsset,
+    normalized: { price: number; size: number },
+    registry: AssetRegistry
+  ): OrderWire {
     return {
-      asset: order.asset,
-      isBuy: order.isBuy,
-      sz: order.size.toString(),
-      px: price.toString(),
-      orderType: order.orderType,
-      timeInForce: order.timeInForce || 'gtc',
-      reduceOnly: order.reduceOnly || false,
-      timestamp
+      a: asset.index,
+      b: order.isBuy,
+      p: floatToWire(normalized.price),
+      s: floatToWire(normalized.size),
+      r: order.reduceOnly || false,
+      t: this.getOrderTypeWire(order, asset, registry),
+      ...(order.cloid ? { c: order.cloid } : {})
     };
   }
 
-  // Sign order with wallet
-  private async signOrder(orderPayload: any, walletClient: any): Promise<string> {
-    // In production, this would create the proper signature for Hyperliquid
-    // For now, return a mock signature
-    const message = JSON.stringify(orderPayload);
-    
-    try {
-      // This would be the actual signing process
-      const signature = await walletClient.signMessage({
-        message
-      });
-      return signature;
-    } catch (error) {
-      throw new Error('Failed to sign order');
+  // Map our order type and time in force onto Hyperliquid's order type
+  private getOrderTypeWire(order: OrderRequest, asset: RegisteredAsset, registry: AssetRegistry): OrderTypeWire {
+    if (order.orderType === 'stop' || order.orderType === 'stopLimit') {
+      return {
+        trigger: {
+          isMarket: order.orderType === 'stop',
+          triggerPx: floatToWire(registry.roundPrice(asset, order.stopPrice!)),
+          tpsl: order.tpsl ?? 'sl'
+        }
+      };
+    }
+
+    if (order.orderType === 'market' || order.timeInForce === 'ioc') {
+      return { limit: { tif: 'Ioc' } };
     }
+
+    return { limit: { tif: order.postOnly ? 'Alo' : 'Gtc' } };
   }
 
-  // Submit order to Hyperliquid
-  private async submitOrder(orderPayload: any, signature: string): Promise<OrderExecutionResult> {
-    try {
-      // In production, this would call the actual Hyperliquid order endpoint
-      // For now, simulate the API call
-      
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
-      
-      // Mock successful response
-      const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      return {
-        success: true,
-        orderId,
-        transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`
-      };
-      
-    } catch (error) {
-      throw new Error('Failed to submit order to exchange');
+  // Submit orders as one action, for use with retryWithBackoff. A retry first
+  // looks the orders up by cloid, so an action whose response was lost after
+  // it reached the exchange is never submitted twice.
+  private submitOrders(
+    wires: OrderWire[],
+    signer: HyperliquidSigner,
+    address: string,
+    grouping: OrderGrouping = 'na'
+  ): () => Promise<OrderExecutionResult[]> {
+    let attempted = false;
+
+    return async () => {
+      if (attempted) {
+        const statuses = await Promise.all(wires.map(wire => hyperliquidAPI.getOrderStatus(address, wire.c!)));
+        if (statuses.some(status => status.status === 'order')) {
+          return statuses.map(parseOrderLookup);
+        }
+      }
+
+      attempted = true;
+      const results = await hyperliquidExchange.order(wires, signer, grouping);
+      return results.map((result, index) => ({ ...result, cloid: result.cloid ?? wires[index].c }));
+    };
+  }
+
+  // Tracked orders, newest first
+  getTrackedOrders = (): TrackedOrder[] => this.trackedOrders;
+
+  // Listen for order transitions; returns an unsubscribe function
+  subscribeToOrders = (listener: (transition: OrderTransition) => void): (() => void) => {
+    this.orderListeners.add(listener);
+    return () => {
+      this.orderListeners.delete(listener);
+    };
+  };
+
+  // Feed an event into the order lifecycle state machine
+  recordOrderEvent(event: OrderLifecycleEvent): OrderTransition | null {
+    const { orders, transition } = applyOrderEvent(this.trackedOrders, event);
+    this.trackedOrders = orders;
+    if (transition) {
+      this.orderListeners.forEach(listener => listener(transition));
     }
+    return transition;
   }
 
-  // Track order status
-  private trackOrder(orderId: string, order: OrderRequest): void {
-    // In production, this would set up order status tracking
-    console.log(`Tracking order ${orderId} for ${order.asset}`);
+  // Start tracking orders as they go to the signer, returning their local keys
+  private trackSigning(orders: OrderRequest[], wires: OrderWire[]): string[] {
+    return wires.map((wire, index) => {
+      const key = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      this.recordOrderEvent({
+        type: 'signing',
+        key,
+        coin: AssetRegistry.toCoin(orders[index].asset),
+        side: wire.b ? 'buy' : 'sell',
+        size: parseFloat(wire.s),
+        cloid: wire.c,
+        time: Date.now()
+      });
+      return key;
+    });
+  }
+
+  // Record the exchange's response for each tracked order
+  private trackResults(keys: string[], results: OrderExecutionResult[]): void {
+    keys.forEach((key, index) => {
+      const result = results[index];
+      if (!result) return;
+
+      this.recordOrderEvent(result.success
+        ? {
+            type: 'submitted',
+            key,
+            oid: result.orderId ? Number(result.orderId) : undefined,
+            status: result.status,
+            filledSize: result.filledSize,
+            averagePrice: result.averagePrice,
+            time: Date.now()
+          }
+        : { type: 'rejected', key, error: result.error ?? 'Order rejected', time: Date.now() });
+    });
   }
 }
 
+// Toast the outcome of a bulk cancel or close
+const notifyBulkResults = (results: BulkActionResult[], label: string, emptyMessage: string) => {
+  const failed = results.filter(({ result }) => !result.success);
+
+  if (results.length === 0) {
+    toast.info(emptyMessage);
+  } else if (failed.length === 0) {
+    toast.success(`${label}: ${results.length} done`);
+  } else {
+    toast.error(`${label}: ${failed.length}/${results.length} failed (${failed[0].asset}: ${failed[0].result.error})`);
+  }
+};
+
 // React hook for order execution
 export const useOrderExecution = () => {
   const { data: walletClient } = useWalletClient();
   const { address } = useAccount();
-  const { isConnected } = useWallet();
+  const { isConnected, agentSigner } = useWallet();
   const [isExecuting, setIsExecuting] = useState(false);
 
   const orderService = OrderExecutionService.getInstance();
 
+  // Prefer the approved agent so orders don't need a wallet popup
+  const signer = useMemo(
+    () => agentSigner ?? (walletClient ? toHyperliquidSigner(walletClient) : null),
+    [agentSigner, walletClient]
+  );
+
   const executeOrder = async (order: OrderRequest): Promise<OrderExecutionResult> => {
-    if (!isConnected || !walletClient || !address) {
+    if (!isConnected || !signer || !address) {
       toast.error('Wallet not connected');
       return { success: false, error: 'Wallet not connected' };
     }
@@ -353,9 +963,11 @@ export const useOrderExecution = () => {
     setIsExecuting(true);
     
     try {
-      const result = await orderService.executeOrder(order, walletClient, address);
+      const result = await orderService.executeOrder(order, signer, address);
       
-      if (result.success) {
+      if (result.success && result.status === 'resting') {
+        toast.success(`Order placed for ${order.asset}`);
+      } else if (result.success) {
         toast.success(`Order executed successfully for ${order.asset}`);
       } else {
         toast.error(`Order failed: ${result.error}`);
@@ -367,8 +979,11 @@ export const useOrderExecution = () => {
     }
   };
 
-  const executeBatchOrders = async (orders: OrderRequest[]): Promise<OrderExecutionResult[]> => {
-    if (!isConnected || !walletClient || !address) {
+  const executeBatchOrders = async (
+    orders: OrderRequest[],
+    grouping: OrderGrouping = 'na'
+  ): Promise<OrderExecutionResult[]> => {
+    if (!isConnected || !signer || !address) {
       toast.error('Wallet not connected');
       return orders.map(() => ({ success: false, error: 'Wallet not connected' }));
     }
@@ -376,7 +991,7 @@ export const useOrderExecution = () => {
     setIsExecuting(true);
     
     try {
-      const results = await orderService.executeBatchOrders(orders, walletClient, address);
+      const results = await orderService.executeBatchOrders(orders, signer, address, grouping);
       
       const successCount = results.filter(r => r.success).length;
       if (successCount === orders.length) {
@@ -393,8 +1008,189 @@ export const useOrderExecution = () => {
     }
   };
 
+  const executeScaleOrders = async (orders: OrderRequest[]): Promise<OrderExecutionResult[]> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return orders.map(() => ({ success: false, error: 'Wallet not connected' }));
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const results = await orderService.executeScaleOrders(orders, signer, address);
+
+      const successCount = results.filter(r => r.success).length;
+      if (successCount === orders.length) {
+        toast.success(`Scale order placed: ${orders.length} levels`);
+      } else if (successCount > 0) {
+        toast.warning(`${successCount}/${orders.length} scale levels placed`);
+      } else {
+        toast.error(`Scale order failed: ${results[0]?.error}`);
+      }
+
+      return results;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const cancelOrders = async (
+    cancels: Array<{ asset: string; oid: number }>
+  ): Promise<OrderExecutionResult[]> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return cancels.map(() => ({ success: false, error: 'Wallet not connected' }));
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const results = await orderService.cancelOrders(cancels, signer);
+      const failed = results.filter(r => !r.success);
+
+      if (failed.length === 0) {
+        toast.success(cancels.length === 1 ? 'Order cancelled' : `${cancels.length} orders cancelled`);
+      } else {
+        toast.error(`Failed to cancel ${failed.length} order(s): ${failed[0].error}`);
+      }
+
+      return results;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const cancelOrdersByCloid = async (
+    cancels: Array<{ asset: string; cloid: string }>
+  ): Promise<OrderExecutionResult[]> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return cancels.map(() => ({ success: false, error: 'Wallet not connected' }));
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const results = await orderService.cancelOrdersByCloid(cancels, signer);
+      const failed = results.filter(r => !r.success);
+
+      if (failed.length === 0) {
+        toast.success(cancels.length === 1 ? 'Order cancelled' : `${cancels.length} orders cancelled`);
+      } else {
+        toast.error(`Failed to cancel ${failed.length} order(s): ${failed[0].error}`);
+      }
+
+      return results;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  // Stable between renders so effects (e.g. the trailing-stop engine) can depend on it
+  const modifyOrder = useCallback(async (oid: number | string, order: OrderRequest): Promise<OrderExecutionResult> => {
+    if (!isConnected || !signer || !address) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    const result = await orderService.modifyOrder(oid, order, signer, address);
+    if (!result.success) {
+      toast.error(`Failed to modify order: ${result.error}`);
+    }
+
+    return result;
+  }, [isConnected, signer, address, orderService]);
+
+  const executeTwapOrder = async (twap: TwapRequest): Promise<TwapExecutionResult> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const result = await orderService.executeTwapOrder(twap, signer, address);
+
+      if (result.success) {
+        toast.success(`TWAP started for ${twap.asset} over ${twap.minutes} minutes`);
+      } else {
+        toast.error(`TWAP failed: ${result.error}`);
+      }
+
+      return result;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const cancelTwapOrder = async (asset: string, twapId: number): Promise<TwapExecutionResult> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    const result = await orderService.cancelTwapOrder(asset, twapId, signer);
+    if (result.success) {
+      toast.success(`TWAP cancelled for ${asset}`);
+    } else {
+      toast.error(`Failed to cancel TWAP: ${result.error}`);
+    }
+
+    return result;
+  };
+
+  const updateLeverage = async (
+    asset: string,
+    leverage: number,
+    marginMode: MarginMode
+  ): Promise<ActionResult> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const result = await orderService.updateLeverage(asset, leverage, marginMode, signer);
+
+      if (result.success) {
+        toast.success(`${asset} leverage set to ${leverage}x ${marginMode}`);
+      } else {
+        toast.error(`Failed to update leverage: ${result.error}`);
+      }
+
+      return result;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const updateIsolatedMargin = async (asset: string, amount: number): Promise<ActionResult> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const result = await orderService.updateIsolatedMargin(asset, amount, signer, address);
+
+      if (result.success) {
+        toast.success(`${amount > 0 ? 'Added' : 'Removed'} $${Math.abs(amount).toFixed(2)} margin ${amount > 0 ? 'to' : 'from'} ${asset}`);
+      } else {
+        toast.error(`Failed to update margin: ${result.error}`);
+      }
+
+      return result;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   const adjustPosition = async (adjustment: PositionAdjustment): Promise<OrderExecutionResult> => {
-    if (!isConnected || !walletClient || !address) {
+    if (!isConnected || !signer || !address) {
       toast.error('Wallet not connected');
       return { success: false, error: 'Wallet not connected' };
     }
@@ -402,7 +1198,7 @@ export const useOrderExecution = () => {
     setIsExecuting(true);
     
     try {
-      const result = await orderService.adjustPosition(adjustment, walletClient, address);
+      const result = await orderService.adjustPosition(adjustment, signer, address);
       
       if (result.success) {
         toast.success(`Position adjusted for ${adjustment.asset}`);
@@ -417,7 +1213,7 @@ export const useOrderExecution = () => {
   };
 
   const closePosition = async (asset: string): Promise<OrderExecutionResult> => {
-    if (!isConnected || !walletClient || !address) {
+    if (!isConnected || !signer || !address) {
       toast.error('Wallet not connected');
       return { success: false, error: 'Wallet not connected' };
     }
@@ -425,7 +1221,7 @@ export const useOrderExecution = () => {
     setIsExecuting(true);
     
     try {
-      const result = await orderService.closePosition(asset, walletClient, address);
+      const result = await orderService.closePosition(asset, signer, address);
       
       if (result.success) {
         toast.success(`Position closed for ${asset}`);
@@ -439,11 +1235,73 @@ export const useOrderExecution = () => {
     }
   };
 
+  const cancelAllOrders = async (coin?: string): Promise<BulkActionResult[]> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return [];
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const results = await orderService.cancelAllOrders(signer, address, coin);
+      notifyBulkResults(results, 'Cancel all', 'No open orders to cancel');
+      return results;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const closeAllPositions = async (coin?: string): Promise<BulkActionResult[]> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return [];
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const results = await orderService.closeAllPositions(signer, address, coin);
+      notifyBulkResults(results, 'Close all', 'No open positions to close');
+      return results;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const panicCloseAll = async (): Promise<BulkActionResult[]> => {
+    if (!isConnected || !signer || !address) {
+      toast.error('Wallet not connected');
+      return [];
+    }
+
+    setIsExecuting(true);
+
+    try {
+      const results = await orderService.panicCloseAll(signer, address);
+      notifyBulkResults(results, 'Panic close', 'No open orders or positions');
+      return results;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   return {
     executeOrder,
     executeBatchOrders,
+    executeScaleOrders,
+    cancelOrders,
+    cancelOrdersByCloid,
+    modifyOrder,
+    executeTwapOrder,
+    cancelTwapOrder,
+    updateLeverage,
+    updateIsolatedMargin,
     adjustPosition,
     closePosition,
+    cancelAllOrders,
+    closeAllPositions,
+    panicCloseAll,
     isExecuting
   };
 };
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import { OrderExecutionService } from './useOrderExecution';
+import { useHyperliquidWebSocket, WSMessage, WSUserEvent } from './useHyperliquidWebSocket';
+import { useWallet } from '@/contexts/WalletContext';
+import type { OrderLifecycleEvent, OrderTransition } from '@/lib/orderLifecycle';
+import type { WsOrderUpdate, WsUserFills } from '@/types/hyperliquid';
+
+const orderService = OrderExecutionService.getInstance();
+
+const formatSize = (size: number) => size.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+// Toast what the exchange did to an order after it was submitted. Submissions
+// and user cancels are already reported by the actions that made them.
+const notifyTransition = ({ order, from, fill }: OrderTransition) => {
+  const label = `${order.side === 'buy' ? 'Buy' : 'Sell'} ${formatSize(order.size)} ${order.coin}`;
+  const detail = order.timeline[order.timeline.length - 1]?.detail;
+
+  if (order.status === 'filled' && from !== 'filled') {
+    const price = order.averagePrice !== null
+      ? ` at $${order.averagePrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}`
+      : '';
+    toast.success(`${label} filled${price}`);
+  } else if (order.status === 'partiallyFilled' && fill) {
+    toast.info(`${label} partially filled (${formatSize(order.filledSize)} done)`);
+  } else if (order.status === 'triggered' && from !== 'triggered') {
+    toast.info(`${label} triggered`);
+  } else if (order.status === 'cancelled' && from !== 'cancelled' && detail !== 'canceled') {
+    toast.warning(`${label} cancelled: ${detail}`);
+  } else if (order.status === 'rejected' && from !== 'rejected') {
+    toast.error(`${label} rejected: ${detail}`);
+  }
+};
+
+const recordStreamEvent = (event: OrderLifecycleEvent) => {
+  const transition = orderService.recordOrderEvent(event);
+  if (transition) notifyTransition(transition);
+};
+
+// Orders tracked this session, newest first, each with its timeline
+export const useTrackedOrders = () =>
+  useSyncExternalStore(orderService.subscribeToOrders, orderService.getTrackedOrders);
+
+// Feed the connected user's orderUpdates, userFills and userEvents streams into
+// the order tracker. Mount once per page so stream toasts aren't repeated.
+export const useOrderLifecycleStream = () => {
+  const { address } = useWallet();
+
+  const handleMessage = useCallback((message: WSMessage) => {
+    if (message.channel === 'orderUpdates') {
+      (message.data as WsOrderUpdate[]).forEach(update => recordStreamEvent({ type: 'orderUpdate', update }));
+    } else if (message.channel === 'userFills') {
+      const { isSnapshot, fills } = message.data as WsUserFills;
+      // The snapshot is fill history, not new activity
+      if (isSnapshot) return;
+      fills.forEach(fill => recordStreamEvent({ type: 'fill', fill }));
+    } else if (message.channel === 'user') {
+      const event = message.data as WSUserEvent;
+      event.fills?.forEach(fill => recordStreamEvent({ type: 'fill', fill }));
+      event.nonUserCancel?.forEach(({ coin, oid }) =>
+        recordStreamEvent({ type: 'nonUserCancel', coin, oid, time: Date.now() })
+      );
+    }
+  }, []);
+
+  const {
+    isConnected,
+    subscribeToOrderUpdates,
+    unsubscribeFromOrderUpdates,
+    subscribeToUserFills,
+    unsubscribeFromUserFills,
+    subscribeToUserEvents,
+    unsubscribeFromUserEvents
+  } = useHyperliquidWebSocket({ channels: ['orderUpdates', 'userFills', 'user'] }, handleMessage);
+
+  useEffect(() => {
+    if (!address || !isConnected) return;
+
+    subscribeToOrderUpdates(address);
+    subscribeToUserFills(address);
+    subscribeToUserEvents(address);
+    return () => {
+      unsubscribeFromOrderUpdates(address);
+      unsubscribeFromUserFills(address);
+      unsubscribeFromUserEvents(address);
+    };
+  }, [
+    address,
+    isConnected,
+    subscribeToOrderUpdates,
+    unsubscribeFromOrderUpdates,
+    subscribeToUserFills,
+    unsubscribeFromUserFills,
+    subscribeToUserEvents,
+    unsubscribeFromUserEvents
+  ]);
+
+  return {
+    isConnected
+  };
+};
@@ -312,6 +312,27 @@ export const useVirtualScroll = <T>(
   };
 };
 
+// Track an element's rendered size, e.g. to size a canvas to its container
+export const useElementSize = <T extends HTMLElement>() => {
+  const ref = useRef<T>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return { ref, ...size };
+};
+
 // Component lazy loading with preloading
 export const useLazyComponent = <T extends React.ComponentType<any>>(
   importFunc: () => Promise<{ default: T }>,
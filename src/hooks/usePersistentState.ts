@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import { loadPersisted, savePersisted, storageScope, StorageNamespace } from '@/lib/persistence';
+
+// Mounted copies of each record, so a change made through one reaches the others
+const recordListeners = new Map<string, Set<(value: unknown) => void>>();
+
+// useState that is persisted per wallet and network, and per `key` when given
+// (one record per key rather than one for the whole namespace). The value
+// resets to `initialValue` while a new scope loads, and nothing is written
+// until the scope's stored value has been read, so one wallet's state never
+// leaks into another's. Hooks holding the same record stay in sync.
+export const usePersistentState = <T>(
+  namespace: StorageNamespace,
+  initialValue: T,
+  key?: string
+): [T, Dispatch<SetStateAction<T>>, boolean] => {
+  const { address, isTestnetMode } = useWallet();
+  const walletScope = storageScope(address, isTestnetMode);
+  const scope = key === undefined ? walletScope : `${walletScope}:${key}`;
+  const recordId = `${namespace}:${scope}`;
+
+  const [value, setValue] = useState<T>(initialValue);
+  const [loadedScope, setLoadedScope] = useState<string | null>(null);
+  const initialValueRef = useRef(initialValue);
+  // The last value loaded or received from another copy; it is already saved
+  const savedRef = useRef<T | null>(null);
+  const listenerRef = useRef<((value: unknown) => void) | null>(null);
+
+  // Load stored state whenever the wallet, network or key changes
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoadedScope(null);
+    setValue(initialValueRef.current);
+
+    loadPersisted(namespace, scope, initialValueRef.current).then(stored => {
+      if (cancelled) return;
+      savedRef.current = stored;
+      setValue(stored);
+      setLoadedScope(scope);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [namespace, scope]);
+
+  useEffect(() => {
+    const listeners = recordListeners.get(recordId) ?? new Set();
+    const listener = (next: unknown) => {
+      savedRef.current = next as T;
+      setValue(next as T);
+    };
+    listenerRef.current = listener;
+    listeners.add(listener);
+    recordListeners.set(recordId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) recordListeners.delete(recordId);
+    };
+  }, [recordId]);
+
+  // Save changes once the current scope has loaded, and share them
+  useEffect(() => {
+    if (loadedScope !== scope || value === savedRef.current) return;
+
+    recordListeners.get(recordId)?.forEach(listener => {
+      if (listener !== listenerRef.current) listener(value);
+    });
+    savePersisted(namespace, scope, value).catch(error => {
+      console.error(`Failed to persist ${namespace}:`, error);
+    });
+  }, [namespace, scope, recordId, loadedScope, value]);
+
+  return [value, setValue, loadedScope === scope];
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useHyperliquidWebSocket, WSMessage, WSTradeData } from './useHyperliquidWebSocket';
+import { addTrades, addVolume, EMPTY_VOLUME_HISTORY, TapeTrade, VolumeHistory } from '@/lib/trades';
+
+// Live time-and-sales for a coin from the trades subscription, newest first,
+// with the rolling volume behind the delta windows. The subscription opens
+// with a snapshot of recent trades.
+export const useTradeTape = (coin: string) => {
+  const [trades, setTrades] = useState<TapeTrade[]>([]);
+  const [volume, setVolume] = useState<VolumeHistory>(EMPTY_VOLUME_HISTORY);
+  const activeCoinRef = useRef<string | null>(null);
+
+  const handleMessage = useCallback((message: WSMessage) => {
+    if (message.channel !== 'trades') return;
+
+    const incoming = (message.data as WSTradeData[]).filter(trade => trade.coin === activeCoinRef.current);
+    if (incoming.length === 0) return;
+
+    setTrades(prev => addTrades(prev, incoming));
+    setVolume(prev => addVolume(prev, incoming));
+  }, []);
+
+  const {
+    isConnected,
+    subscribeToTrades,
+    unsubscribeFromTrades
+  } = useHyperliquidWebSocket({ channels: ['trades'] }, handleMessage);
+
+  useEffect(() => {
+    activeCoinRef.current = coin;
+    setTrades([]);
+    setVolume(EMPTY_VOLUME_HISTORY);
+  }, [coin]);
+
+  useEffect(() => {
+    if (!coin || !isConnected) return;
+
+    subscribeToTrades(coin);
+    return () => {
+      unsubscribeFromTrades(coin);
+    };
+  }, [coin, isConnected, subscribeToTrades, unsubscribeFromTrades]);
+
+  return {
+    trades,
+    volume,
+    isConnected
+  };
+};
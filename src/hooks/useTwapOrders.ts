@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { hyperliquidAPI } from '@/lib/hyperliquid';
+import { getTwapProgress } from '@/lib/algoOrders';
+import { useWallet } from '@/contexts/WalletContext';
+import type { TwapHistoryEntry, TwapSliceFill } from '@/types/hyperliquid';
+
+const REFRESH_INTERVAL = 5000;
+
+// The connected user's TWAP orders with progress from their slice fills,
+// polled while the hook is mounted
+export const useTwapOrders = () => {
+  const { address, isTestnetMode } = useWallet();
+  const [history, setHistory] = useState<TwapHistoryEntry[]>([]);
+  const [sliceFills, setSliceFills] = useState<TwapSliceFill[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      const [twapHistory, fills] = await Promise.all([
+        hyperliquidAPI.getTwapHistory(address),
+        hyperliquidAPI.getUserTwapSliceFills(address)
+      ]);
+      setHistory(twapHistory);
+      setSliceFills(fills);
+    } catch (error) {
+      console.error('Failed to load TWAP orders:', error);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    setHistory([]);
+    setSliceFills([]);
+    if (!address) return;
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [address, isTestnetMode, refresh]);
+
+  const twaps = useMemo(() => getTwapProgress(history, sliceFills), [history, sliceFills]);
+  const activeTwaps = useMemo(() => twaps.filter(twap => twap.status === 'activated'), [twaps]);
+
+  return {
+    twaps,
+    activeTwaps,
+    refresh
+  };
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useMemo } from 'react';
+import { hyperliquidAPI } from '@/lib/hyperliquid';
+import { DEFAULT_FEE_RATES, getFeeTierProgress, resolveFeeRates } from '@/lib/fees';
+import { useWallet } from '@/contexts/WalletContext';
+import type { UserFees } from '@/types/hyperliquid';
+
+// The connected user's fee schedule and effective rates, falling back to the
+// base tier while disconnected
+export const useUserFees = () => {
+  const { address, isTestnetMode } = useWallet();
+  const [fees, setFees] = useState<UserFees | null>(null);
+
+  useEffect(() => {
+    setFees(null);
+    if (!address) return;
+
+    let isMounted = true;
+    hyperliquidAPI.getUserFees(address)
+      .then(data => {
+        if (isMounted) setFees(data);
+      })
+      .catch(error => console.error('Failed to load fee rates:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [address, isTestnetMode]);
+
+  const rates = useMemo(() => (fees ? resolveFeeRates(fees) : DEFAULT_FEE_RATES), [fees]);
+  const tierProgress = useMemo(() => (fees ? getFeeTierProgress(fees) : null), [fees]);
+
+  return {
+    fees,
+    rates,
+    tierProgress
+  };
+};
@@ -0,0 +1,138 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import {
+  applySizes,
+  createPane,
+  loadCurrentLayout,
+  loadSavedLayouts,
+  removePane,
+  saveCurrentLayout,
+  saveSavedLayouts,
+  splitPane,
+  updatePane,
+  LAYOUT_PRESETS,
+  LayoutNode,
+  PaneKind,
+  PaneNode,
+  SavedLayout,
+  SplitDirection
+} from '@/lib/workspace';
+
+const SAVE_SIZES_DELAY = 500;
+
+// Workspace layout for the Futures page. The current layout survives reloads,
+// and named layouts can be saved and restored.
+export const useWorkspace = () => {
+  const [layout, setLayout] = useState<LayoutNode>(() => loadCurrentLayout() ?? LAYOUT_PRESETS.default.create());
+  const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>(loadSavedLayouts);
+  // Bumped when a whole layout is loaded so panel groups remount with its sizes
+  const [revision, setRevision] = useState(0);
+
+  // Panel sizes change on every drag frame, so they are tracked outside React
+  // state and folded into the layout when it is next changed or saved
+  const sizesRef = useRef<Record<string, number[]>>({});
+  const layoutRef = useRef(layout);
+  const saveTimeoutRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    layoutRef.current = layout;
+  }, [layout]);
+
+  const persist = useCallback((next: LayoutNode) => {
+    try {
+      saveCurrentLayout(next);
+    } catch (error) {
+      console.error('Failed to save workspace layout:', error);
+    }
+  }, []);
+
+  useEffect(() => () => clearTimeout(saveTimeoutRef.current), []);
+
+  const currentLayout = useCallback(
+    () => applySizes(layoutRef.current, sizesRef.current),
+    []
+  );
+
+  const change = useCallback((update: (current: LayoutNode) => LayoutNode) => {
+    const next = update(currentLayout());
+    sizesRef.current = {};
+    setLayout(next);
+    persist(next);
+  }, [currentLayout, persist]);
+
+  const replace = useCallback((next: LayoutNode) => {
+    sizesRef.current = {};
+    setLayout(next);
+    setRevision(prev => prev + 1);
+    persist(next);
+  }, [persist]);
+
+  const setSplitSizes = useCallback((splitId: string, sizes: number[]) => {
+    sizesRef.current = { ...sizesRef.current, [splitId]: sizes };
+
+    clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(() => persist(currentLayout()), SAVE_SIZES_DELAY);
+  }, [currentLayout, persist]);
+
+  const updatePaneSettings = useCallback((paneId: string, changes: Partial<Omit<PaneNode, 'type' | 'id'>>) => {
+    change(current => updatePane(current, paneId, changes));
+  }, [change]);
+
+  const addPane = useCallback((paneId: string, direction: SplitDirection, kind: PaneKind, coin?: string) => {
+    change(current => splitPane(current, paneId, direction, createPane(kind, coin)));
+  }, [change]);
+
+  const closePane = useCallback((paneId: string) => {
+    change(current => removePane(current, paneId));
+  }, [change]);
+
+  const loadPreset = useCallback((key: string) => {
+    const preset = LAYOUT_PRESETS[key];
+    if (preset) replace(preset.create());
+  }, [replace]);
+
+  const saveLayout = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const saved: SavedLayout = { name: trimmed, layout: currentLayout(), savedAt: Date.now() };
+    const next = [...savedLayouts.filter(entry => entry.name !== trimmed), saved];
+
+    try {
+      saveSavedLayouts(next);
+      setSavedLayouts(next);
+      toast.success(`Saved layout "${trimmed}"`);
+    } catch (error) {
+      toast.error(`Failed to save layout: ${(error as Error).message}`);
+    }
+  }, [savedLayouts, currentLayout]);
+
+  const loadSavedLayout = useCallback((name: string) => {
+    const saved = savedLayouts.find(entry => entry.name === name);
+    if (saved) replace(saved.layout);
+  }, [savedLayouts, replace]);
+
+  const deleteSavedLayout = useCallback((name: string) => {
+    const next = savedLayouts.filter(entry => entry.name !== name);
+    try {
+      saveSavedLayouts(next);
+      setSavedLayouts(next);
+    } catch (error) {
+      toast.error(`Failed to delete layout: ${(error as Error).message}`);
+    }
+  }, [savedLayouts]);
+
+  return {
+    layout,
+    revision,
+    savedLayouts,
+    setSplitSizes,
+    updatePane: updatePaneSettings,
+    addPane,
+    closePane,
+    loadPreset,
+    saveLayout,
+    loadSavedLayout,
+    deleteSavedLayout
+  };
+};
@@ -0,0 +1,176 @@
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import type { Hex } from 'viem';
+import type { HyperliquidSigner } from '@/lib/signing';
+
+// Agent (API) wallet used for one-click trading
+export interface AgentWallet {
+  address: `0x${string}`;
+  privateKey: Hex;
+  name: string;
+  expiresAt: number;
+}
+
+interface StoredAgentWallet {
+  address: `0x${string}`;
+  name: string;
+  expiresAt: number;
+  iv: string;
+  ciphertext: string;
+}
+
+export const AGENT_NAME = 'prep-trade';
+export const DEFAULT_AGENT_VALIDITY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const KEY_DB_NAME = 'prep-trade-keys';
+const KEY_STORE_NAME = 'keys';
+const ENCRYPTION_KEY_ID = 'agent-wallet';
+
+const storageKey = (owner: string, isTestnet: boolean) =>
+  `agentWallet:${owner.toLowerCase()}:${isTestnet ? 'testnet' : 'mainnet'}`;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const openKeyStore = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(KEY_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// The AES key is non-extractable and only lives in IndexedDB, so a copy of
+// localStorage alone is not enough to recover the agent's private key
+const getEncryptionKey = async (): Promise<CryptoKey> => {
+  const db = await openKeyStore();
+
+  try {
+    const existing = await new Promise<CryptoKey | undefined>((resolve, reject) => {
+      const request = db.transaction(KEY_STORE_NAME, 'readonly')
+        .objectStore(KEY_STORE_NAME)
+        .get(ENCRYPTION_KEY_ID);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (existing) return existing;
+
+    const key = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(KEY_STORE_NAME, 'readwrite');
+      transaction.objectStore(KEY_STORE_NAME).put(key, ENCRYPTION_KEY_ID);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    return key;
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Generate a fresh agent keypair valid for the given duration
+ */
+export const createAgentWallet = (validityMs: number = DEFAULT_AGENT_VALIDITY_MS): AgentWallet => {
+  const privateKey = generatePrivateKey();
+  const expiresAt = Date.now() + validityMs;
+
+  return {
+    address: privateKeyToAccount(privateKey).address,
+    privateKey,
+    // The exchange reads the expiry from the agent name
+    name: `${AGENT_NAME} valid_until ${expiresAt}`,
+    expiresAt
+  };
+};
+
+/**
+ * Encrypt and persist an approved agent for the given owner and network
+ */
+export const saveAgentWallet = async (
+  owner: string,
+  isTestnet: boolean,
+  agent: AgentWallet
+): Promise<void> => {
+  const key = await getEncryptionKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(agent.privateKey)
+  );
+
+  const stored: StoredAgentWallet = {
+    address: agent.address,
+    name: agent.name,
+    expiresAt: agent.expiresAt,
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext)
+  };
+
+  localStorage.setItem(storageKey(owner, isTestnet), JSON.stringify(stored));
+};
+
+/**
+ * Remove a stored agent for the given owner and network
+ */
+export const clearAgentWallet = (owner: string, isTestnet: boolean): void => {
+  localStorage.removeItem(storageKey(owner, isTestnet));
+};
+
+/**
+ * Load and decrypt the stored agent, dropping it if it has expired
+ */
+export const loadAgentWallet = async (
+  owner: string,
+  isTestnet: boolean
+): Promise<AgentWallet | null> => {
+  const raw = localStorage.getItem(storageKey(owner, isTestnet));
+  if (!raw) return null;
+
+  try {
+    const stored: StoredAgentWallet = JSON.parse(raw);
+
+    if (stored.expiresAt <= Date.now()) {
+      clearAgentWallet(owner, isTestnet);
+      return null;
+    }
+
+    const key = await getEncryptionKey();
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      key,
+      fromBase64(stored.ciphertext)
+    );
+
+    return {
+      address: stored.address,
+      privateKey: new TextDecoder().decode(plaintext) as Hex,
+      name: stored.name,
+      expiresAt: stored.expiresAt
+    };
+  } catch (error) {
+    console.error('Failed to load agent wallet:', error);
+    clearAgentWallet(owner, isTestnet);
+    return null;
+  }
+};
+
+/**
+ * Signer that signs L1 actions locally with the agent key
+ */
+export const toAgentSigner = (agent: AgentWallet): HyperliquidSigner =>
+  privateKeyToAccount(agent.privateKey);
+
+/**
+ * Throwaway address used to replace (and so revoke) an approved agent
+ */
+export const createRevocationAddress = (): `0x${string}` =>
+  privateKeyToAccount(generatePrivateKey()).address;
@@ -0,0 +1,134 @@
+import type { TwapHistoryEntry, TwapSliceFill } from '@/types/hyperliquid';
+
+// Order types built on top of plain orders: scale orders ladder a size across
+// a price range as a batch of limits, and TWAPs hand a size to the exchange
+// to fill in slices over time.
+
+export type ScaleDistribution = 'linear' | 'geometric';
+
+export interface ScaleOrderLevel {
+  price: number;
+  size: number;
+}
+
+export interface ScaleOrderParams {
+  totalSize: number;
+  startPrice: number;
+  endPrice: number;
+  count: number;
+  distribution: ScaleDistribution;
+}
+
+// Orders per scale ladder; every ladder is submitted as one batch
+export const MIN_SCALE_ORDERS = 2;
+export const MAX_SCALE_ORDERS = 20;
+
+// TWAP durations accepted by the exchange
+export const MIN_TWAP_MINUTES = 5;
+export const MAX_TWAP_MINUTES = 24 * 60;
+
+/**
+ * Split a size evenly across limit prices from startPrice to endPrice. Linear
+ * ladders space prices by a fixed amount, geometric ladders by a fixed percentage.
+ */
+export const buildScaleOrders = ({
+  totalSize,
+  startPrice,
+  endPrice,
+  count,
+  distribution
+}: ScaleOrderParams): ScaleOrderLevel[] => {
+  if (!(totalSize > 0) || !(startPrice > 0) || !(endPrice > 0)) return [];
+
+  const levels = Math.min(MAX_SCALE_ORDERS, Math.max(MIN_SCALE_ORDERS, Math.round(count)));
+  const size = totalSize / levels;
+
+  return Array.from({ length: levels }, (_, index) => {
+    const fraction = index / (levels - 1);
+    const price = distribution === 'geometric'
+      ? startPrice * Math.pow(endPrice / startPrice, fraction)
+      : startPrice + (endPrice - startPrice) * fraction;
+    return { price, size };
+  });
+};
+
+/**
+ * Size-weighted average price of a ladder
+ */
+export const getAverageScalePrice = (levels: ScaleOrderLevel[]): number => {
+  const size = levels.reduce((sum, level) => sum + level.size, 0);
+  return size > 0 ? levels.reduce((sum, level) => sum + level.price * level.size, 0) / size : 0;
+};
+
+export interface TwapProgress {
+  twapId: number;
+  coin: string;
+  side: 'buy' | 'sell';
+  size: number;
+  executedSize: number;
+  averagePrice: number | null;
+  fills: number;
+  minutes: number;
+  randomize: boolean;
+  reduceOnly: boolean;
+  startTime: number;
+  endTime: number;
+  status: TwapHistoryEntry['status']['status'];
+  progress: number;      // Executed share of the total size, 0-1
+}
+
+/**
+ * Combine TWAP history with slice fills into per-TWAP progress, newest first.
+ * The latest history entry for each TWAP gives its status.
+ */
+export const getTwapProgress = (
+  history: TwapHistoryEntry[],
+  sliceFills: TwapSliceFill[]
+): TwapProgress[] => {
+  const fillsById = new Map<number, { size: number; notional: number; count: number }>();
+  sliceFills.forEach(({ fill, twapId }) => {
+    const totals = fillsById.get(twapId) ?? { size: 0, notional: 0, count: 0 };
+    const size = parseFloat(fill.sz);
+    fillsById.set(twapId, {
+      size: totals.size + size,
+      notional: totals.notional + size * parseFloat(fill.px),
+      count: totals.count + 1
+    });
+  });
+
+  const latest = new Map<number, TwapHistoryEntry>();
+  history.forEach(entry => {
+    if (entry.twapId === undefined) return;
+    const current = latest.get(entry.twapId);
+    if (!current || entry.time >= current.time) latest.set(entry.twapId, entry);
+  });
+
+  return Array.from(latest.entries())
+    .map(([twapId, { state, status }]): TwapProgress => {
+      const size = parseFloat(state.sz);
+      const fills = fillsById.get(twapId);
+      // Slice fills only cover recent history; fall back to the state's totals when they lag
+      const stateSize = parseFloat(state.executedSz) || 0;
+      const useFills = !!fills && fills.size >= stateSize;
+      const executedSize = useFills ? fills.size : stateSize;
+      const executedNotional = useFills ? fills.notional : parseFloat(state.executedNtl) || 0;
+
+      return {
+        twapId,
+        coin: state.coin,
+        side: state.side === 'B' ? 'buy' : 'sell',
+        size,
+        executedSize,
+        averagePrice: executedSize > 0 ? executedNotional / executedSize : null,
+        fills: fills?.count ?? 0,
+        minutes: state.minutes,
+        randomize: state.randomize,
+        reduceOnly: state.reduceOnly,
+        startTime: state.timestamp,
+        endTime: state.timestamp + state.minutes * 60 * 1000,
+        status: status.status,
+        progress: size > 0 ? Math.min(1, executedSize / size) : 0
+      };
+    })
+    .sort((a, b) => b.startTime - a.startTime);
+};
@@ -0,0 +1,142 @@
+import type { AssetInfo, MetaResponse } from '@/types/hyperliquid';
+
+export interface RegisteredAsset extends AssetInfo {
+  index: number;  // Asset index used in exchange actions
+}
+
+// Perp prices may use at most 6 - szDecimals decimals and 5 significant figures
+const MAX_PERP_PRICE_DECIMALS = 6;
+const MAX_SIGNIFICANT_FIGURES = 5;
+
+// Orders below this notional value are rejected by the exchange
+export const MIN_ORDER_NOTIONAL = 10;
+
+const countDecimals = (value: number): number => {
+  const [, decimals = ''] = value.toString().split('.');
+  return decimals.length;
+};
+
+/**
+ * Symbol registry built from perp metadata. Maps UI symbols ("BTC", "BTC/USD")
+ * to asset indices and normalizes prices and sizes to the exchange's tick and
+ * lot sizes.
+ */
+export class AssetRegistry {
+  private assets = new Map<string, RegisteredAsset>();
+
+  constructor(meta: MetaResponse) {
+    meta.universe.forEach((info, index) => {
+      this.assets.set(info.name, { ...info, index });
+    });
+  }
+
+  /**
+   * Strip quote suffixes so "BTC/USD", "BTC-USD" and "BTC-PERP" all map to "BTC"
+   */
+  static toCoin(symbol: string): string {
+    return symbol.trim().replace(/([/-](USDC?|PERP))$/i, '');
+  }
+
+  /**
+   * Look up an asset by coin or pair, or undefined if it is not listed
+   */
+  get(symbol: string): RegisteredAsset | undefined {
+    const coin = AssetRegistry.toCoin(symbol);
+    return this.assets.get(coin) ?? this.assets.get(coin.toUpperCase());
+  }
+
+  /**
+   * Look up an asset by coin or pair, throwing if it is unknown
+   */
+  resolve(symbol: string): RegisteredAsset {
+    const asset = this.get(symbol);
+    if (!asset) {
+      throw new Error(`Unknown asset: ${symbol}`);
+    }
+    return asset;
+  }
+
+  /**
+   * Look up an asset that can currently be traded, rejecting delisted ones
+   */
+  resolveTradable(symbol: string): RegisteredAsset {
+    const asset = this.resolve(symbol);
+    if (asset.isDelisted) {
+      throw new Error(`${asset.name} is delisted and cannot be traded`);
+    }
+    return asset;
+  }
+
+  /**
+   * All listed assets in universe order
+   */
+  list(): RegisteredAsset[] {
+    return Array.from(this.assets.values());
+  }
+
+  /**
+   * Round a price to 5 significant figures and the asset's max price decimals.
+   * Integer prices are always valid regardless of significant figures.
+   */
+  roundPrice(asset: RegisteredAsset, price: number): number {
+    if (Number.isInteger(price)) return price;
+
+    const maxDecimals = Math.max(0, MAX_PERP_PRICE_DECIMALS - asset.szDecimals);
+    const significant = parseFloat(price.toPrecision(MAX_SIGNIFICANT_FIGURES));
+    return parseFloat(significant.toFixed(maxDecimals));
+  }
+
+  /**
+   * Round a size to the asset's lot size (szDecimals)
+   */
+  roundSize(asset: RegisteredAsset, size: number): number {
+    return parseFloat(size.toFixed(asset.szDecimals));
+  }
+
+  /**
+   * Check whether a price is already on the asset's tick grid
+   */
+  isValidPrice(asset: RegisteredAsset, price: number): boolean {
+    if (!(price > 0)) return false;
+    if (Number.isInteger(price)) return true;
+
+    const maxDecimals = Math.max(0, MAX_PERP_PRICE_DECIMALS - asset.szDecimals);
+    return countDecimals(price) <= maxDecimals &&
+      parseFloat(price.toPrecision(MAX_SIGNIFICANT_FIGURES)) === price;
+  }
+
+  /**
+   * Check whether a size is already on the asset's lot grid
+   */
+  isValidSize(asset: RegisteredAsset, size: number): boolean {
+    return size > 0 && countDecimals(size) <= asset.szDecimals;
+  }
+
+  /**
+   * Round an order's price and size and validate the result
+   */
+  normalizeOrder(
+    asset: RegisteredAsset,
+    price: number,
+    size: number
+  ): { price: number; size: number; error?: string } {
+    const roundedPrice = this.roundPrice(asset, price);
+    const roundedSize = this.roundSize(asset, size);
+
+    if (asset.isDelisted) {
+      return { price: roundedPrice, size: roundedSize, error: `${asset.name} is delisted and cannot be traded` };
+    }
+    if (!(roundedPrice > 0)) {
+      return { price: roundedPrice, size: roundedSize, error: 'Price rounds to zero' };
+    }
+    if (!(roundedSize > 0)) {
+      return {
+        price: roundedPrice,
+        size: roundedSize,
+        error: `Size is below the minimum lot of ${Math.pow(10, -asset.szDecimals)} ${asset.name}`
+      };
+    }
+
+    return { price: roundedPrice, size: roundedSize };
+  }
+}
@@ -0,0 +1,64 @@
+// Take-profit and stop-loss legs attached to an entry order. Each leg can be
+// given as a trigger price, a percentage move from entry or a return on the
+// margin (ROE) at the order's leverage.
+
+export type BracketLeg = 'tp' | 'sl';
+
+export type BracketTargetMode = 'price' | 'percent' | 'roe';
+
+export interface BracketTarget {
+  mode: BracketTargetMode;
+  value: string;     // As typed; empty when the leg is off
+}
+
+export const BRACKET_TARGET_MODES: Array<{ mode: BracketTargetMode; label: string; unit: string }> = [
+  { mode: 'price', label: 'Price', unit: 'USD' },
+  { mode: 'percent', label: 'Gain/Loss %', unit: '%' },
+  { mode: 'roe', label: 'ROE %', unit: '%' }
+];
+
+/**
+ * Resolve a leg's target into a trigger price, or null when the leg is off or invalid.
+ * Percentages are distances from entry, so a 5% stop sits 5% below a long entry.
+ */
+export const resolveBracketPrice = (
+  target: BracketTarget,
+  leg: BracketLeg,
+  side: 'long' | 'short',
+  entryPrice: number,
+  leverage: number
+): number | null => {
+  const value = parseFloat(target.value);
+  if (!(value > 0) || !(entryPrice > 0)) return null;
+
+  if (target.mode === 'price') return value;
+
+  const move = target.mode === 'roe' ? value / 100 / Math.max(leverage, 1) : value / 100;
+  // Take profits sit on the profitable side of entry, stops on the losing side
+  const direction = (leg === 'tp') === (side === 'long') ? 1 : -1;
+  const price = entryPrice * (1 + direction * move);
+
+  return price > 0 ? price : null;
+};
+
+/**
+ * Check that a leg's trigger price is on the correct side of entry
+ */
+export const validateBracketPrice = (
+  price: number,
+  leg: BracketLeg,
+  side: 'long' | 'short',
+  entryPrice: number
+): string | null => {
+  const above = price > entryPrice;
+  if (price === entryPrice) {
+    return `${leg === 'tp' ? 'Take profit' : 'Stop loss'} must differ from the entry price`;
+  }
+
+  const shouldBeAbove = (leg === 'tp') === (side === 'long');
+  if (above !== shouldBeAbove) {
+    return `${leg === 'tp' ? 'Take profit' : 'Stop loss'} must be ${shouldBeAbove ? 'above' : 'below'} the entry price`;
+  }
+
+  return null;
+};
@@ -0,0 +1,74 @@
+import type { CandleSnapshot } from '@/types/hyperliquid';
+
+// Candle intervals supported by candleSnapshot and the candle subscription
+export const CANDLE_INTERVALS = [
+  '1m', '3m', '5m', '15m', '30m',
+  '1h', '2h', '4h', '8h', '12h',
+  '1d', '3d', '1w', '1M'
+] as const;
+
+export type CandleInterval = typeof CANDLE_INTERVALS[number];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': MINUTE,
+  '3m': 3 * MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': HOUR,
+  '2h': 2 * HOUR,
+  '4h': 4 * HOUR,
+  '8h': 8 * HOUR,
+  '12h': 12 * HOUR,
+  '1d': DAY,
+  '3d': 3 * DAY,
+  '1w': 7 * DAY,
+  '1M': 30 * DAY // Approximate; only used to size page requests
+};
+
+// Candles requested per page; the API returns at most 5000 per request
+export const CANDLE_PAGE_SIZE = 500;
+
+export interface Candle {
+  time: number;   // Open time (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+}
+
+export const parseCandle = (snapshot: CandleSnapshot): Candle => ({
+  time: snapshot.t,
+  open: parseFloat(snapshot.o),
+  high: parseFloat(snapshot.h),
+  low: parseFloat(snapshot.l),
+  close: parseFloat(snapshot.c),
+  volume: parseFloat(snapshot.v),
+  trades: snapshot.n
+});
+
+/**
+ * Merge candles into a time-sorted series; incoming candles replace existing
+ * ones with the same open time (e.g. live updates to the forming candle)
+ */
+export const mergeCandles = (existing: Candle[], incoming: Candle[]): Candle[] => {
+  if (incoming.length === 0) return existing;
+
+  // Fast path for the common live update: the last candle or a new one after it
+  if (incoming.length === 1 && existing.length > 0) {
+    const [candle] = incoming;
+    const last = existing[existing.length - 1];
+    if (candle.time === last.time) return [...existing.slice(0, -1), candle];
+    if (candle.time > last.time) return [...existing, candle];
+  }
+
+  const byTime = new Map(existing.map(candle => [candle.time, candle]));
+  incoming.forEach(candle => byTime.set(candle.time, candle));
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+};
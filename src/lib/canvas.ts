@@ -0,0 +1,37 @@
+// Helpers for the canvas-based chart renderers
+
+/**
+ * Resolve a theme color (an HSL triplet CSS variable such as --success) for canvas drawing
+ */
+export const themeColor = (variable: string, alpha: number = 1): string => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(`--${variable}`).trim();
+  if (!value) return `rgba(128, 128, 128, ${alpha})`;
+
+  const [hue, saturation, lightness] = value.split(/\s+/);
+  return `hsla(${hue}, ${saturation}, ${lightness}, ${alpha})`;
+};
+
+/**
+ * Size a canvas's backing store for the device pixel ratio and return a
+ * context scaled so drawing can use CSS pixels
+ */
+export const prepareCanvas = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number
+): CanvasRenderingContext2D | null => {
+  const ratio = window.devicePixelRatio || 1;
+  const pixelWidth = Math.floor(width * ratio);
+  const pixelHeight = Math.floor(height * ratio);
+
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+  }
+
+  const context = canvas.getContext('2d');
+  context?.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return context;
+};
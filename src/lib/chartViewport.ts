@@ -0,0 +1,156 @@
+import type { Candle } from '@/lib/candles';
+
+// Maps between candle data (index, time, price) and chart pixels. Shared by
+// the candle renderer and anything drawn on top of it (orders, drawings).
+export interface ChartViewport {
+  plotWidth: number;     // Width of the plot, excluding the price axis
+  priceTop: number;      // Top of the price pane
+  priceBottom: number;   // Bottom of the price pane (volume sits below)
+  barSpacing: number;    // Pixels per candle
+  firstIndex: number;    // First visible candle index
+  lastIndex: number;     // Last visible candle index
+  minPrice: number;
+  maxPrice: number;
+  indexToX: (index: number) => number;
+  xToIndex: (x: number) => number;
+  timeToX: (time: number) => number;
+  xToTime: (x: number) => number;
+  priceToY: (price: number) => number;
+  yToPrice: (y: number) => number;
+}
+
+export interface ViewportOptions {
+  candles: Candle[];
+  intervalMs: number;
+  plotWidth: number;
+  priceTop: number;
+  priceBottom: number;
+  barSpacing: number;
+  rightOffset: number;  // Candles scrolled back from the latest; negative leaves space on the right
+  extraPrices?: number[]; // Prices that should stay in view (e.g. resting orders)
+}
+
+const PRICE_PADDING = 0.05;
+
+// Index of the candle at or before `time`, or -1 if `time` precedes the series
+const findIndexAtOrBefore = (candles: Candle[], time: number): number => {
+  let low = 0;
+  let high = candles.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (candles[middle].time <= time) {
+      result = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return result;
+};
+
+/**
+ * Build the coordinate mapping for the current scroll and zoom
+ */
+export const createViewport = ({
+  candles,
+  intervalMs,
+  plotWidth,
+  priceTop,
+  priceBottom,
+  barSpacing,
+  rightOffset,
+  extraPrices = []
+}: ViewportOptions): ChartViewport => {
+  const latestIndex = candles.length - 1;
+
+  const indexToX = (index: number) =>
+    plotWidth - (latestIndex - index + rightOffset + 0.5) * barSpacing;
+  const xToIndex = (x: number) =>
+    latestIndex + rightOffset + 0.5 - (plotWidth - x) / barSpacing;
+
+  const firstIndex = Math.max(0, Math.floor(xToIndex(0)));
+  const lastIndex = Math.min(latestIndex, Math.ceil(xToIndex(plotWidth)));
+
+  let minPrice = Infinity;
+  let maxPrice = -Infinity;
+  for (let i = firstIndex; i <= lastIndex; i++) {
+    minPrice = Math.min(minPrice, candles[i].low);
+    maxPrice = Math.max(maxPrice, candles[i].high);
+  }
+  extraPrices.forEach(price => {
+    if (!(price > 0)) return;
+    minPrice = Math.min(minPrice, price);
+    maxPrice = Math.max(maxPrice, price);
+  });
+
+  if (!isFinite(minPrice) || !isFinite(maxPrice)) {
+    minPrice = 0;
+    maxPrice = 1;
+  }
+  const padding = (maxPrice - minPrice || maxPrice || 1) * PRICE_PADDING;
+  minPrice -= padding;
+  maxPrice += padding;
+
+  const priceHeight = priceBottom - priceTop;
+  const priceToY = (price: number) =>
+    priceTop + ((maxPrice - price) / (maxPrice - minPrice)) * priceHeight;
+  const yToPrice = (y: number) =>
+    maxPrice - ((y - priceTop) / priceHeight) * (maxPrice - minPrice);
+
+  // Times inside the series map through the candles, so gaps are handled;
+  // times outside it are extrapolated at the interval
+  const timeToIndex = (time: number): number => {
+    if (candles.length === 0) return 0;
+    if (time < candles[0].time) return (time - candles[0].time) / intervalMs;
+    if (time >= candles[latestIndex].time) {
+      return latestIndex + (time - candles[latestIndex].time) / intervalMs;
+    }
+
+    const index = findIndexAtOrBefore(candles, time);
+    const span = candles[index + 1].time - candles[index].time;
+    return index + (time - candles[index].time) / span;
+  };
+
+  const indexToTime = (index: number): number => {
+    if (candles.length === 0) return 0;
+    if (index <= 0) return candles[0].time + index * intervalMs;
+    if (index >= latestIndex) return candles[latestIndex].time + (index - latestIndex) * intervalMs;
+
+    const whole = Math.floor(index);
+    const span = candles[whole + 1].time - candles[whole].time;
+    return candles[whole].time + (index - whole) * span;
+  };
+
+  return {
+    plotWidth,
+    priceTop,
+    priceBottom,
+    barSpacing,
+    firstIndex,
+    lastIndex,
+    minPrice,
+    maxPrice,
+    indexToX,
+    xToIndex,
+    timeToX: (time: number) => indexToX(timeToIndex(time)),
+    xToTime: (x: number) => indexToTime(xToIndex(x)),
+    priceToY,
+    yToPrice
+  };
+};
+
+/**
+ * Round price axis steps to 1, 2 or 5 times a power of ten
+ */
+export const niceStep = (range: number, targetTicks: number): number => {
+  const rough = range / Math.max(targetTicks, 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+
+  if (normalized < 1.5) return magnitude;
+  if (normalized < 3) return 2 * magnitude;
+  if (normalized < 7) return 5 * magnitude;
+  return 10 * magnitude;
+};
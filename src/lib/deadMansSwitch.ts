@@ -0,0 +1,46 @@
+// Dead-man's switch on top of the exchange's scheduleCancel action, which
+// cancels all of the user's open orders at a set time. While the app is open
+// and online it keeps pushing that time back, so orders are only cancelled
+// once it stops refreshing: the tab was closed or the connection dropped.
+
+export interface DeadMansSwitchSettings {
+  enabled: boolean;
+  timeoutSeconds: number;   // How long after the last refresh orders are cancelled
+}
+
+export const DEFAULT_DEAD_MANS_SWITCH: DeadMansSwitchSettings = {
+  enabled: false,
+  timeoutSeconds: 60
+};
+
+export const DEAD_MANS_SWITCH_TIMEOUTS = [30, 60, 120, 300, 900, 3600];
+
+// The exchange rejects cancel times less than 5 seconds away
+export const MIN_SCHEDULE_CANCEL_DELAY_MS = 5000;
+
+/**
+ * How often to push the cancel time back: three times per timeout, so one
+ * failed refresh still leaves time for another before orders are cancelled
+ */
+export const getRefreshInterval = (timeoutSeconds: number): number =>
+  Math.max(MIN_SCHEDULE_CANCEL_DELAY_MS, Math.floor((timeoutSeconds * 1000) / 3));
+
+/**
+ * Short label for a timeout, e.g. "30s", "5m" or "1h"
+ */
+export const formatSwitchTimeout = (seconds: number): string => {
+  if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds >= 60 && seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+};
+
+/**
+ * Time left as m:ss, or h:mm:ss from an hour up
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
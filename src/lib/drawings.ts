@@ -0,0 +1,109 @@
+import { migrate } from '@/lib/persistence';
+
+// Chart drawings are anchored to candle time and price rather than pixels, so
+// they stay in place as the chart scrolls, zooms and rescales.
+
+export type DrawingTool = 'trendline' | 'horizontalRay' | 'fibonacci' | 'rectangle' | 'text';
+
+export interface DrawingPoint {
+  time: number;   // ms
+  price: number;
+}
+
+export interface Drawing {
+  id: string;
+  tool: DrawingTool;
+  points: DrawingPoint[];
+  text?: string;     // Text notes only
+  createdAt: number;
+}
+
+export interface DrawingToolDefinition {
+  tool: DrawingTool;
+  label: string;
+  pointCount: number;  // Points placed to complete the drawing
+}
+
+export const DRAWING_TOOLS: DrawingToolDefinition[] = [
+  { tool: 'trendline', label: 'Trendline', pointCount: 2 },
+  { tool: 'horizontalRay', label: 'Horizontal ray', pointCount: 1 },
+  { tool: 'fibonacci', label: 'Fib retracement', pointCount: 2 },
+  { tool: 'rectangle', label: 'Rectangle', pointCount: 2 },
+  { tool: 'text', label: 'Text note', pointCount: 1 }
+];
+
+export const getPointCount = (tool: DrawingTool): number =>
+  DRAWING_TOOLS.find(definition => definition.tool === tool)!.pointCount;
+
+// Retracement levels, measured from the second point back towards the first
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+/**
+ * Drawings are stored per market and candle interval
+ */
+export const drawingsKey = (coin: string, interval: string): string => `${coin}:${interval}`;
+
+export const createDrawingId = (): string =>
+  `drawing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Identifies files produced by exporting drawings
+const DRAWINGS_EXPORT_TYPE = 'prep-trade/chart-drawings';
+
+export interface DrawingsExport {
+  type: typeof DRAWINGS_EXPORT_TYPE;
+  version: number;
+  exportedAt: number;
+  coin: string;
+  interval: string;
+  drawings: Drawing[];
+}
+
+const isDrawingPoint = (value: unknown): value is DrawingPoint => {
+  const point = value as Partial<DrawingPoint> | null;
+  return !!point && Number.isFinite(point.time) && Number.isFinite(point.price);
+};
+
+const isDrawing = (value: unknown): value is Drawing => {
+  const drawing = value as Partial<Drawing> | null;
+  return !!drawing &&
+    DRAWING_TOOLS.some(definition => definition.tool === drawing.tool) &&
+    Array.isArray(drawing.points) &&
+    drawing.points.length === getPointCount(drawing.tool!) &&
+    drawing.points.every(isDrawingPoint) &&
+    (drawing.text === undefined || typeof drawing.text === 'string');
+};
+
+/**
+ * Build an export file for one market's drawings
+ */
+export const createDrawingsExport = (
+  coin: string,
+  interval: string,
+  drawings: Drawing[],
+  version: number
+): DrawingsExport => ({
+  type: DRAWINGS_EXPORT_TYPE,
+  version,
+  exportedAt: Date.now(),
+  coin,
+  interval,
+  drawings
+});
+
+/**
+ * Validate and migrate the contents of an exported drawings file
+ */
+export const parseDrawingsExport = (value: unknown): Drawing[] => {
+  const file = value as Partial<DrawingsExport> | null;
+  if (file?.type !== DRAWINGS_EXPORT_TYPE || typeof file.version !== 'number' || !Array.isArray(file.drawings)) {
+    throw new Error('Not a chart drawings file');
+  }
+
+  const drawings = migrate<unknown[]>(file.drawings, file.version, 'chartDrawings');
+  const invalid = drawings.filter(drawing => !isDrawing(drawing));
+  if (invalid.length > 0) {
+    throw new Error(`${invalid.length} drawing(s) in the file are invalid`);
+  }
+
+  return drawings as Drawing[];
+};
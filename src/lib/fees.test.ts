@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { UserFees } from '@/types/hyperliquid';
+import { getFeeTierProgress, resolveFeeRates } from './fees';
+
+// Base tier plus one VIP tier at $5M, with a 10% referral discount
+const FEES: UserFees = {
+  dailyUserVlm: [{ date: '2026-10-01', userCross: '1000000', userAdd: '0', exchange: '1000000000' }],
+  feeSchedule: {
+    cross: '0.00045',
+    add: '0.00015',
+    spotCross: '0.0007',
+    spotAdd: '0.0004',
+    tiers: {
+      vip: [{ ntlCutoff: '5000000', cross: '0.0004', add: '0.00012', spotCross: '0.0006', spotAdd: '0.0003' }],
+      mm: []
+    },
+    referralDiscount: '0.04'
+  },
+  userCrossRate: '0.000315',
+  userAddRate: '0.0001',
+  activeReferralDiscount: '0.1',
+  activeStakingDiscount: null
+};
+
+describe('resolveFeeRates', () => {
+  it('uses the rates reported by the exchange', () => {
+    expect(resolveFeeRates(FEES)).toEqual({ taker: 0.000315, maker: 0.0001 });
+  });
+
+  it('derives the rates from the schedule and discounts when none are reported', () => {
+    const rates = resolveFeeRates({ ...FEES, userCrossRate: '', userAddRate: '' });
+
+    expect(rates.taker).toBeCloseTo(0.00045 * 0.9, 10);
+    expect(rates.maker).toBeCloseTo(0.00015 * 0.9, 10);
+  });
+});
+
+describe('getFeeTierProgress', () => {
+  it('reports the exchange rates for the current tier', () => {
+    const progress = getFeeTierProgress(FEES);
+
+    expect(progress.tier).toBe(0);
+    expect(progress.rates).toEqual({ taker: 0.000315, maker: 0.0001 });
+    expect(progress.nextTierVolume).toBe(5000000);
+    expect(progress.nextRates?.taker).toBeCloseTo(0.0004 * 0.9, 10);
+  });
+});
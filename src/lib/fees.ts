@@ -0,0 +1,142 @@
+import type { FeeStructure, Fill, UserFees } from '@/types/hyperliquid';
+
+// Fee rates from the exchange's fee schedule. Taker ("cross") rates apply to
+// orders that take liquidity and maker ("add") rates to resting orders. VIP
+// tiers are set by 14-day volume, and makers with a large enough share of
+// exchange maker volume earn rebates, shown as negative rates.
+
+export interface FeeRates {
+  taker: number;
+  maker: number;
+}
+
+// Base tier, for previews before the user's fees are loaded
+export const DEFAULT_FEE_RATES: FeeRates = { taker: 0.00045, maker: 0.00015 };
+
+// Days of volume counted toward fee tiers
+export const FEE_VOLUME_DAYS = 14;
+
+export interface FeeTierProgress {
+  volume: number;                 // Taker plus maker volume over FEE_VOLUME_DAYS
+  tier: number;                   // 0 for the base tier, VIP tiers from 1
+  rates: FeeRates;                // Effective rates, after discounts
+  nextTierVolume: number | null;  // null at the top tier
+  nextRates: FeeRates | null;     // Effective rates at the next tier
+  progress: number;               // Share of the way to the next tier, 0-1
+}
+
+const getRecentVolume = (fees: UserFees) =>
+  fees.dailyUserVlm.slice(-FEE_VOLUME_DAYS).reduce(
+    (totals, day) => ({
+      taker: totals.taker + parseFloat(day.userCross),
+      maker: totals.maker + parseFloat(day.userAdd),
+      exchange: totals.exchange + parseFloat(day.exchange)
+    }),
+    { taker: 0, maker: 0, exchange: 0 }
+  );
+
+const getVipTiers = (schedule: FeeStructure) =>
+  [...schedule.tiers.vip].sort((a, b) => parseFloat(a.ntlCutoff) - parseFloat(b.ntlCutoff));
+
+const getTierRates = (schedule: FeeStructure, tier: number): FeeRates => {
+  const vip = tier > 0 ? getVipTiers(schedule)[tier - 1] : schedule;
+  return { taker: parseFloat(vip.cross), maker: parseFloat(vip.add) };
+};
+
+/**
+ * Combined referral and staking discount. Discounts stack multiplicatively
+ * and only reduce fees, never rebates.
+ */
+export const getFeeDiscount = (fees: UserFees): number => {
+  const referral = parseFloat(fees.activeReferralDiscount) || 0;
+  const staking = parseFloat(fees.activeStakingDiscount?.discount ?? '0') || 0;
+  return 1 - (1 - referral) * (1 - staking);
+};
+
+const applyDiscount = (rates: FeeRates, discount: number): FeeRates => ({
+  taker: rates.taker * (1 - discount),
+  maker: rates.maker > 0 ? rates.maker * (1 - discount) : rates.maker
+});
+
+/**
+ * The VIP tier reached by a volume, 0 for the base tier
+ */
+export const getVipTier = (schedule: FeeStructure, volume: number): number =>
+  getVipTiers(schedule).filter(tier => volume >= parseFloat(tier.ntlCutoff)).length;
+
+// Rates from the fee schedule: the VIP tier's rates, the best maker rebate the
+// user's share of exchange maker volume qualifies for, then discounts
+const deriveFeeRates = (fees: UserFees): FeeRates => {
+  const schedule = fees.feeSchedule;
+  const volume = getRecentVolume(fees);
+  const rates = getTierRates(schedule, getVipTier(schedule, volume.taker + volume.maker));
+
+  const makerFraction = volume.exchange > 0 ? volume.maker / volume.exchange : 0;
+  const rebates = schedule.tiers.mm
+    .filter(tier => makerFraction >= parseFloat(tier.makerFractionCutoff))
+    .map(tier => parseFloat(tier.add));
+  const maker = Math.min(rates.maker, ...rebates);
+
+  return applyDiscount({ taker: rates.taker, maker }, getFeeDiscount(fees));
+};
+
+/**
+ * The user's effective maker and taker rates. The exchange reports these with
+ * referral and staking discounts applied; when it doesn't, they are derived
+ * from the fee schedule.
+ */
+export const resolveFeeRates = (fees: UserFees): FeeRates => {
+  const taker = parseFloat(fees.userCrossRate);
+  const maker = parseFloat(fees.userAddRate);
+  if (Number.isFinite(taker) && Number.isFinite(maker)) {
+    return { taker, maker };
+  }
+
+  return deriveFeeRates(fees);
+};
+
+/**
+ * Where the user stands in the VIP tiers and what the next tier would pay
+ */
+export const getFeeTierProgress = (fees: UserFees): FeeTierProgress => {
+  const schedule = fees.feeSchedule;
+  const recent = getRecentVolume(fees);
+  const volume = recent.taker + recent.maker;
+  const tiers = getVipTiers(schedule);
+  const tier = getVipTier(schedule, volume);
+
+  const previousCutoff = tier > 0 ? parseFloat(tiers[tier - 1].ntlCutoff) : 0;
+  const nextTierVolume = tier < tiers.length ? parseFloat(tiers[tier].ntlCutoff) : null;
+
+  return {
+    volume,
+    tier,
+    rates: resolveFeeRates(fees),
+    nextTierVolume,
+    nextRates: nextTierVolume !== null ? applyDiscount(getTierRates(schedule, tier + 1), getFeeDiscount(fees)) : null,
+    progress: nextTierVolume !== null
+      ? Math.min(1, Math.max(0, (volume - previousCutoff) / (nextTierVolume - previousCutoff)))
+      : 1
+  };
+};
+
+/**
+ * Fee for an order's notional value; negative for maker rebates
+ */
+export const estimateFee = (notional: number, rates: FeeRates, isTaker: boolean): number =>
+  notional * (isTaker ? rates.taker : rates.maker);
+
+/**
+ * A fill's realized PnL after its fee. Fills that open a position have no
+ * closed PnL, so their net PnL is just the fee paid.
+ */
+export const getFillNetPnl = (fill: Fill): number =>
+  parseFloat(fill.closedPnl) - parseFloat(fill.fee);
+
+/**
+ * The fee rate a fill was charged, from its fee and notional value
+ */
+export const getFillFeeRate = (fill: Fill): number => {
+  const notional = parseFloat(fill.sz) * parseFloat(fill.px);
+  return notional > 0 ? parseFloat(fill.fee) / notional : 0;
+};
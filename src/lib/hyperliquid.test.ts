@@ -0,0 +1,193 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { ExchangeRequest, ExchangeResponse, OrderAction, OrderWire } from '@/types/hyperliquid';
+import { HyperliquidAPI, HyperliquidExchange } from './hyperliquid';
+import { signL1Action } from './signing';
+
+// A local HTTP server standing in for the exchange: it records every request
+// body and answers with the next queued response
+interface MockReply {
+  status?: number;
+  body: unknown;
+}
+
+interface RecordedRequest {
+  path?: string;
+  body: ExchangeRequest;
+}
+
+const requests: RecordedRequest[] = [];
+const replies: MockReply[] = [];
+
+const server: Server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    requests.push({ path: req.url, body: JSON.parse(raw) });
+    const reply = replies.shift() ?? { status: 500, body: 'No reply queued' };
+    res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+    res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+  });
+});
+
+const wallet = privateKeyToAccount('0x0123456789012345678901234567890123456789012345678901234567890123');
+const CLOID = '0x1234567890abcdef1234567890abcdef';
+
+const LIMIT_WIRE: OrderWire = { a: 0, b: true, p: '60000', s: '0.01', r: false, t: { limit: { tif: 'Gtc' } }, c: CLOID };
+
+const statuses = (...items: unknown[]): ExchangeResponse => ({
+  status: 'ok',
+  response: { type: 'order', data: { statuses: items as never } }
+});
+
+let exchange: HyperliquidExchange;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  exchange = new HyperliquidExchange(new HyperliquidAPI({ baseURL: `http://127.0.0.1:${port}` }));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  replies.length = 0;
+});
+
+describe('HyperliquidExchange requests', () => {
+  it('posts a signed order action', async () => {
+    replies.push({ body: statuses({ resting: { oid: 77, cloid: CLOID } }) });
+
+    await exchange.order([LIMIT_WIRE], wallet);
+
+    const [{ path, body }] = requests;
+    expect(path).toBe('/exchange');
+    expect(body.action).toEqual({ type: 'order', orders: [LIMIT_WIRE], grouping: 'na' });
+    // Field order is part of the signed msgpack bytes
+    expect(Object.keys((body.action as OrderAction).orders[0])).toEqual(['a', 'b', 'p', 's', 'r', 't', 'c']);
+    expect(body.vaultAddress).toBeNull();
+    expect(body.signature).toEqual(
+      await signL1Action({ signer: wallet, action: body.action, nonce: body.nonce, isMainnet: true })
+    );
+  });
+
+  it('uses strictly increasing nonces', async () => {
+    replies.push({ body: statuses('success') }, { body: statuses('success') });
+
+    await exchange.cancel([{ asset: 0, oid: 1 }], wallet);
+    await exchange.cancel([{ asset: 0, oid: 2 }], wallet);
+
+    expect(requests[1].body.nonce).toBeGreaterThan(requests[0].body.nonce);
+  });
+
+  it('posts cancels by order ID and by cloid', async () => {
+    replies.push({ body: statuses('success') }, { body: statuses('success') });
+
+    await exchange.cancel([{ asset: 3, oid: 91 }], wallet);
+    await exchange.cancelByCloid([{ asset: 3, cloid: CLOID }], wallet);
+
+    expect(requests[0].body.action).toEqual({ type: 'cancel', cancels: [{ a: 3, o: 91 }] });
+    expect(requests[1].body.action).toEqual({ type: 'cancelByCloid', cancels: [{ asset: 3, cloid: CLOID }] });
+  });
+
+  it('posts modify and batchModify actions', async () => {
+    replies.push({ body: { status: 'ok', response: { type: 'default' } } }, { body: statuses({ resting: { oid: 5 } }) });
+
+    await exchange.modify(CLOID, LIMIT_WIRE, wallet);
+    await exchange.batchModify([{ oid: 4, order: LIMIT_WIRE }], wallet);
+
+    expect(requests[0].body.action).toEqual({ type: 'modify', oid: CLOID, order: LIMIT_WIRE });
+    expect(requests[1].body.action).toEqual({ type: 'batchModify', modifies: [{ oid: 4, order: LIMIT_WIRE }] });
+  });
+});
+
+describe('HyperliquidExchange status parsing', () => {
+  it('maps resting, filled and error statuses per order', async () => {
+    replies.push({
+      body: statuses(
+        { resting: { oid: 10, cloid: CLOID } },
+        { filled: { totalSz: '0.02', avgPx: '59990.5', oid: 11 } },
+        { error: 'Insufficient margin to place order.' }
+      )
+    });
+
+    const results = await exchange.order([LIMIT_WIRE, LIMIT_WIRE, LIMIT_WIRE], wallet);
+
+    expect(results).toEqual([
+      { success: true, orderId: '10', cloid: CLOID, status: 'resting' },
+      { success: true, orderId: '11', cloid: undefined, status: 'filled', filledSize: 0.02, averagePrice: 59990.5 },
+      { success: false, error: 'Insufficient margin to place order.' }
+    ]);
+  });
+
+  it('treats bare string statuses of TP/SL children as pending', async () => {
+    replies.push({ body: statuses({ resting: { oid: 20 } }, 'waitingForFill', 'waitingForTrigger') });
+
+    const results = await exchange.order([LIMIT_WIRE, LIMIT_WIRE, LIMIT_WIRE], wallet, 'normalTpsl');
+
+    expect((requests[0].body.action as OrderAction).grouping).toBe('normalTpsl');
+    expect(results).toEqual([
+      { success: true, orderId: '20', cloid: undefined, status: 'resting' },
+      { success: true, status: 'pending' },
+      { success: true, status: 'pending' }
+    ]);
+  });
+
+  it('maps successful cancels', async () => {
+    replies.push({ body: statuses('success', { error: 'Order was never placed, already canceled, or filled.' }) });
+
+    const results = await exchange.cancel([{ asset: 0, oid: 1 }, { asset: 0, oid: 2 }], wallet);
+
+    expect(results).toEqual([
+      { success: true },
+      { success: false, error: 'Order was never placed, already canceled, or filled.' }
+    ]);
+  });
+
+  it('reports the cloid when a modify returns no statuses', async () => {
+    replies.push({ body: { status: 'ok', response: { type: 'default' } } });
+
+    expect(await exchange.modify(7, LIMIT_WIRE, wallet)).toEqual({ success: true, cloid: CLOID });
+  });
+
+  it('returns one result per order when statuses are missing', async () => {
+    replies.push(
+      { body: { status: 'ok', response: { type: 'default' } } },
+      { body: statuses({ resting: { oid: 30 } }, { resting: { oid: 31 } }, { resting: { oid: 32 } }) }
+    );
+
+    expect(await exchange.order([LIMIT_WIRE, LIMIT_WIRE], wallet)).toEqual([
+      { success: false, error: 'No status returned' },
+      { success: false, error: 'No status returned' }
+    ]);
+    expect(await exchange.order([LIMIT_WIRE, LIMIT_WIRE], wallet)).toEqual([
+      { success: true, orderId: '30', cloid: undefined, status: 'resting' },
+      { success: true, orderId: '31', cloid: undefined, status: 'resting' }
+    ]);
+  });
+
+  it('fails every order when the action is rejected', async () => {
+    replies.push({ body: { status: 'err', response: 'User or API Wallet does not exist.' } });
+
+    const results = await exchange.order([LIMIT_WIRE, LIMIT_WIRE], wallet);
+
+    expect(results).toEqual([
+      { success: false, error: 'User or API Wallet does not exist.' },
+      { success: false, error: 'User or API Wallet does not exist.' }
+    ]);
+  });
+
+  it('keeps the HTTP status of failed requests', async () => {
+    replies.push({ status: 422, body: 'Failed to deserialize the JSON body' });
+
+    await expect(exchange.order([LIMIT_WIRE], wallet)).rejects.toMatchObject({
+      code: 'HTTP_ERROR',
+      status: 422
+    });
+  });
+});
@@ -11,18 +11,38 @@ import {
   APIRequest,
   APIResponse,
   RateLimitInfo,
-  FeeStructure,
+  UserFees,
   UserPortfolio,
   Market,
   Position,
-  HyperliquidError
+  HyperliquidError,
+  ExchangeAction,
+  ExchangeRequest,
+  ExchangeResponse,
+  ExchangeOrderStatus,
+  OrderExecutionResult,
+  OrderWire,
+  OrderGrouping,
+  OrderStatusResponse,
+  ModifyWire,
+  ApproveAgentAction,
+  TwapWire,
+  TwapExecutionResult,
+  TwapHistoryEntry,
+  TwapSliceFill,
+  ActionResult
 } from '@/types/hyperliquid';
 import { handleApiError } from '@/hooks/useNetworkRecovery';
+import { nextNonce, signApproveAgent, signL1Action, HyperliquidSigner } from '@/lib/signing';
+import { AssetRegistry } from '@/lib/assetRegistry';
+import type { BookGrouping } from '@/lib/orderBook';
+import { describeOrderStatus } from '@/lib/orderLifecycle';
 
 class HyperliquidAPI {
   private config: HyperliquidConfig;
   private cache: Map<string, { data: any; timestamp: number; ttl: number }> = new Map();
   private rateLimitTracker: Map<string, number[]> = new Map();
+  private assetRegistry: { meta: MetaResponse; registry: AssetRegistry } | null = null;
 
   constructor(config?: Partial<HyperliquidConfig>) {
     this.config = {
@@ -37,32 +57,46 @@ class HyperliquidAPI {
     return this.config.isTestnet ? this.config.testnetURL : this.config.baseURL;
   }
 
-  private async makeRequest<T>(endpoint: string, body: APIRequest): Promise<T> {
+  async makeRequest<T>(endpoint: '/info' | '/exchange', body: APIRequest | ExchangeRequest): Promise<T> {
     const url = `${this.getBaseURL()}${endpoint}`;
     
+    // The code and status tell callers whether the request reached the
+    // exchange, which decides whether repeating it is safe
+    let response: Response;
     try {
-      const response = await fetch(url, {
+      response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(body),
       });
+    } catch (error) {
+      console.error(`Hyperliquid API Error (${endpoint}):`, error);
+      throw this.createError('NETWORK_ERROR', `Network error calling ${endpoint}`, error);
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      console.error(`Hyperliquid API Error (${endpoint}): HTTP ${response.status}`, text);
+      throw this.createError(
+        'HTTP_ERROR',
+        `HTTP ${response.status} from ${endpoint}${text ? `: ${text}` : ''}`,
+        text,
+        response.status
+      );
+    }
 
-      const data = await response.json();
-      return data;
+    try {
+      return await response.json();
     } catch (error) {
       console.error(`Hyperliquid API Error (${endpoint}):`, error);
-      throw this.createError('API_REQUEST_FAILED', `Failed to fetch from ${endpoint}`, error);
+      throw this.createError('API_REQUEST_FAILED', `Invalid response from ${endpoint}`, error, response.status);
     }
   }
 
-  private createError(code: string, message: string, details?: any): HyperliquidError {
-    return { code, message, details };
+  private createError(code: string, message: string, details?: any, status?: number): HyperliquidError {
+    return { code, message, status, details };
   }
 
   private getCacheKey(method: string, params: any): string {
@@ -138,14 +172,15 @@ class HyperliquidAPI {
   /**
    * Get L2 order book snapshot
    */
-  async getL2Book(coin: string): Promise<L2BookSnapshot> {
-    const cacheKey = this.getCacheKey('l2Book', { coin });
+  async getL2Book(coin: string, grouping?: BookGrouping): Promise<L2BookSnapshot> {
+    const cacheKey = this.getCacheKey('l2Book', { coin, ...grouping });
     const cached = this.getFromCache<L2BookSnapshot>(cacheKey);
     if (cached) return cached;
 
     const data = await this.makeRequest<L2BookSnapshot>('/info', {
       type: 'l2Book',
-      coin
+      coin,
+      ...grouping
     });
 
     this.setCache(cacheKey, data, 1000); // 1 second cache
@@ -193,16 +228,28 @@ class HyperliquidAPI {
   }
 
   /**
-   * Get user's open orders
+   * Get user's open orders, including trigger details (isTrigger, triggerPx, orderType)
    */
   async getOpenOrders(user: string): Promise<OpenOrder[]> {
     const data = await this.makeRequest<OpenOrder[]>('/info', {
-      type: 'openOrders',
+      type: 'frontendOpenOrders',
       user
     });
     return data;
   }
 
+  /**
+   * Look up one of the user's orders by exchange order ID or client order ID
+   */
+  async getOrderStatus(user: string, oid: number | string): Promise<OrderStatusResponse> {
+    const data = await this.makeRequest<OrderStatusResponse>('/info', {
+      type: 'orderStatus',
+      user,
+      oid
+    });
+    return data;
+  }
+
   /**
    * Get user's recent fills
    */
@@ -231,6 +278,28 @@ class HyperliquidAPI {
     return data;
   }
 
+  /**
+   * Get user's TWAP orders with their current status and executed size
+   */
+  async getTwapHistory(user: string): Promise<TwapHistoryEntry[]> {
+    const data = await this.makeRequest<TwapHistoryEntry[]>('/info', {
+      type: 'twapHistory',
+      user
+    });
+    return data;
+  }
+
+  /**
+   * Get fills from the user's TWAP slices, tagged with their TWAP ID
+   */
+  async getUserTwapSliceFills(user: string): Promise<TwapSliceFill[]> {
+    const data = await this.makeRequest<TwapSliceFill[]>('/info', {
+      type: 'userTwapSliceFills',
+      user
+    });
+    return data;
+  }
+
   /**
    * Get user's rate limit info
    */
@@ -245,11 +314,17 @@ class HyperliquidAPI {
   /**
    * Get user's fee structure
    */
-  async getUserFees(user: string): Promise<FeeStructure> {
-    const data = await this.makeRequest<FeeStructure>('/info', {
+  async getUserFees(user: string): Promise<UserFees> {
+    const cacheKey = this.getCacheKey('userFees', { user });
+    const cached = this.getFromCache<UserFees>(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.makeRequest<UserFees>('/info', {
       type: 'userFees',
       user
     });
+
+    this.setCache(cacheKey, data, 60000); // Volume and tiers change slowly
     return data;
   }
 
@@ -330,7 +405,8 @@ class HyperliquidAPI {
           pnl,
           pnlPercent,
           marginUsed: parseFloat(pos.marginUsed),
-          leverage: pos.leverage.value
+          leverage: pos.leverage.value,
+          marginMode: pos.leverage.type
         };
       });
     } catch (error) {
@@ -385,6 +461,34 @@ class HyperliquidAPI {
     }
   }
 
+  /**
+   * Get the symbol registry for the current perp universe
+   */
+  async getAssetRegistry(): Promise<AssetRegistry> {
+    const meta = await this.getMeta();
+
+    // Rebuild only when the cached metadata has been refreshed
+    if (this.assetRegistry?.meta !== meta) {
+      this.assetRegistry = { meta, registry: new AssetRegistry(meta) };
+    }
+
+    return this.assetRegistry.registry;
+  }
+
+  /**
+   * Resolve a coin or pair ("BTC", "BTC/USD") to its index in the perp universe
+   */
+  async getAssetIndex(symbol: string): Promise<number> {
+    const registry = await this.getAssetRegistry();
+    const asset = registry.get(symbol);
+
+    if (!asset) {
+      throw this.createError('UNKNOWN_ASSET', `Unknown asset: ${symbol}`);
+    }
+
+    return asset.index;
+  }
+
   // ==================== UTILITY METHODS ====================
 
   /**
@@ -404,6 +508,14 @@ class HyperliquidAPI {
    */
   clearCache(): void {
     this.cache.clear();
+    this.assetRegistry = null;
+  }
+
+  /**
+   * Whether requests currently target mainnet
+   */
+  isMainnet(): boolean {
+    return !this.config.isTestnet;
   }
 
   /**
@@ -415,11 +527,301 @@ class HyperliquidAPI {
   }
 }
 
-// Create and export singleton instance
+/**
+ * Map the per-order statuses of an /exchange response onto execution results,
+ * one per order sent; orders the exchange returned no status for are failures
+ */
+export const parseOrderStatuses = (
+  response: ExchangeResponse,
+  expectedCount: number
+): OrderExecutionResult[] => {
+  if (response.status === 'err' || typeof response.response === 'string') {
+    const error = typeof response.response === 'string' ? response.response : 'Exchange rejected the request';
+    return Array.from({ length: expectedCount }, () => ({ success: false, error }));
+  }
+
+  const statuses: ExchangeOrderStatus[] = response.response.data?.statuses ?? [];
+
+  return Array.from({ length: expectedCount }, (_, index): OrderExecutionResult => {
+    const status = statuses[index];
+    if (status === undefined) {
+      return { success: false, error: 'No status returned' };
+    }
+    if (typeof status === 'string') {
+      return status === 'success' ? { success: true } : { success: true, status: 'pending' };
+    }
+    if ('resting' in status) {
+      return { success: true, orderId: status.resting.oid.toString(), cloid: status.resting.cloid, status: 'resting' };
+    }
+    if ('filled' in status) {
+      return {
+        success: true,
+        orderId: status.filled.oid.toString(),
+        cloid: status.filled.cloid,
+        status: 'filled',
+        filledSize: parseFloat(status.filled.totalSz),
+        averagePrice: parseFloat(status.filled.avgPx)
+      };
+    }
+    return { success: false, error: status.error };
+  });
+};
+
+/**
+ * Map an orderStatus lookup onto the result placing the order returned
+ */
+export const parseOrderLookup = (response: OrderStatusResponse): OrderExecutionResult => {
+  if (response.status !== 'order') {
+    return { success: false, error: 'Order was not accepted by the exchange' };
+  }
+
+  const { order, status } = response.order;
+  const base = { orderId: order.oid.toString(), cloid: order.cloid ?? undefined };
+  const filledSize = parseFloat(order.origSz) - parseFloat(order.sz);
+
+  if (status === 'open' || status === 'triggered') {
+    return { ...base, success: true, status: 'resting' };
+  }
+  if (filledSize > 0) {
+    return { ...base, success: true, status: 'filled', filledSize };
+  }
+  return { ...base, success: false, error: `Order ${describeOrderStatus(status)}` };
+};
+
+/**
+ * Map the status of a twapOrder or twapCancel response onto an execution result
+ */
+export const parseTwapStatus = (response: ExchangeResponse): TwapExecutionResult => {
+  if (response.status === 'err' || typeof response.response === 'string') {
+    return {
+      success: false,
+      error: typeof response.response === 'string' ? response.response : 'Exchange rejected the request'
+    };
+  }
+
+  const status = response.response.data?.status;
+  if (!status) {
+    return { success: false, error: 'Missing TWAP status in response' };
+  }
+  if (status === 'success') {
+    return { success: true };
+  }
+  if ('running' in status) {
+    return { success: true, twapId: status.running.twapId };
+  }
+  return { success: false, error: status.error };
+};
+
+/**
+ * Map the response of an action without per-order statuses onto a result
+ */
+export const parseActionStatus = (response: ExchangeResponse): ActionResult => {
+  if (response.status === 'err' || typeof response.response === 'string') {
+    return {
+      success: false,
+      error: typeof response.response === 'string' ? response.response : 'Exchange rejected the request'
+    };
+  }
+  return { success: true };
+};
+
+/**
+ * Client for signed actions on the /exchange endpoint. Shares network
+ * configuration with the info client, so pointing the info client at a
+ * local mock server redirects exchange traffic too.
+ */
+class HyperliquidExchange {
+  private info: HyperliquidAPI;
+  private vaultAddress: string | null;
+
+  constructor(info: HyperliquidAPI, vaultAddress: string | null = null) {
+    this.info = info;
+    this.vaultAddress = vaultAddress;
+  }
+
+  private async postAction(action: ExchangeAction, signer: HyperliquidSigner): Promise<ExchangeResponse> {
+    const nonce = nextNonce();
+    const signature = await signL1Action({
+      signer,
+      action,
+      nonce,
+      isMainnet: this.info.isMainnet(),
+      vaultAddress: this.vaultAddress
+    });
+
+    return this.info.makeRequest<ExchangeResponse>('/exchange', {
+      action,
+      nonce,
+      signature,
+      vaultAddress: this.vaultAddress
+    });
+  }
+
+  /**
+   * Place one or more orders in a single action
+   */
+  async order(
+    orders: OrderWire[],
+    signer: HyperliquidSigner,
+    grouping: OrderGrouping = 'na'
+  ): Promise<OrderExecutionResult[]> {
+    const response = await this.postAction({ type: 'order', orders, grouping }, signer);
+    return parseOrderStatuses(response, orders.length);
+  }
+
+  /**
+   * Cancel orders by exchange order ID
+   */
+  async cancel(
+    cancels: Array<{ asset: number; oid: number }>,
+    signer: HyperliquidSigner
+  ): Promise<OrderExecutionResult[]> {
+    const response = await this.postAction({
+      type: 'cancel',
+      cancels: cancels.map(({ asset, oid }) => ({ a: asset, o: oid }))
+    }, signer);
+    return parseOrderStatuses(response, cancels.length);
+  }
+
+  /**
+   * Cancel orders by client order ID
+   */
+  async cancelByCloid(
+    cancels: Array<{ asset: number; cloid: string }>,
+    signer: HyperliquidSigner
+  ): Promise<OrderExecutionResult[]> {
+    const response = await this.postAction({ type: 'cancelByCloid', cancels }, signer);
+    return parseOrderStatuses(response, cancels.length);
+  }
+
+  /**
+   * Replace a resting order's price, size or type. The replacement gets a new
+   * exchange order ID that the response doesn't include, so callers that keep
+   * following the order should give it a cloid and track that.
+   */
+  async modify(
+    oid: number | string,
+    order: OrderWire,
+    signer: HyperliquidSigner
+  ): Promise<OrderExecutionResult> {
+    const response = await this.postAction({ type: 'modify', oid, order }, signer);
+    if (response.status === 'ok' && typeof response.response !== 'string' && !response.response.data?.statuses) {
+      return { success: true, cloid: order.c };
+    }
+    const [result] = parseOrderStatuses(response, 1);
+    return result;
+  }
+
+  /**
+   * Modify several resting orders in a single action
+   */
+  async batchModify(
+    modifies: ModifyWire[],
+    signer: HyperliquidSigner
+  ): Promise<OrderExecutionResult[]> {
+    const response = await this.postAction({ type: 'batchModify', modifies }, signer);
+    return parseOrderStatuses(response, modifies.length);
+  }
+
+  /**
+   * Start a TWAP order, sliced by the exchange over its duration
+   */
+  async twapOrder(twap: TwapWire, signer: HyperliquidSigner): Promise<TwapExecutionResult> {
+    const response = await this.postAction({ type: 'twapOrder', twap }, signer);
+    return parseTwapStatus(response);
+  }
+
+  /**
+   * Stop a running TWAP order
+   */
+  async twapCancel(asset: number, twapId: number, signer: HyperliquidSigner): Promise<TwapExecutionResult> {
+    const response = await this.postAction({ type: 'twapCancel', a: asset, t: twapId }, signer);
+    const result = parseTwapStatus(response);
+    return result.success ? { ...result, twapId } : result;
+  }
+
+  /**
+   * Set an asset's leverage and margin mode. Applies to the open position too.
+   */
+  async updateLeverage(
+    asset: number,
+    leverage: number,
+    isCross: boolean,
+    signer: HyperliquidSigner
+  ): Promise<ActionResult> {
+    const response = await this.postAction({ type: 'updateLeverage', asset, isCross, leverage }, signer);
+    return parseActionStatus(response);
+  }
+
+  /**
+   * Add (positive amount) or remove (negative amount) USD margin on an isolated position
+   */
+  async updateIsolatedMargin(
+    asset: number,
+    isBuy: boolean,
+    amount: number,
+    signer: HyperliquidSigner
+  ): Promise<ActionResult> {
+    const response = await this.postAction({
+      type: 'updateIsolatedMargin',
+      asset,
+      isBuy,
+      ntli: Math.round(amount * 1e6)
+    }, signer);
+    return parseActionStatus(response);
+  }
+
+  /**
+   * Cancel all open orders at `time` (ms), or clear the scheduled cancel with null
+   */
+  async scheduleCancel(time: number | null, signer: HyperliquidSigner): Promise<ActionResult> {
+    const response = await this.postAction(
+      time === null ? { type: 'scheduleCancel' } : { type: 'scheduleCancel', time },
+      signer
+    );
+    return parseActionStatus(response);
+  }
+
+  /**
+   * Authorize an agent (API) wallet to sign L1 actions on behalf of the
+   * main wallet. Approving a new agent under the same name replaces the old one.
+   */
+  async approveAgent(
+    agentAddress: `0x${string}`,
+    agentName: string,
+    signer: HyperliquidSigner,
+    signatureChainId: number
+  ): Promise<void> {
+    const nonce = nextNonce();
+    const action: ApproveAgentAction = {
+      type: 'approveAgent',
+      signatureChainId: `0x${signatureChainId.toString(16)}`,
+      hyperliquidChain: this.info.isMainnet() ? 'Mainnet' : 'Testnet',
+      agentAddress,
+      agentName,
+      nonce
+    };
+    const signature = await signApproveAgent(signer, action);
+
+    const response = await this.info.makeRequest<ExchangeResponse>('/exchange', {
+      action,
+      nonce,
+      signature,
+      vaultAddress: null
+    });
+
+    if (response.status === 'err') {
+      throw new Error(typeof response.response === 'string' ? response.response : 'Agent approval rejected');
+    }
+  }
+}
+
+// Create and export singleton instances
 export const hyperliquidAPI = new HyperliquidAPI();
+export const hyperliquidExchange = new HyperliquidExchange(hyperliquidAPI);
 
-// Export the class for custom instances
-export { HyperliquidAPI };
+// Export the classes for custom instances
+export { HyperliquidAPI, HyperliquidExchange };
 
 // Export utility functions
 export const formatHyperliquidNumber = (value: string | number, decimals: number = 2): string => {
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import type { Candle } from '@/lib/candles';
+import {
+  computeIndicator,
+  updateIndicator,
+  type IndicatorConfig,
+  type IndicatorParams,
+  type IndicatorType
+} from './indicators';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const candle = (index: number, close: number, overrides: Partial<Candle> = {}): Candle => ({
+  time: index * MINUTE_MS,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1,
+  trades: 1,
+  ...overrides
+});
+
+const fromCloses = (closes: number[]) => closes.map((close, index) => candle(index, close));
+
+const config = (type: IndicatorType, params: IndicatorParams): IndicatorConfig => ({ id: type, type, params });
+
+// Values of one line, rounded to avoid floating point noise
+const line = (type: IndicatorType, params: IndicatorParams, candles: Candle[], key = 'value') =>
+  computeIndicator(config(type, params), candles).values.map(value =>
+    value[key] === null ? null : Math.round(value[key]! * 1e6) / 1e6
+  );
+
+describe('indicator reference values', () => {
+  it('SMA averages the last period closes', () => {
+    expect(line('sma', { period: 3 }, fromCloses([1, 2, 3, 4, 5]))).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('EMA is seeded with the SMA, then smoothed by 2 / (n + 1)', () => {
+    expect(line('ema', { period: 3 }, fromCloses([1, 2, 3, 4, 8]))).toEqual([null, null, 2, 3, 5.5]);
+  });
+
+  it('Bollinger bands sit the population deviation either side of the SMA', () => {
+    const candles = fromCloses([1, 2, 3]);
+    const params = { period: 3, deviations: 2 };
+
+    expect(line('bollinger', params, candles, 'middle')).toEqual([null, null, 2]);
+    expect(line('bollinger', params, candles, 'upper')).toEqual([null, null, 3.632993]);
+    expect(line('bollinger', params, candles, 'lower')).toEqual([null, null, 0.367007]);
+  });
+
+  it("RSI uses Wilder's smoothing of gains and losses", () => {
+    expect(line('rsi', { period: 2 }, fromCloses([1, 2, 3, 2, 1]))).toEqual([null, null, 100, 50, 25]);
+  });
+
+  it('RSI is 50 when price does not move', () => {
+    expect(line('rsi', { period: 2 }, fromCloses([5, 5, 5]))).toEqual([null, null, 50]);
+  });
+
+  it('MACD starts its signal line once the MACD line has a value', () => {
+    const candles = fromCloses([1, 2, 3, 4, 5]);
+    const params = { fast: 2, slow: 3, signal: 2 };
+
+    expect(line('macd', params, candles, 'macd')).toEqual([null, null, 0.5, 0.5, 0.5]);
+    expect(line('macd', params, candles, 'signal')).toEqual([null, null, null, 0.5, 0.5]);
+    expect(line('macd', params, candles, 'histogram')).toEqual([null, null, null, 0, 0]);
+  });
+
+  it('ATR smooths the true range, including gaps from the previous close', () => {
+    const candles = [
+      candle(0, 9, { high: 10, low: 8 }),
+      candle(1, 10, { high: 11, low: 9 }),
+      candle(2, 11, { high: 12, low: 9 }),
+      candle(3, 16, { high: 16, low: 15 })
+    ];
+
+    // True ranges 2, 2, 3, 5 (the last gaps up from 11)
+    expect(line('atr', { period: 2 }, candles)).toEqual([null, 2, 2.5, 3.75]);
+  });
+
+  it('VWAP weights the typical price by volume and resets each UTC day', () => {
+    const candles = [
+      candle(0, 10, { high: 12, low: 8, volume: 1 }),
+      candle(1, 20, { high: 20, low: 20, volume: 3 }),
+      { ...candle(0, 30, { volume: 2 }), time: DAY_MS }
+    ];
+
+    expect(line('vwap', {}, candles)).toEqual([10, 17.5, 30]);
+  });
+
+  it('anchored VWAP starts at the anchor candle', () => {
+    const candles = fromCloses([10, 20, 40]);
+
+    expect(line('anchoredVwap', { anchor: MINUTE_MS }, candles)).toEqual([null, 20, 30]);
+  });
+
+  it('Ichimoku lines are midpoints of the high/low range', () => {
+    const candles = [
+      candle(0, 10, { high: 12, low: 8 }),
+      candle(1, 11, { high: 14, low: 10 }),
+      candle(2, 13, { high: 16, low: 11 })
+    ];
+    const params = { conversion: 2, base: 3, spanB: 3 };
+
+    expect(line('ichimoku', params, candles, 'tenkan')).toEqual([null, 11, 13]);
+    expect(line('ichimoku', params, candles, 'kijun')).toEqual([null, null, 12]);
+    expect(line('ichimoku', params, candles, 'spanA')).toEqual([null, null, 12.5]);
+    expect(line('ichimoku', params, candles, 'chikou')).toEqual([10, 11, 13]);
+  });
+});
+
+describe('updateIndicator', () => {
+  // Closes that rise and fall so every indicator sees gains, losses and gaps
+  const closes = Array.from({ length: 60 }, (_, index) => 100 + 10 * Math.sin(index / 4) + (index % 7));
+  const history = closes.map((close, index) =>
+    candle(index, close, { high: close + 1 + (index % 3), low: close - 1 - (index % 2), volume: 1 + (index % 5) })
+  );
+
+  const CONFIGS: IndicatorConfig[] = [
+    config('sma', { period: 5 }),
+    config('ema', { period: 5 }),
+    config('vwap', {}),
+    config('anchoredVwap', { anchor: 10 * MINUTE_MS }),
+    config('bollinger', { period: 5, deviations: 2 }),
+    config('ichimoku', { conversion: 3, base: 5, spanB: 8 }),
+    config('rsi', { period: 5 }),
+    config('macd', { fast: 3, slow: 6, signal: 4 }),
+    config('atr', { period: 5 })
+  ];
+
+  it.each(CONFIGS)('matches a full recompute as candles form and close ($type)', (indicator) => {
+    let series = computeIndicator(indicator, history.slice(0, 20));
+
+    for (let i = 20; i < history.length; i++) {
+      // The forming candle updates a couple of times before the next one opens
+      const forming = history.slice(0, i);
+      const last = history[i];
+      series = updateIndicator(series, [...forming, { ...last, close: last.close - 2 }]);
+      series = updateIndicator(series, [...forming, { ...last, close: last.close + 1 }]);
+      series = updateIndicator(series, history.slice(0, i + 1));
+    }
+
+    const expected = computeIndicator(indicator, history);
+    expect(series.times).toEqual(expected.times);
+    expect(series.values).toEqual(expected.values);
+  });
+
+  it('gives the same result when applied twice to the same series', () => {
+    const base = computeIndicator(CONFIGS[1], history.slice(0, 30));
+    updateIndicator(base, history.slice(0, 32));
+    const series = updateIndicator(base, history.slice(0, 32));
+
+    expect(series.values).toEqual(computeIndicator(CONFIGS[1], history.slice(0, 32)).values);
+  });
+
+  it('leaves the previous series untouched', () => {
+    const base = computeIndicator(CONFIGS[1], history.slice(0, 30));
+    const before = structuredClone(base);
+    updateIndicator(base, [...history.slice(0, 29), { ...history[29], close: 500 }, history[30]]);
+
+    expect(base).toEqual(before);
+  });
+
+    it('recomputes when older history is prepended', () => {
+    const series = computeIndicator(CONFIGS[0], history.slice(10, 30));
+    const updated = updateIndicator(series, history.slice(0, 30));
+
+    expect(updated.times).toHaveLength(30);
+    expect(updated.values).toEqual(computeIndicator(CONFIGS[0], history.slice(0, 30)).values);
+  });
+});
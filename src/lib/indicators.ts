@@ -0,0 +1,488 @@
+import { parseCandle, type Candle } from '@/lib/candles';
+import type { CandleSnapshot } from '@/types/hyperliquid';
+
+// Technical indicators over candle series. Each indicator is a step function
+// over immutable state, so a series can be extended as candles arrive and the
+// forming candle can be recomputed without walking the whole history.
+
+export type IndicatorType =
+  | 'sma'
+  | 'ema'
+  | 'vwap'
+  | 'anchoredVwap'
+  | 'bollinger'
+  | 'ichimoku'
+  | 'rsi'
+  | 'macd'
+  | 'atr';
+
+export type IndicatorParams = Record<string, number>;
+
+// One output per candle, keyed by line (e.g. { macd, signal, histogram }).
+// Lines are null until enough candles have been seen.
+export type IndicatorValue = Record<string, number | null>;
+
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: IndicatorParams;
+}
+
+export interface IndicatorParamDefinition {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  kind?: 'number' | 'time';  // 'time' params are timestamps (ms)
+}
+
+export interface IndicatorLineDefinition {
+  key: string;
+  label: string;
+  color: string;
+  style?: 'line' | 'histogram';
+  // Candles to shift the line by when plotting (Ichimoku projects spans forward)
+  offset?: (params: IndicatorParams) => number;
+}
+
+export interface IndicatorDefinition {
+  type: IndicatorType;
+  label: string;
+  // Overlays share the price scale; panes get their own scale below the chart
+  placement: 'overlay' | 'pane';
+  params: IndicatorParamDefinition[];
+  lines: IndicatorLineDefinition[];
+  // Fixed levels drawn in the pane (e.g. RSI 30/70)
+  levels?: number[];
+  // Fixed pane scale; otherwise the pane fits the visible values
+  range?: [number, number];
+}
+
+type StepFunction<S> = (state: S, candle: Candle, params: IndicatorParams) => [S, IndicatorValue];
+
+interface IndicatorImplementation<S> {
+  init: (params: IndicatorParams) => S;
+  step: StepFunction<S>;
+}
+
+// Shared building blocks
+
+const pushWindow = (window: number[], value: number, size: number): number[] =>
+  window.length < size ? [...window, value] : [...window.slice(window.length - size + 1), value];
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const highest = (values: number[]): number => Math.max(...values);
+const lowest = (values: number[]): number => Math.min(...values);
+
+const typicalPrice = (candle: Candle): number => (candle.high + candle.low + candle.close) / 3;
+
+// Moving average seeded with the simple average of the first `period` inputs,
+// then smoothed by `alpha` (2 / (n + 1) for EMA, 1 / n for Wilder's RMA)
+interface SmoothedState {
+  count: number;
+  seedSum: number;
+  value: number | null;
+}
+
+const initSmoothed = (): SmoothedState => ({ count: 0, seedSum: 0, value: null });
+
+const stepSmoothed = (state: SmoothedState, input: number, period: number, alpha: number): SmoothedState => {
+  const count = state.count + 1;
+  if (count < period) return { count, seedSum: state.seedSum + input, value: null };
+  if (count === period) return { count, seedSum: state.seedSum + input, value: (state.seedSum + input) / period };
+  return { count, seedSum: state.seedSum, value: input * alpha + state.value! * (1 - alpha) };
+};
+
+const stepEma = (state: SmoothedState, input: number, period: number) =>
+  stepSmoothed(state, input, period, 2 / (period + 1));
+
+const stepWilder = (state: SmoothedState, input: number, period: number) =>
+  stepSmoothed(state, input, period, 1 / period);
+
+// Indicators
+
+const sma: IndicatorImplementation<number[]> = {
+  init: () => [],
+  step: (window, candle, { period }) => {
+    const next = pushWindow(window, candle.close, period);
+    return [next, { value: next.length === period ? sum(next) / period : null }];
+  }
+};
+
+const ema: IndicatorImplementation<SmoothedState> = {
+  init: initSmoothed,
+  step: (state, candle, { period }) => {
+    const next = stepEma(state, candle.close, period);
+    return [next, { value: next.value }];
+  }
+};
+
+interface VwapState {
+  anchor: number;           // Session or anchor the running sums started at
+  priceVolume: number;
+  volume: number;
+}
+
+const vwapValue = (state: VwapState, candle: Candle): number =>
+  state.volume > 0 ? state.priceVolume / state.volume : typicalPrice(candle);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Session VWAP, reset at 00:00 UTC
+const vwap: IndicatorImplementation<VwapState> = {
+  init: () => ({ anchor: -1, priceVolume: 0, volume: 0 }),
+  step: (state, candle) => {
+    const session = Math.floor(candle.time / DAY_MS);
+    const base = session === state.anchor ? state : { anchor: session, priceVolume: 0, volume: 0 };
+    const next = {
+      anchor: session,
+      priceVolume: base.priceVolume + typicalPrice(candle) * candle.volume,
+      volume: base.volume + candle.volume
+    };
+    return [next, { value: vwapValue(next, candle) }];
+  }
+};
+
+// VWAP accumulated from the candle opening at or after the anchor time
+const anchoredVwap: IndicatorImplementation<VwapState> = {
+  init: ({ anchor }) => ({ anchor, priceVolume: 0, volume: 0 }),
+  step: (state, candle) => {
+    if (candle.time < state.anchor) return [state, { value: null }];
+
+    const next = {
+      anchor: state.anchor,
+      priceVolume: state.priceVolume + typicalPrice(candle) * candle.volume,
+      volume: state.volume + candle.volume
+    };
+    return [next, { value: vwapValue(next, candle) }];
+  }
+};
+
+const bollinger: IndicatorImplementation<number[]> = {
+  init: () => [],
+  step: (window, candle, { period, deviations }) => {
+    const next = pushWindow(window, candle.close, period);
+    if (next.length < period) return [next, { upper: null, middle: null, lower: null }];
+
+    const middle = sum(next) / period;
+    const deviation = Math.sqrt(sum(next.map(value => (value - middle) ** 2)) / period);
+    return [next, {
+      upper: middle + deviations * deviation,
+      middle,
+      lower: middle - deviations * deviation
+    }];
+  }
+};
+
+interface IchimokuState {
+  highs: number[];
+  lows: number[];
+}
+
+const ichimoku: IndicatorImplementation<IchimokuState> = {
+  init: () => ({ highs: [], lows: [] }),
+  step: (state, candle, { conversion, base, spanB }) => {
+    const size = Math.max(conversion, base, spanB);
+    const highs = pushWindow(state.highs, candle.high, size);
+    const lows = pushWindow(state.lows, candle.low, size);
+
+    // Midpoint of the highest high and lowest low over the last `period` candles
+    const midpoint = (period: number) => highs.length < period
+      ? null
+      : (highest(highs.slice(-period)) + lowest(lows.slice(-period))) / 2;
+
+    const tenkan = midpoint(conversion);
+    const kijun = midpoint(base);
+    return [{ highs, lows }, {
+      tenkan,
+      kijun,
+      spanA: tenkan !== null && kijun !== null ? (tenkan + kijun) / 2 : null,
+      spanB: midpoint(spanB),
+      chikou: candle.close
+    }];
+  }
+};
+
+interface RsiState {
+  previousClose: number | null;
+  gain: SmoothedState;
+  loss: SmoothedState;
+}
+
+// Wilder's RSI
+const rsi: IndicatorImplementation<RsiState> = {
+  init: () => ({ previousClose: null, gain: initSmoothed(), loss: initSmoothed() }),
+  step: (state, candle, { period }) => {
+    if (state.previousClose === null) {
+      return [{ ...state, previousClose: candle.close }, { value: null }];
+    }
+
+    const change = candle.close - state.previousClose;
+    const gain = stepWilder(state.gain, Math.max(change, 0), period);
+    const loss = stepWilder(state.loss, Math.max(-change, 0), period);
+    const next = { previousClose: candle.close, gain, loss };
+
+    if (gain.value === null || loss.value === null) return [next, { value: null }];
+    if (loss.value === 0) return [next, { value: gain.value === 0 ? 50 : 100 }];
+    return [next, { value: 100 - 100 / (1 + gain.value / loss.value) }];
+  }
+};
+
+interface MacdState {
+  fast: SmoothedState;
+  slow: SmoothedState;
+  signal: SmoothedState;
+}
+
+const macd: IndicatorImplementation<MacdState> = {
+  init: () => ({ fast: initSmoothed(), slow: initSmoothed(), signal: initSmoothed() }),
+  step: (state, candle, params) => {
+    const fast = stepEma(state.fast, candle.close, params.fast);
+    const slow = stepEma(state.slow, candle.close, params.slow);
+    if (fast.value === null || slow.value === null) {
+      return [{ ...state, fast, slow }, { macd: null, signal: null, histogram: null }];
+    }
+
+    // The signal line only starts once MACD itself has a value
+    const line = fast.value - slow.value;
+    const signal = stepEma(state.signal, line, params.signal);
+    return [{ fast, slow, signal }, {
+      macd: line,
+      signal: signal.value,
+      histogram: signal.value === null ? null : line - signal.value
+    }];
+  }
+};
+
+interface AtrState {
+  previousClose: number | null;
+  atr: SmoothedState;
+}
+
+// Wilder's ATR; the first candle's true range is its high-low range
+const atr: IndicatorImplementation<AtrState> = {
+  init: () => ({ previousClose: null, atr: initSmoothed() }),
+  step: (state, candle, { period }) => {
+    const trueRange = state.previousClose === null
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - state.previousClose),
+          Math.abs(candle.low - state.previousClose)
+        );
+
+    const next = { previousClose: candle.close, atr: stepWilder(state.atr, trueRange, period) };
+    return [next, { value: next.atr.value }];
+  }
+};
+
+const IMPLEMENTATIONS: Record<IndicatorType, IndicatorImplementation<unknown>> = {
+  sma,
+  ema,
+  vwap,
+  anchoredVwap,
+  bollinger,
+  ichimoku,
+  rsi,
+  macd,
+  atr
+} as Record<IndicatorType, IndicatorImplementation<unknown>>;
+
+// Definitions (labels, parameters and how to plot each indicator)
+
+const period = (defaultValue: number): IndicatorParamDefinition => ({
+  key: 'period',
+  label: 'Period',
+  defaultValue,
+  min: 1,
+  max: 500
+});
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    type: 'sma',
+    label: 'SMA',
+    placement: 'overlay',
+    params: [period(20)],
+    lines: [{ key: 'value', label: 'SMA', color: '#f59e0b' }]
+  },
+  ema: {
+    type: 'ema',
+    label: 'EMA',
+    placement: 'overlay',
+    params: [period(50)],
+    lines: [{ key: 'value', label: 'EMA', color: '#3b82f6' }]
+  },
+  vwap: {
+    type: 'vwap',
+    label: 'VWAP',
+    placement: 'overlay',
+    params: [],
+    lines: [{ key: 'value', label: 'VWAP', color: '#a855f7' }]
+  },
+  anchoredVwap: {
+    type: 'anchoredVwap',
+    label: 'Anchored VWAP',
+    placement: 'overlay',
+    params: [{ key: 'anchor', label: 'Anchor', defaultValue: 0, kind: 'time' }],
+    lines: [{ key: 'value', label: 'AVWAP', color: '#ec4899' }]
+  },
+  bollinger: {
+    type: 'bollinger',
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [
+      period(20),
+      { key: 'deviations', label: 'Std. dev.', defaultValue: 2, min: 0.1, max: 10, step: 0.1 }
+    ],
+    lines: [
+      { key: 'upper', label: 'Upper', color: '#06b6d4' },
+      { key: 'middle', label: 'Basis', color: '#f59e0b' },
+      { key: 'lower', label: 'Lower', color: '#06b6d4' }
+    ]
+  },
+  ichimoku: {
+    type: 'ichimoku',
+    label: 'Ichimoku Cloud',
+    placement: 'overlay',
+    params: [
+      { key: 'conversion', label: 'Conversion', defaultValue: 9, min: 1, max: 200 },
+      { key: 'base', label: 'Base', defaultValue: 26, min: 1, max: 200 },
+      { key: 'spanB', label: 'Span B', defaultValue: 52, min: 1, max: 400 },
+      { key: 'displacement', label: 'Displacement', defaultValue: 26, min: 0, max: 200 }
+    ],
+    lines: [
+      { key: 'tenkan', label: 'Conversion', color: '#3b82f6' },
+      { key: 'kijun', label: 'Base', color: '#ef4444' },
+      { key: 'spanA', label: 'Span A', color: '#22c55e', offset: ({ displacement }) => displacement },
+      { key: 'spanB', label: 'Span B', color: '#f97316', offset: ({ displacement }) => displacement },
+      { key: 'chikou', label: 'Lagging', color: '#a3a3a3', offset: ({ displacement }) => -displacement }
+    ]
+  },
+  rsi: {
+    type: 'rsi',
+    label: 'RSI',
+    placement: 'pane',
+    params: [period(14)],
+    lines: [{ key: 'value', label: 'RSI', color: '#a855f7' }],
+    levels: [30, 70],
+    range: [0, 100]
+  },
+  macd: {
+    type: 'macd',
+    label: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: 200 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 1, max: 400 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: 200 }
+    ],
+    lines: [
+      { key: 'histogram', label: 'Histogram', color: '#64748b', style: 'histogram' },
+      { key: 'macd', label: 'MACD', color: '#3b82f6' },
+      { key: 'signal', label: 'Signal', color: '#f97316' }
+    ],
+    levels: [0]
+  },
+  atr: {
+    type: 'atr',
+    label: 'ATR',
+    placement: 'pane',
+    params: [period(14)],
+    lines: [{ key: 'value', label: 'ATR', color: '#ef4444' }]
+  }
+};
+
+/**
+ * Default parameters for an indicator, as used when it is added to a chart
+ */
+export const getDefaultParams = (type: IndicatorType): IndicatorParams =>
+  Object.fromEntries(INDICATOR_DEFINITIONS[type].params.map(param => [param.key, param.defaultValue]));
+
+/**
+ * Short label for an indicator with its parameters, e.g. "EMA 50" or "MACD 12 26 9"
+ */
+export const formatIndicatorLabel = (config: IndicatorConfig): string => {
+  const definition = INDICATOR_DEFINITIONS[config.type];
+  const values = definition.params
+    .filter(param => param.kind !== 'time')
+    .map(param => config.params[param.key]);
+  return [definition.label, ...values].join(' ');
+};
+
+// Series computation
+
+export interface IndicatorSeries {
+  config: IndicatorConfig;
+  times: number[];             // Candle open times the values line up with
+  values: IndicatorValue[];
+  // State after every candle except the last, so the forming candle can be recomputed
+  checkpoint: { stateBeforeLast: unknown };
+}
+
+const candleAt = (candles: Candle[] | CandleSnapshot[], index: number): Candle => {
+  const candle = candles[index];
+  return 't' in candle ? parseCandle(candle) : candle;
+};
+
+// Step the indicator from `startIndex` to the end, starting from `state`. The
+// values before `startIndex` are copied from `previous`, which is left untouched.
+const runFrom = (
+  config: IndicatorConfig,
+  candles: Candle[] | CandleSnapshot[],
+  startIndex: number,
+  state: unknown,
+  previous?: Pick<IndicatorSeries, 'times' | 'values'>
+): IndicatorSeries => {
+  const { step } = IMPLEMENTATIONS[config.type];
+  const times = previous ? previous.times.slice(0, startIndex) : [];
+  const values = previous ? previous.values.slice(0, startIndex) : [];
+  let stateBeforeLast = state;
+
+  for (let i = startIndex; i < candles.length; i++) {
+    stateBeforeLast = state;
+    const candle = candleAt(candles, i);
+    const [nextState, value] = step(state, candle, config.params);
+    state = nextState;
+    times.push(candle.time);
+    values.push(value);
+  }
+
+  return { config, times, values, checkpoint: { stateBeforeLast } };
+};
+
+/**
+ * Compute an indicator over a full, time-sorted candle series
+ */
+export const computeIndicator = (
+  config: IndicatorConfig,
+  candles: Candle[] | CandleSnapshot[]
+): IndicatorSeries => {
+  return runFrom(config, candles, 0, IMPLEMENTATIONS[config.type].init(config.params));
+};
+
+/**
+ * Bring a series up to date with the latest candles, returning a new series.
+ * Updates to the forming candle and newly appended candles only step the
+ * changed tail; anything else (older history prepended, a different series)
+ * falls back to a full recompute.
+ */
+export const updateIndicator = (
+  series: IndicatorSeries,
+  candles: Candle[] | CandleSnapshot[]
+): IndicatorSeries => {
+  const lastIndex = series.times.length - 1;
+
+  const canExtend = lastIndex >= 0
+    && candles.length > lastIndex
+    && candleAt(candles, 0).time === series.times[0]
+    && candleAt(candles, lastIndex).time === series.times[lastIndex];
+
+  if (!canExtend) return computeIndicator(series.config, candles);
+
+  // Re-run the previous last candle (it may have been the forming one), then anything new
+  return runFrom(series.config, candles, lastIndex, series.checkpoint.stateBeforeLast, series);
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetInfo, MetaResponse } from '@/types/hyperliquid';
+import {
+  estimateOrderMargin,
+  getLiquidationPrice,
+  getMaintenanceMargin,
+  getMarginTier,
+  getMarginTiers
+} from './margin';
+
+// 20x up to $100k, 10x up to $500k, 5x above
+const TIERED: AssetInfo = { name: 'BTC', szDecimals: 5, maxLeverage: 20, marginTableId: 51 };
+const FLAT: AssetInfo = { name: 'ETH', szDecimals: 4, maxLeverage: 25 };
+
+const META: MetaResponse = {
+  universe: [TIERED, FLAT],
+  marginTables: [[51, {
+    description: 'tiered 20x',
+    marginTiers: [
+      { lowerBound: '500000', maxLeverage: 5 },
+      { lowerBound: '0', maxLeverage: 20 },
+      { lowerBound: '100000', maxLeverage: 10 }
+    ]
+  }]]
+};
+
+const tiers = getMarginTiers(META, TIERED);
+
+// Equity at `price` of a position opened at `entryPrice` with `collateral`
+const equityAt = (price: number, entryPrice: number, size: number, collateral: number) =>
+  collateral + size * (price - entryPrice);
+
+describe('getMarginTiers', () => {
+  it('sorts tiers and accumulates the maintenance deduction across boundaries', () => {
+    expect(tiers).toEqual([
+      { lowerBound: 0, maxLeverage: 20, maintenanceRate: 0.025, maintenanceDeduction: 0 },
+      { lowerBound: 100000, maxLeverage: 10, maintenanceRate: 0.05, maintenanceDeduction: 2500 },
+      // 2500 + 500000 * (0.1 - 0.05)
+      { lowerBound: 500000, maxLeverage: 5, maintenanceRate: 0.1, maintenanceDeduction: 27500 }
+    ]);
+  });
+
+  it('uses a single tier at the max leverage when the asset has no margin table', () => {
+    expect(getMarginTiers(META, FLAT)).toEqual([
+      { lowerBound: 0, maxLeverage: 25, maintenanceRate: 0.02, maintenanceDeduction: 0 }
+    ]);
+  });
+
+  it('picks the tier whose lower bound the notional has reached', () => {
+    expect(getMarginTier(tiers, 99999).maxLeverage).toBe(20);
+    expect(getMarginTier(tiers, 100000).maxLeverage).toBe(10);
+    expect(getMarginTier(tiers, 750000).maxLeverage).toBe(5);
+  });
+});
+
+describe('getMaintenanceMargin', () => {
+  it('applies the rate and deduction of the tier', () => {
+    expect(getMaintenanceMargin(tiers, 50000)).toBeCloseTo(1250);
+    expect(getMaintenanceMargin(tiers, 200000)).toBeCloseTo(200000 * 0.05 - 2500);
+    expect(getMaintenanceMargin(tiers, 600000)).toBeCloseTo(600000 * 0.1 - 27500);
+  });
+
+  it('is continuous across tier boundaries', () => {
+    expect(getMaintenanceMargin(tiers, 100000)).toBeCloseTo(2500);
+    expect(getMaintenanceMargin(tiers, 100000 - 1e-6)).toBeCloseTo(2500);
+    expect(getMaintenanceMargin(tiers, 500000)).toBeCloseTo(22500);
+    expect(getMaintenanceMargin(tiers, 500000 - 1e-6)).toBeCloseTo(22500);
+  });
+
+  it('is zero without a position', () => {
+    expect(getMaintenanceMargin(tiers, 0)).toBe(0);
+  });
+});
+
+describe('getLiquidationPrice', () => {
+  it('liquidates a long in the first tier where equity meets maintenance', () => {
+    const liquidationPrice = getLiquidationPrice(tiers, 100, 1, 10)!;
+
+    expect(liquidationPrice).toBeCloseTo(90 / 0.975);
+    expect(equityAt(liquidationPrice, 100, 1, 10)).toBeCloseTo(getMaintenanceMargin(tiers, liquidationPrice));
+  });
+
+  it('uses the deduction of a higher tier for a long', () => {
+    // $150k notional: 10x tier, 5% rate, $2,500 deduction
+    const liquidationPrice = getLiquidationPrice(tiers, 50000, 3, 20000)!;
+
+    expect(liquidationPrice).toBeCloseTo((150000 - (20000 + 2500)) / (3 * 0.95));
+    expect(equityAt(liquidationPrice, 50000, 3, 20000))
+      .toBeCloseTo(getMaintenanceMargin(tiers, 3 * liquidationPrice));
+  });
+
+  it('uses the deduction of a higher tier for a short', () => {
+    const liquidationPrice = getLiquidationPrice(tiers, 50000, -3, 20000)!;
+
+    expect(liquidationPrice).toBeCloseTo((150000 + (20000 + 2500)) / (3 * 1.05));
+    expect(equityAt(liquidationPrice, 50000, -3, 20000))
+      .toBeCloseTo(getMaintenanceMargin(tiers, 3 * liquidationPrice));
+  });
+
+  it('accumulates deductions through every tier crossed', () => {
+    // $1.2M notional: 5x tier with the $27,500 cumulative deduction
+    const liquidationPrice = getLiquidationPrice(tiers, 60000, 20, 300000)!;
+
+    expect(liquidationPrice).toBeCloseTo((1200000 - (300000 + 27500)) / (20 * 0.9));
+    expect(equityAt(liquidationPrice, 60000, 20, 300000))
+      .toBeCloseTo(getMaintenanceMargin(tiers, 20 * liquidationPrice));
+  });
+
+  it('moves closer when other positions hold maintenance on the same collateral', () => {
+    const alone = getLiquidationPrice(tiers, 100, 1, 10)!;
+    const shared = getLiquidationPrice(tiers, 100, 1, 10, 2)!;
+
+    expect(shared).toBeGreaterThan(alone);
+    expect(equityAt(shared, 100, 1, 10) - 2).toBeCloseTo(getMaintenanceMargin(tiers, shared));
+  });
+
+  it('returns null when the position cannot be liquidated', () => {
+    expect(getLiquidationPrice(tiers, 100, 1, 200)).toBeNull();
+    expect(getLiquidationPrice(tiers, 100, 0, 10)).toBeNull();
+  });
+});
+
+describe('estimateOrderMargin', () => {
+  it('rejects leverage above the max of the tier the position lands in', () => {
+    const estimate = estimateOrderMargin(META, TIERED, null, { isBuy: true, size: 3, price: 50000, leverage: 20 });
+
+    expect(estimate.maxLeverage).toBe(10);
+    expect(estimate.error).toMatch(/Max leverage .* is 10x/);
+  });
+
+  it('uses the tier of the resulting notional for maintenance margin', () => {
+    const estimate = estimateOrderMargin(META, TIERED, null, { isBuy: false, size: 3, price: 50000, leverage: 10 });
+
+    expect(estimate.positionSize).toBe(-3);
+    expect(estimate.initialMargin).toBeCloseTo(15000);
+    expect(estimate.maintenanceMargin).toBeCloseTo(150000 * 0.05 - 2500);
+    expect(estimate.liquidationPrice).toBeCloseTo((150000 + (15000 + 2500)) / (3 * 1.05));
+  });
+});
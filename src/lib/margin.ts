@@ -0,0 +1,189 @@
+import type { AssetInfo, ClearinghouseState, MetaResponse } from '@/types/hyperliquid';
+
+// Margin engine following Hyperliquid's tiered margin rules. Each asset has a
+// margin table of notional tiers; larger positions get lower max leverage.
+// Maintenance margin is half the initial margin at a tier's max leverage, with
+// a per-tier deduction that keeps it continuous across tier boundaries.
+
+export type MarginMode = 'cross' | 'isolated';
+
+export interface MarginTier {
+  lowerBound: number;            // Position notional where the tier starts (USD)
+  maxLeverage: number;
+  maintenanceRate: number;
+  maintenanceDeduction: number;  // USD subtracted from notional * maintenanceRate
+}
+
+// Leverage the exchange assigns before the user changes it
+export const DEFAULT_LEVERAGE = 20;
+
+/**
+ * Margin tiers for an asset, from its margin table or a single tier at the asset's max leverage
+ */
+export const getMarginTiers = (meta: MetaResponse, asset: AssetInfo): MarginTier[] => {
+  const table = asset.marginTableId !== undefined
+    ? meta.marginTables?.find(([id]) => id === asset.marginTableId)?.[1]
+    : undefined;
+
+  const tiers = table && table.marginTiers.length > 0
+    ? table.marginTiers
+      .map(tier => ({ lowerBound: parseFloat(tier.lowerBound), maxLeverage: tier.maxLeverage }))
+      .sort((a, b) => a.lowerBound - b.lowerBound)
+    : [{ lowerBound: 0, maxLeverage: asset.maxLeverage }];
+
+  let deduction = 0;
+  let previousRate = 0;
+
+  return tiers.map((tier, index) => {
+    const maintenanceRate = 1 / (2 * tier.maxLeverage);
+    if (index > 0) {
+      deduction += tier.lowerBound * (maintenanceRate - previousRate);
+    }
+    previousRate = maintenanceRate;
+
+    return { ...tier, maintenanceRate, maintenanceDeduction: deduction };
+  });
+};
+
+/**
+ * The tier a position of the given notional falls into
+ */
+export const getMarginTier = (tiers: MarginTier[], notional: number): MarginTier =>
+  tiers.reduce((current, tier) => (notional >= tier.lowerBound ? tier : current), tiers[0]);
+
+/**
+ * Maintenance margin for a position of the given notional
+ */
+export const getMaintenanceMargin = (tiers: MarginTier[], notional: number): number => {
+  if (notional <= 0) return 0;
+  const tier = getMarginTier(tiers, notional);
+  return Math.max(0, notional * tier.maintenanceRate - tier.maintenanceDeduction);
+};
+
+/**
+ * Price at which equity backing a position falls to its maintenance margin, or
+ * null if the position can't be liquidated. `collateral` is the equity at
+ * `price` (account value for cross, isolated margin for isolated) and
+ * `otherMaintenance` the maintenance margin of other positions sharing it.
+ */
+export const getLiquidationPrice = (
+  tiers: MarginTier[],
+  price: number,
+  size: number,
+  collateral: number,
+  otherMaintenance: number = 0
+): number | null => {
+  if (size === 0 || !(price > 0)) return null;
+
+  const side = size > 0 ? 1 : -1;
+  const absSize = Math.abs(size);
+  const { maintenanceRate, maintenanceDeduction } = getMarginTier(tiers, absSize * price);
+
+  const liquidationPrice = (absSize * price - side * (collateral - otherMaintenance + maintenanceDeduction)) /
+    (absSize * (1 - side * maintenanceRate));
+
+  return liquidationPrice > 0 && Number.isFinite(liquidationPrice) ? liquidationPrice : null;
+};
+
+/**
+ * Free cross margin that new positions can draw from
+ */
+export const getAvailableMargin = (state: ClearinghouseState): number =>
+  Math.max(0, parseFloat(state.crossMarginSummary.accountValue) - parseFloat(state.crossMarginSummary.totalMarginUsed));
+
+export interface HypotheticalOrder {
+  isBuy: boolean;
+  size: number;
+  price: number;
+  leverage?: number;        // Defaults to the open position's leverage, then DEFAULT_LEVERAGE
+  marginMode?: MarginMode;  // Used when there is no open position to take it from
+}
+
+export interface MarginEstimate {
+  mode: MarginMode;
+  leverage: number;
+  maxLeverage: number;          // At the resulting position's notional
+  positionSize: number;         // Signed size after the order
+  notional: number;
+  initialMargin: number;
+  requiredMargin: number;       // Additional margin the order needs on top of what the position already uses
+  maintenanceMargin: number;
+  available: number;
+  sufficient: boolean;
+  liquidationPrice: number | null;
+  error?: string;
+}
+
+/**
+ * Margin and liquidation price for the position that results from an order,
+ * against the account's current clearinghouse state (or an empty account).
+ * Positions are marked at the order price, so results are estimates.
+ */
+export const estimateOrderMargin = (
+  meta: MetaResponse,
+  asset: AssetInfo,
+  state: ClearinghouseState | null,
+  order: HypotheticalOrder
+): MarginEstimate => {
+  const tiers = getMarginTiers(meta, asset);
+  const existing = state?.assetPositions.find(({ position }) => position.coin === asset.name)?.position;
+
+  const mode: MarginMode = asset.onlyIsolated
+    ? 'isolated'
+    : existing?.leverage.type ?? order.marginMode ?? 'cross';
+  const leverage = order.leverage ?? existing?.leverage.value ?? Math.min(DEFAULT_LEVERAGE, asset.maxLeverage);
+
+  const currentSize = existing ? parseFloat(existing.szi) : 0;
+  const positionSize = currentSize + (order.isBuy ? order.size : -order.size);
+  const notional = Math.abs(positionSize) * order.price;
+  const maxLeverage = getMarginTier(tiers, notional).maxLeverage;
+
+  const initialMargin = notional / leverage;
+  const currentMarginUsed = existing ? parseFloat(existing.marginUsed) : 0;
+  const requiredMargin = Math.max(0, initialMargin - currentMarginUsed);
+  const maintenanceMargin = getMaintenanceMargin(tiers, notional);
+
+  // New margin comes out of the cross account, for isolated positions too
+  const available = state ? getAvailableMargin(state) : 0;
+
+  let liquidationPrice: number | null;
+  if (mode === 'cross') {
+    // Other cross positions keep their maintenance; this asset's is recomputed
+    const currentMaintenance = existing?.leverage.type === 'cross'
+      ? getMaintenanceMargin(tiers, parseFloat(existing.positionValue))
+      : 0;
+    const totalMaintenance = state ? parseFloat(state.crossMaintenanceMarginUsed) : 0;
+    // Without an account, the order's own margin is all that backs it
+    liquidationPrice = getLiquidationPrice(
+      tiers,
+      order.price,
+      positionSize,
+      state ? parseFloat(state.crossMarginSummary.accountValue) : initialMargin,
+      Math.max(0, totalMaintenance - currentMaintenance)
+    );
+  } else {
+    liquidationPrice = getLiquidationPrice(tiers, order.price, positionSize, Math.max(initialMargin, currentMarginUsed));
+  }
+
+  let error: string | undefined;
+  if (leverage > maxLeverage) {
+    error = `Max leverage for a $${Math.round(notional).toLocaleString()} position is ${maxLeverage}x`;
+  } else if (requiredMargin > available) {
+    error = `Insufficient margin. Required: $${requiredMargin.toFixed(2)}, Available: $${available.toFixed(2)}`;
+  }
+
+  return {
+    mode,
+    leverage,
+    maxLeverage,
+    positionSize,
+    notional,
+    initialMargin,
+    requiredMargin,
+    maintenanceMargin,
+    available,
+    sufficient: !error,
+    liquidationPrice,
+    error
+  };
+};
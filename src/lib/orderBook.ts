@@ -0,0 +1,134 @@
+import type { L2BookLevel, L2BookSnapshot } from '@/types/hyperliquid';
+
+// Server-side price grouping for l2Book. nSigFigs null means full precision;
+// mantissa is only accepted together with nSigFigs 5.
+export interface BookGrouping {
+  nSigFigs: 2 | 3 | 4 | 5 | null;
+  mantissa?: 2 | 5;
+}
+
+export interface GroupingOption extends BookGrouping {
+  tick: number;   // Price increment of the grouped levels
+  label: string;
+}
+
+export type LevelChange = 'new' | 'increase' | 'decrease';
+
+export interface OrderBookLevel {
+  price: number;
+  size: number;
+  total: number;        // Cumulative size from the top of the book
+  orders: number;       // Number of resting orders at the level
+  change?: LevelChange; // Size change since the previous update
+}
+
+export interface AggregatedOrderBook {
+  coin: string;
+  time: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  maxTotal: number;     // Deepest cumulative size on either side, for depth bars
+  spread: number | null;
+  midPrice: number | null;
+}
+
+export const FULL_PRECISION: BookGrouping = { nSigFigs: null };
+
+const GROUPING_CANDIDATES: BookGrouping[] = [
+  { nSigFigs: 5 },
+  { nSigFigs: 5, mantissa: 2 },
+  { nSigFigs: 5, mantissa: 5 },
+  { nSigFigs: 4 },
+  { nSigFigs: 3 },
+  { nSigFigs: 2 }
+];
+
+export const isSameGrouping = (a: BookGrouping, b: BookGrouping): boolean =>
+  a.nSigFigs === b.nSigFigs && a.mantissa === b.mantissa;
+
+/**
+ * Price increment produced by a grouping at the given price level
+ */
+export const groupingTick = (grouping: BookGrouping, price: number): number | null => {
+  if (grouping.nSigFigs === null || !(price > 0)) return null;
+
+  const magnitude = Math.floor(Math.log10(price)) + 1;
+  return (grouping.mantissa ?? 1) * Math.pow(10, magnitude - grouping.nSigFigs);
+};
+
+const formatTick = (tick: number): string =>
+  tick >= 1 ? tick.toLocaleString() : parseFloat(tick.toPrecision(1)).toString();
+
+/**
+ * Grouping choices for a market at the given price, from finest to coarsest.
+ * Options that would produce the same tick as a finer one are skipped.
+ */
+export const getGroupingOptions = (price: number): GroupingOption[] => {
+  const options: GroupingOption[] = [{ ...FULL_PRECISION, tick: 0, label: 'Full' }];
+  const seen = new Set<number>();
+
+  GROUPING_CANDIDATES.forEach(grouping => {
+    const tick = groupingTick(grouping, price);
+    if (tick === null || seen.has(tick)) return;
+
+    seen.add(tick);
+    options.push({ ...grouping, tick, label: formatTick(tick) });
+  });
+
+  return options.sort((a, b) => a.tick - b.tick);
+};
+
+const aggregateSide = (
+  levels: L2BookLevel[],
+  previous: Map<number, number> | undefined
+): OrderBookLevel[] => {
+  let total = 0;
+
+  return levels.map(level => {
+    const price = parseFloat(level.px);
+    const size = parseFloat(level.sz);
+    total += size;
+
+    let change: LevelChange | undefined;
+    if (previous) {
+      const previousSize = previous.get(price);
+      if (previousSize === undefined) change = 'new';
+      else if (size > previousSize) change = 'increase';
+      else if (size < previousSize) change = 'decrease';
+    }
+
+    return { price, size, total, orders: level.n, change };
+  });
+};
+
+const sizeByPrice = (levels: OrderBookLevel[]): Map<number, number> =>
+  new Map(levels.map(level => [level.price, level.size]));
+
+/**
+ * Aggregate an l2Book snapshot into cumulative depth. When the previous book
+ * for the same coin and grouping is passed, levels are tagged with their size change.
+ */
+export const aggregateOrderBook = (
+  snapshot: L2BookSnapshot,
+  previous?: AggregatedOrderBook | null
+): AggregatedOrderBook => {
+  const comparable = previous && previous.coin === snapshot.coin ? previous : null;
+  const [rawBids = [], rawAsks = []] = snapshot.levels;
+
+  const bids = aggregateSide(rawBids, comparable ? sizeByPrice(comparable.bids) : undefined);
+  const asks = aggregateSide(rawAsks, comparable ? sizeByPrice(comparable.asks) : undefined);
+
+  const bestBid = bids[0]?.price;
+  const bestAsk = asks[0]?.price;
+  const hasTop = bestBid !== undefined && bestAsk !== undefined;
+
+  return {
+    coin: snapshot.coin,
+    time: snapshot.time,
+    bids,
+    asks,
+    maxTotal: Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0),
+    spread: hasTop ? bestAsk - bestBid : null,
+    midPrice: hasTop ? (bestAsk + bestBid) / 2 : null
+  };
+};
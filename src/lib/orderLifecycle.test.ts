@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Fill } from '@/types/hyperliquid';
+import {
+  applyOrderEvent,
+  type OrderLifecycleEvent,
+  type OrderTransition,
+  type TrackedOrder
+} from './orderLifecycle';
+
+const fill = (tid: number, sz: string, px: string, time: number): Fill => ({
+  closedPnl: '0',
+  coin: 'BTC',
+  crossed: false,
+  dir: 'Open Long',
+  hash: '0x0',
+  oid: 42,
+  px,
+  side: 'B',
+  startPosition: '0',
+  sz,
+  time,
+  fee: '0',
+  feeToken: 'USDC',
+  tid
+});
+
+// Apply events in order, returning the final orders and every transition
+const run = (events: OrderLifecycleEvent[], orders: TrackedOrder[] = []) =>
+  events.reduce(
+    (state, event) => {
+      const { orders, transition } = applyOrderEvent(state.orders, event);
+      return { orders, transitions: transition ? [...state.transitions, transition] : state.transitions };
+    },
+    { orders, transitions: [] as OrderTransition[] }
+  );
+
+// A 1 BTC buy that is resting on the exchange as oid 42
+const { orders: resting } = run([
+  { type: 'signing', key: 'order-1', coin: 'BTC', side: 'buy', size: 1, time: 1 },
+  { type: 'submitted', key: 'order-1', oid: 42, status: 'resting', time: 2 }
+]);
+
+describe('applyOrderEvent fills', () => {
+  it('moves from partially filled to filled as fills add up', () => {
+    const { orders, transitions } = run([
+      { type: 'fill', fill: fill(100, '0.4', '60000', 3) },
+      { type: 'fill', fill: fill(101, '0.6', '61000', 4) }
+    ], resting);
+
+    expect(transitions.map(t => [t.from, t.order.status])).toEqual([
+      ['resting', 'partiallyFilled'],
+      ['partiallyFilled', 'filled']
+    ]);
+    expect(orders[0]).toMatchObject({ status: 'filled', filledSize: 1 });
+    expect(orders[0].averagePrice).toBeCloseTo(60600);
+  });
+
+  it('records each partial fill on the timeline', () => {
+    const { orders } = run([
+      { type: 'fill', fill: fill(100, '0.2', '60000', 3) },
+      { type: 'fill', fill: fill(101, '0.3', '60000', 4) }
+    ], resting);
+
+    expect(orders[0].status).toBe('partiallyFilled');
+    expect(orders[0].filledSize).toBeCloseTo(0.5);
+    expect(orders[0].timeline.map(entry => entry.status)).toEqual([
+      'pendingSign',
+      'resting',
+      'partiallyFilled',
+      'partiallyFilled'
+    ]);
+  });
+
+  it('applies a fill once when it arrives on more than one stream', () => {
+    const first = run([{ type: 'fill', fill: fill(100, '0.4', '60000', 3) }], resting);
+    const { orders, transition } = applyOrderEvent(first.orders, { type: 'fill', fill: fill(100, '0.4', '60000', 3) });
+
+    expect(transition).toBeNull();
+    expect(orders).toBe(first.orders);
+    expect(orders[0].filledSize).toBeCloseTo(0.4);
+  });
+});
+
+describe('applyOrderEvent cancels', () => {
+  it('marks orders cancelled by the exchange', () => {
+    const { orders, transitions } = run([{ type: 'nonUserCancel', coin: 'BTC', oid: 42, time: 5 }], resting);
+
+    expect(transitions).toHaveLength(1);
+    expect(orders[0].status).toBe('cancelled');
+    expect(orders[0].timeline.at(-1)?.detail).toBe('cancelled by the exchange');
+  });
+
+  it('does not reopen a filled order', () => {
+    const { orders } = run([
+      { type: 'fill', fill: fill(100, '1', '60000', 3) },
+      { type: 'nonUserCancel', coin: 'BTC', oid: 42, time: 5 }
+    ], resting);
+
+    expect(orders[0].status).toBe('filled');
+  });
+});
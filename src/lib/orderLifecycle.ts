@@ -0,0 +1,285 @@
+import type { Fill, WsOrderUpdate } from '@/types/hyperliquid';
+
+// Order lifecycle state machine. Orders are tracked from signing through the
+// exchange's response and then by the orderUpdates, userFills and userEvents
+// streams. Each order has a status and a timeline of what happened to it.
+// Streams can repeat or reorder messages, so orders never move back to an
+// earlier status and fills are applied once per trade ID.
+
+export type OrderLifecycleStatus =
+  | 'pendingSign'
+  | 'submitted'
+  | 'resting'
+  | 'triggered'
+  | 'partiallyFilled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected';
+
+// Higher ranks are further along; filled, cancelled and rejected are final
+const STATUS_RANK: Record<OrderLifecycleStatus, number> = {
+  pendingSign: 0,
+  submitted: 1,
+  resting: 2,
+  triggered: 3,
+  partiallyFilled: 4,
+  filled: 5,
+  cancelled: 5,
+  rejected: 5
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderLifecycleStatus, string> = {
+  pendingSign: 'Awaiting signature',
+  submitted: 'Submitted',
+  resting: 'Resting',
+  triggered: 'Triggered',
+  partiallyFilled: 'Partially filled',
+  filled: 'Filled',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected'
+};
+
+// Orders kept in memory; the oldest are dropped first
+export const MAX_TRACKED_ORDERS = 100;
+
+export interface OrderTimelineEntry {
+  status: OrderLifecycleStatus;
+  time: number;
+  detail?: string;
+}
+
+export interface TrackedOrder {
+  key: string;                 // Local ID, stable from signing onwards
+  oid: number | null;          // Exchange order ID, once assigned
+  cloid: string | null;
+  coin: string;
+  side: 'buy' | 'sell';
+  size: number;
+  filledSize: number;
+  averagePrice: number | null;
+  status: OrderLifecycleStatus;
+  fills: Array<{ tid: number; size: number; price: number }>;
+  timeline: OrderTimelineEntry[];
+  updatedAt: number;
+}
+
+export type OrderLifecycleEvent =
+  | { type: 'signing'; key: string; coin: string; side: 'buy' | 'sell'; size: number; cloid?: string; time: number }
+  | {
+      type: 'submitted';
+      key: string;
+      oid?: number;
+      status?: 'resting' | 'filled' | 'pending';
+      filledSize?: number;
+      averagePrice?: number;
+      time: number;
+    }
+  | { type: 'rejected'; key: string; error: string; time: number }
+  | { type: 'orderUpdate'; update: WsOrderUpdate }
+  | { type: 'fill'; fill: Fill }
+  | { type: 'nonUserCancel'; coin: string; oid: number; time: number };
+
+export interface OrderTransition {
+  order: TrackedOrder;
+  from: OrderLifecycleStatus | null;   // null for orders first seen in this event
+  fill?: { size: number; price: number };
+}
+
+export const isFinalStatus = (status: OrderLifecycleStatus): boolean => STATUS_RANK[status] === STATUS_RANK.filled;
+
+/**
+ * Readable form of an orderUpdates status such as "marginCanceled" or "tickRejected"
+ */
+export const describeOrderStatus = (status: string): string =>
+  status.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+// Map an orderUpdates status onto the lifecycle
+const fromUpdateStatus = (update: WsOrderUpdate): OrderLifecycleStatus => {
+  const { status, order } = update;
+  if (status === 'open') {
+    return parseFloat(order.sz) < parseFloat(order.origSz) ? 'partiallyFilled' : 'resting';
+  }
+  if (status === 'filled') return 'filled';
+  if (status === 'triggered') return 'triggered';
+  if (/rejected$/i.test(status)) return 'rejected';
+  return 'cancelled';
+};
+
+const findOrder = (orders: TrackedOrder[], match: { key?: string; oid?: number; cloid?: string | null }) =>
+  orders.find(order =>
+    (match.key !== undefined && order.key === match.key) ||
+    (!!match.cloid && order.cloid === match.cloid) ||
+    (match.oid !== undefined && order.oid === match.oid)
+  );
+
+const createOrder = (
+  key: string,
+  fields: Pick<TrackedOrder, 'coin' | 'side' | 'size'> & Partial<Pick<TrackedOrder, 'oid' | 'cloid'>>,
+  time: number
+): TrackedOrder => ({
+  key,
+  oid: fields.oid ?? null,
+  cloid: fields.cloid ?? null,
+  coin: fields.coin,
+  side: fields.side,
+  size: fields.size,
+  filledSize: 0,
+  averagePrice: null,
+  status: 'pendingSign',
+  fills: [],
+  timeline: [],
+  updatedAt: time
+});
+
+// Move an order to a status, ignoring moves back to an earlier one
+const advance = (
+  order: TrackedOrder,
+  status: OrderLifecycleStatus,
+  time: number,
+  detail?: string
+): TrackedOrder => {
+  const isNew = order.timeline.length === 0;
+  // Every fill of a partially filled order gets its own entry
+  const isNextFill = status === 'partiallyFilled' && order.status === 'partiallyFilled' && detail !== undefined;
+  const isBackwards = STATUS_RANK[status] <= STATUS_RANK[order.status] && !isNextFill;
+  if (!isNew && (isFinalStatus(order.status) || isBackwards)) return order;
+
+  return {
+    ...order,
+    status,
+    timeline: [...order.timeline, { status, time, detail }],
+    updatedAt: time
+  };
+};
+
+const formatSize = (size: number) => size.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+/**
+ * Apply one event to the tracked orders, newest first. Returns the new list and
+ * the transition the event caused, or null if it changed nothing.
+ */
+export const applyOrderEvent = (
+  orders: TrackedOrder[],
+  event: OrderLifecycleEvent
+): { orders: TrackedOrder[]; transition: OrderTransition | null } => {
+  const unchanged = { orders, transition: null };
+
+  const replace = (previous: TrackedOrder | undefined, next: TrackedOrder, fill?: OrderTransition['fill']) => {
+    if (previous === next) return unchanged;
+    const rest = previous ? orders.filter(order => order !== previous) : orders;
+    return {
+      orders: [next, ...rest].slice(0, MAX_TRACKED_ORDERS),
+      transition: { order: next, from: previous ? previous.status : null, fill }
+    };
+  };
+
+  switch (event.type) {
+    case 'signing': {
+      if (findOrder(orders, { key: event.key })) return unchanged;
+      const order = createOrder(event.key, event, event.time);
+      return replace(undefined, advance(order, 'pendingSign', event.time));
+    }
+
+    case 'submitted': {
+      const current = findOrder(orders, { key: event.key });
+      if (!current) return unchanged;
+
+      let next: TrackedOrder = { ...current, oid: event.oid ?? current.oid };
+      if (event.status === 'filled') {
+        next = {
+          ...next,
+          filledSize: Math.max(next.filledSize, event.filledSize ?? next.size),
+          averagePrice: next.averagePrice ?? event.averagePrice ?? null
+        };
+        next = advance(next, 'filled', event.time);
+      } else {
+        next = advance(next, event.status === 'resting' ? 'resting' : 'submitted', event.time);
+      }
+      return replace(current, next);
+    }
+
+    case 'rejected': {
+      const current = findOrder(orders, { key: event.key });
+      if (!current) return unchanged;
+      return replace(current, advance(current, 'rejected', event.time, event.error));
+    }
+
+    case 'orderUpdate': {
+      const { order: wire, statusTimestamp } = event.update;
+      const current = findOrder(orders, { oid: wire.oid, cloid: wire.cloid });
+      const base = current ?? createOrder(`oid:${wire.oid}`, {
+        coin: wire.coin,
+        side: wire.side === 'B' ? 'buy' : 'sell',
+        size: parseFloat(wire.origSz),
+        oid: wire.oid,
+        cloid: wire.cloid
+      }, statusTimestamp);
+
+      const status = fromUpdateStatus(event.update);
+      const remaining = parseFloat(wire.sz);
+      const origSize = parseFloat(wire.origSz);
+      const updated: TrackedOrder = {
+        ...base,
+        oid: wire.oid,
+        cloid: base.cloid ?? wire.cloid ?? null,
+        size: origSize,
+        filledSize: Math.max(base.filledSize, status === 'filled' ? origSize : origSize - remaining)
+      };
+
+      const detail = status === 'cancelled' || status === 'rejected'
+        ? describeOrderStatus(event.update.status)
+        : undefined;
+      const next = advance(updated, status, statusTimestamp, detail);
+
+      // Size corrections alone aren't worth a transition
+      if (current && next.status === current.status && next.timeline === current.timeline) {
+        return { orders: orders.map(order => (order === current ? next : order)), transition: null };
+      }
+      return replace(current, next);
+    }
+
+    case 'fill': {
+      const { fill } = event;
+      if (orders.some(order => order.fills.some(({ tid }) => tid === fill.tid))) return unchanged;
+
+      const size = parseFloat(fill.sz);
+      const price = parseFloat(fill.px);
+      const current = findOrder(orders, { oid: fill.oid });
+      // Fills can arrive before the order's first update; its full size comes with that update
+      const base = current ?? createOrder(`oid:${fill.oid}`, {
+        coin: fill.coin,
+        side: fill.side === 'B' ? 'buy' : 'sell',
+        size: 0,
+        oid: fill.oid
+      }, fill.time);
+
+      const fills = [...base.fills, { tid: fill.tid, size, price }];
+      const fillSize = fills.reduce((sum, f) => sum + f.size, 0);
+      const fillNotional = fills.reduce((sum, f) => sum + f.size * f.price, 0);
+      const filledSize = Math.max(base.filledSize, fillSize);
+      const filled: TrackedOrder = {
+        ...base,
+        size: Math.max(base.size, filledSize),
+        fills,
+        filledSize,
+        averagePrice: fillNotional / fillSize,
+        updatedAt: fill.time
+      };
+
+      const isComplete = current !== undefined && current.size > 0 && filledSize >= current.size * (1 - 1e-9);
+      const next = advance(
+        filled,
+        isComplete ? 'filled' : 'partiallyFilled',
+        fill.time,
+        `${formatSize(size)} @ $${price.toLocaleString(undefined, { maximumFractionDigits: 6 })}`
+      );
+      return replace(current, next, { size, price });
+    }
+
+    case 'nonUserCancel': {
+      const current = findOrder(orders, { oid: event.oid });
+      if (!current) return unchanged;
+      return replace(current, advance(current, 'cancelled', event.time, 'cancelled by the exchange'));
+    }
+  }
+};
@@ -0,0 +1,182 @@
+// Versioned client-side persistence for trading state (templates, advanced
+// orders, risk settings, chart drawings, trade tape settings, dead-man's
+// switch). Records live in IndexedDB and fall back to localStorage when
+// IndexedDB is unavailable (e.g. private browsing).
+
+export type StorageNamespace =
+  | 'orderTemplates'
+  | 'trailingStops'
+  | 'riskSettings'
+  | 'chartDrawings'
+  | 'tradeTape'
+  | 'deadMansSwitch';
+
+interface PersistedRecord<T> {
+  version: number;
+  updatedAt: number;
+  data: T;
+}
+
+type Migration = (data: unknown, namespace: StorageNamespace) => unknown;
+
+export const STORAGE_SCHEMA_VERSION = 1;
+
+// MIGRATIONS[n] upgrades data from version n - 1 to version n. Version 1 is
+// the first persisted format, so there is nothing to upgrade yet.
+const MIGRATIONS: Record<number, Migration> = {};
+
+const DB_NAME = 'prep-trade';
+const STORE_NAME = 'state';
+const FALLBACK_PREFIX = 'prep-trade';
+
+/**
+ * Scope persisted state to a wallet and network; disconnected sessions share a guest scope
+ */
+export const storageScope = (owner: string | null | undefined, isTestnet: boolean): string =>
+  `${owner ? owner.toLowerCase() : 'guest'}:${isTestnet ? 'testnet' : 'mainnet'}`;
+
+const recordKey = (namespace: StorageNamespace, scope: string) => `${namespace}:${scope}`;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('IndexedDB unavailable, falling back to localStorage:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const readRecord = async <T>(key: string): Promise<PersistedRecord<T> | undefined> => {
+  const db = await openDatabase();
+
+  if (!db) {
+    const raw = localStorage.getItem(`${FALLBACK_PREFIX}:${key}`);
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeRecord = async <T>(key: string, record: PersistedRecord<T>): Promise<void> => {
+  const db = await openDatabase();
+
+  if (!db) {
+    localStorage.setItem(`${FALLBACK_PREFIX}:${key}`, JSON.stringify(record));
+    return;
+  }
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Upgrade data written at `fromVersion` to the current schema version
+ */
+export const migrate = <T>(data: unknown, fromVersion: number, namespace: StorageNamespace): T => {
+  if (fromVersion > STORAGE_SCHEMA_VERSION) {
+    throw new Error(`Stored ${namespace} uses schema v${fromVersion}, newer than supported v${STORAGE_SCHEMA_VERSION}`);
+  }
+
+  let migrated = data;
+  for (let version = fromVersion + 1; version <= STORAGE_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration for ${namespace} from schema v${version - 1}`);
+    }
+    migrated = migration(migrated, namespace);
+  }
+  return migrated as T;
+};
+
+/**
+ * Load and migrate persisted state, returning the fallback if nothing is stored
+ */
+export const loadPersisted = async <T>(
+  namespace: StorageNamespace,
+  scope: string,
+  fallback: T
+): Promise<T> => {
+  const key = recordKey(namespace, scope);
+
+  try {
+    const record = await readRecord<T>(key);
+    if (record) {
+      const data = migrate<T>(record.data, record.version, namespace);
+      if (record.version !== STORAGE_SCHEMA_VERSION) {
+        await savePersisted(namespace, scope, data);
+      }
+      return data;
+    }
+  } catch (error) {
+    console.error(`Failed to load persisted ${namespace}:`, error);
+  }
+
+  return fallback;
+};
+
+/**
+ * Persist state at the current schema version
+ */
+export const savePersisted = async <T>(
+  namespace: StorageNamespace,
+  scope: string,
+  data: T
+): Promise<void> => {
+  await writeRecord(recordKey(namespace, scope), {
+    version: STORAGE_SCHEMA_VERSION,
+    updatedAt: Date.now(),
+    data
+  });
+};
+
+/**
+ * Trigger a browser download of a JSON document
+ */
+export const downloadJson = (filename: string, value: unknown): void => {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Read and parse a user-selected JSON file
+ */
+export const readJsonFile = async (file: File): Promise<unknown> => {
+  try {
+    return JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON file`);
+  }
+};
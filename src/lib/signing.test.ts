@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { hexToBigInt, recoverTypedDataAddress, serializeSignature, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { ApproveAgentAction, ExchangeAction } from '@/types/hyperliquid';
+import {
+  actionHash,
+  constructPhantomAgent,
+  floatToWire,
+  signApproveAgent,
+  signL1Action
+} from './signing';
+
+// Vectors from hyperliquid-python-sdk tests/signing_test.py
+const wallet = privateKeyToAccount('0x0123456789012345678901234567890123456789012345678901234567890123');
+
+// The SDK's { type: 'dummy', num: float_to_int_for_hashing(1000) }
+const DUMMY_ACTION = { type: 'dummy', num: 100000000000 } as unknown as ExchangeAction;
+
+// The SDK prints r and s without leading zeros, so compare them as numbers
+const expectSignature = (actual: { r: string; s: string; v: number }, expected: { r: string; s: string; v: number }) => {
+  expect(hexToBigInt(actual.r as Hex)).toBe(hexToBigInt(expected.r as Hex));
+  expect(hexToBigInt(actual.s as Hex)).toBe(hexToBigInt(expected.s as Hex));
+  expect(actual.v).toBe(expected.v);
+};
+
+describe('floatToWire', () => {
+  it('drops trailing zeros and caps precision at 8 decimals', () => {
+    expect(floatToWire(1670.1)).toBe('1670.1');
+    expect(floatToWire(0.0147)).toBe('0.0147');
+    expect(floatToWire(100)).toBe('100');
+    expect(floatToWire(-0)).toBe('0');
+  });
+
+  it('rejects values that would be rounded', () => {
+    expect(() => floatToWire(0.000000001)).toThrow(/rounding/);
+  });
+});
+
+describe('actionHash', () => {
+  it('matches the production phantom agent for an order', () => {
+    const action = {
+      type: 'order',
+      orders: [{ a: 4, b: true, p: '1670.1', s: '0.0147', r: false, t: { limit: { tif: 'Ioc' } } }],
+      grouping: 'na'
+    } as ExchangeAction;
+
+    const phantomAgent = constructPhantomAgent(actionHash(action, null, 1677777606040), true);
+
+    expect(phantomAgent).toEqual({
+      source: 'a',
+      connectionId: '0x0fcbeda5ae3c4950a548021552a4fea2226858c4453571bf3f24ba017eac2908'
+    });
+  });
+
+  it('changes with the vault address and expiry', () => {
+    const base = actionHash(DUMMY_ACTION, null, 0);
+    expect(actionHash(DUMMY_ACTION, '0x1719884eb866cb12b2287399b15f7db5e7d775ea', 0)).not.toBe(base);
+    expect(actionHash(DUMMY_ACTION, null, 0, 1700000000000)).not.toBe(base);
+  });
+});
+
+describe('signL1Action', () => {
+  it('signs for mainnet', async () => {
+    const signature = await signL1Action({ signer: wallet, action: DUMMY_ACTION, nonce: 0, isMainnet: true });
+
+    expectSignature(signature, {
+      r: '0x53749d5b30552aeb2fca34b530185976545bb22d0b3ce6f62e31be961a59298',
+      s: '0x755c40ba9bf05223521753995abb2f73ab3229be8ec921f350cb447e384d8ed8',
+      v: 27
+    });
+  });
+
+  it('signs for testnet', async () => {
+    const signature = await signL1Action({ signer: wallet, action: DUMMY_ACTION, nonce: 0, isMainnet: false });
+
+    expectSignature(signature, {
+      r: '0x542af61ef1f429707e3c76c5293c80d01f74ef853e34b76efffcb57e574f9510',
+      s: '0x17b8b32f086e8cdede991f1e2c529f5dd5297cbe8128500e00cbaf766204a613',
+      v: 28
+    });
+  });
+
+  it('signs on behalf of a vault', async () => {
+    const signature = await signL1Action({
+      signer: wallet,
+      action: DUMMY_ACTION,
+      nonce: 0,
+      isMainnet: true,
+      vaultAddress: '0x1719884eb866cb12b2287399b15f7db5e7d775ea'
+    });
+
+    expectSignature(signature, {
+      r: '0x3c548db75e479f8012acf3000ca3a6b05606bc2ec0c29c50c515066a326239',
+      s: '0x4d402be7396ce74fbba3795769cda45aec00dc3125a984f2a9f23177b190da2c',
+      v: 28
+    });
+  });
+});
+
+describe('signApproveAgent', () => {
+  const action: ApproveAgentAction = {
+    type: 'approveAgent',
+    hyperliquidChain: 'Testnet',
+    signatureChainId: '0x66eee',
+    agentAddress: '0x1719884eb866cb12b2287399b15f7db5e7d775ea',
+    agentName: '',
+    nonce: 1700000000000
+  };
+
+  it('produces a signature that recovers to the approving wallet', async () => {
+    const { r, s, v } = await signApproveAgent(wallet, action);
+
+    const signer = await recoverTypedDataAddress({
+      domain: {
+        name: 'HyperliquidSignTransaction',
+        version: '1',
+        chainId: 0x66eee,
+        verifyingContract: '0x0000000000000000000000000000000000000000'
+      },
+      types: {
+        'HyperliquidTransaction:ApproveAgent': [
+          { name: 'hyperliquidChain', type: 'string' },
+          { name: 'agentAddress', type: 'address' },
+          { name: 'agentName', type: 'string' },
+          { name: 'nonce', type: 'uint64' }
+        ]
+      },
+      primaryType: 'HyperliquidTransaction:ApproveAgent',
+      message: { ...action, nonce: BigInt(action.nonce) },
+      signature: serializeSignature({ r: r as Hex, s: s as Hex, v: BigInt(v) })
+    });
+
+    expect(signer).toBe(wallet.address);
+  });
+
+  it('matches the recorded signature for a fixed key and nonce', async () => {
+    expectSignature(await signApproveAgent(wallet, action), {
+      r: '0x86fcb2d9e904d58bcc20429ca4a98576093344aec235ab73a87595682479a022',
+      s: '0x1fac7a43a8733be44a4c9b68ab36874d7f31ce19e0ae842f92a5234a9122c762',
+      v: 28
+    });
+  });
+});
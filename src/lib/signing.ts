@@ -0,0 +1,196 @@
+import { encode } from '@msgpack/msgpack';
+import {
+  concat,
+  hexToBytes,
+  keccak256,
+  numberToBytes,
+  parseSignature,
+  type Hex,
+  type TypedDataDomain,
+  type WalletClient
+} from 'viem';
+import type { ApproveAgentAction, ExchangeAction, HyperliquidSignature } from '@/types/hyperliquid';
+
+// Anything that can produce an EIP-712 signature, e.g. a viem local account
+export interface HyperliquidSigner {
+  signTypedData: (parameters: {
+    domain: TypedDataDomain;
+    types: Record<string, ReadonlyArray<{ name: string; type: string }>>;
+    primaryType: string;
+    message: Record<string, unknown>;
+  }) => Promise<Hex>;
+}
+
+export interface SignL1ActionParams {
+  signer: HyperliquidSigner;
+  action: ExchangeAction;
+  nonce: number;
+  isMainnet: boolean;
+  vaultAddress?: string | null;
+  expiresAfter?: number;
+}
+
+// L1 actions are signed against a fixed domain, independent of the wallet's active chain
+const L1_ACTION_DOMAIN: TypedDataDomain = {
+  name: 'Exchange',
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x0000000000000000000000000000000000000000'
+};
+
+const AGENT_TYPES = {
+  Agent: [
+    { name: 'source', type: 'string' },
+    { name: 'connectionId', type: 'bytes32' }
+  ]
+} as const;
+
+/**
+ * Adapt a connected wallet client into a signer bound to its account
+ */
+export const toHyperliquidSigner = (walletClient: WalletClient): HyperliquidSigner => ({
+  signTypedData: (parameters) => walletClient.signTypedData({
+    ...parameters,
+    account: walletClient.account!
+  })
+});
+
+const APPROVE_AGENT_TYPES = {
+  'HyperliquidTransaction:ApproveAgent': [
+    { name: 'hyperliquidChain', type: 'string' },
+    { name: 'agentAddress', type: 'address' },
+    { name: 'agentName', type: 'string' },
+    { name: 'nonce', type: 'uint64' }
+  ]
+} as const;
+
+let lastNonce = 0;
+
+/**
+ * Get a strictly increasing millisecond nonce, as required by the exchange
+ */
+export const nextNonce = (): number => {
+  lastNonce = Math.max(Date.now(), lastNonce + 1);
+  return lastNonce;
+};
+
+/**
+ * Generate a random client order ID: 16 bytes as 0x-prefixed hex
+ */
+export const createCloid = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return `0x${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Check a client order ID has the format the exchange accepts
+ */
+export const isValidCloid = (cloid: string): boolean => /^0x[0-9a-fA-F]{32}$/.test(cloid);
+
+/**
+ * Format a number the way Hyperliquid hashes it: at most 8 decimals, no trailing zeros
+ */
+export const floatToWire = (value: number): string => {
+  const rounded = value.toFixed(8);
+  if (Math.abs(parseFloat(rounded) - value) >= 1e-12) {
+    throw new Error(`floatToWire causes rounding: ${value}`);
+  }
+  const normalized = rounded.replace(/\.?0+$/, '');
+  return normalized === '-0' ? '0' : normalized;
+};
+
+/**
+ * Compute the connection ID for an L1 action:
+ * keccak256(msgpack(action) || nonce || vault flag [|| vault address] [|| 0x00 || expiresAfter])
+ */
+export const actionHash = (
+  action: ExchangeAction,
+  vaultAddress: string | null | undefined,
+  nonce: number,
+  expiresAfter?: number
+): Hex => {
+  const parts: Uint8Array[] = [
+    encode(action, { ignoreUndefined: true }),
+    numberToBytes(BigInt(nonce), { size: 8 })
+  ];
+
+  if (vaultAddress) {
+    parts.push(Uint8Array.of(1), hexToBytes(vaultAddress as Hex));
+  } else {
+    parts.push(Uint8Array.of(0));
+  }
+
+  if (expiresAfter !== undefined) {
+    parts.push(Uint8Array.of(0), numberToBytes(BigInt(expiresAfter), { size: 8 }));
+  }
+
+  return keccak256(concat(parts));
+};
+
+/**
+ * Build the phantom agent that is actually signed for an L1 action
+ */
+export const constructPhantomAgent = (connectionId: Hex, isMainnet: boolean) => ({
+  source: isMainnet ? 'a' : 'b',
+  connectionId
+});
+
+/**
+ * Split a 65-byte hex signature into the { r, s, v } shape the exchange expects
+ */
+export const splitSignature = (signature: Hex): HyperliquidSignature => {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return {
+    r,
+    s,
+    v: v !== undefined ? Number(v) : yParity + 27
+  };
+};
+
+/**
+ * Sign an L1 action (order, cancel, modify, ...) as the "Agent" typed-data struct
+ */
+export const signL1Action = async ({
+  signer,
+  action,
+  nonce,
+  isMainnet,
+  vaultAddress = null,
+  expiresAfter
+}: SignL1ActionParams): Promise<HyperliquidSignature> => {
+  const connectionId = actionHash(action, vaultAddress, nonce, expiresAfter);
+
+  const signature = await signer.signTypedData({
+    domain: L1_ACTION_DOMAIN,
+    types: AGENT_TYPES,
+    primaryType: 'Agent',
+    message: constructPhantomAgent(connectionId, isMainnet)
+  });
+
+  return splitSignature(signature);
+};
+
+/**
+ * Sign an approveAgent action with the main wallet. Unlike L1 actions this is
+ * signed against the wallet's own chain, so it works with browser wallets.
+ */
+export const signApproveAgent = async (
+  signer: HyperliquidSigner,
+  action: ApproveAgentAction
+): Promise<HyperliquidSignature> => {
+  const { hyperliquidChain, agentAddress, agentName, nonce } = action;
+
+  const signature = await signer.signTypedData({
+    domain: {
+      name: 'HyperliquidSignTransaction',
+      version: '1',
+      chainId: parseInt(action.signatureChainId, 16),
+      verifyingContract: '0x0000000000000000000000000000000000000000'
+    },
+    types: APPROVE_AGENT_TYPES,
+    primaryType: 'HyperliquidTransaction:ApproveAgent',
+    message: { hyperliquidChain, agentAddress, agentName, nonce: BigInt(nonce) }
+  });
+
+  return splitSignature(signature);
+};
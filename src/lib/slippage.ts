@@ -0,0 +1,100 @@
+import type { L2BookLevel, L2BookSnapshot } from '@/types/hyperliquid';
+
+// Market order fill estimates from the L2 book. Walking the levels on the
+// taking side gives the average and worst fill price for a size; slippage
+// and price impact are measured against the mid price, as fractions where
+// positive means a worse price for the taker.
+
+// Max slippage for market orders when none is given, as a fraction of mid
+export const DEFAULT_MAX_SLIPPAGE = 0.01;
+
+// Max slippage when flattening every position at once, where getting out
+// matters more than the price
+export const PANIC_MAX_SLIPPAGE = 0.05;
+
+export interface SlippageEstimate {
+  midPrice: number | null;
+  averagePrice: number | null;  // null when the taking side of the book is empty
+  worstPrice: number | null;    // Deepest level the order reaches
+  filledSize: number;           // Below the order size when the book is too thin
+  slippage: number;             // Average price vs mid
+  priceImpact: number;          // Worst price vs mid
+  impactPrice: number | null;   // The exchange's impact price for this side
+  impactSlippage: number | null; // Impact price vs mid, for comparison with slippage
+}
+
+const getMidPrice = (bids: L2BookLevel[], asks: L2BookLevel[]): number | null => {
+  const bestBid = bids[0] ? parseFloat(bids[0].px) : null;
+  const bestAsk = asks[0] ? parseFloat(asks[0].px) : null;
+  if (bestBid !== null && bestAsk !== null) return (bestBid + bestAsk) / 2;
+  return bestBid ?? bestAsk;
+};
+
+// Price move against the taker, as a fraction of mid
+const toSlippage = (price: number, midPrice: number, isBuy: boolean) =>
+  ((price - midPrice) / midPrice) * (isBuy ? 1 : -1);
+
+/**
+ * Walk the book to estimate how a market order of `size` would fill.
+ * `impactPxs` is AssetContext.impactPxs, the exchange's [bid, ask] impact prices.
+ */
+export const estimateSlippage = (
+  book: L2BookSnapshot,
+  isBuy: boolean,
+  size: number,
+  impactPxs?: [string, string]
+): SlippageEstimate => {
+  const [bids, asks] = book.levels;
+  const levels = isBuy ? asks : bids;
+  const midPrice = getMidPrice(bids, asks);
+
+  let filledSize = 0;
+  let notional = 0;
+  let worstPrice: number | null = null;
+
+  for (const level of levels) {
+    if (filledSize >= size) break;
+    const price = parseFloat(level.px);
+    const fill = Math.min(parseFloat(level.sz), size - filledSize);
+    filledSize += fill;
+    notional += fill * price;
+    worstPrice = price;
+  }
+
+  const averagePrice = filledSize > 0 ? notional / filledSize : null;
+  const impactPrice = impactPxs ? parseFloat(impactPxs[isBuy ? 1 : 0]) || null : null;
+
+  return {
+    midPrice,
+    averagePrice,
+    worstPrice,
+    filledSize,
+    slippage: midPrice && averagePrice !== null ? toSlippage(averagePrice, midPrice, isBuy) : 0,
+    priceImpact: midPrice && worstPrice !== null ? toSlippage(worstPrice, midPrice, isBuy) : 0,
+    impactPrice,
+    impactSlippage: midPrice && impactPrice !== null ? toSlippage(impactPrice, midPrice, isBuy) : null
+  };
+};
+
+/**
+ * Reason a market order can't fill within `maxSlippage`, or null if it can
+ */
+export const checkSlippage = (estimate: SlippageEstimate, size: number, maxSlippage: number): string | null => {
+  if (estimate.midPrice === null || estimate.averagePrice === null) {
+    return 'No liquidity in the order book';
+  }
+  if (estimate.filledSize < size) {
+    return 'Order size exceeds the visible order book depth';
+  }
+  if (estimate.priceImpact > maxSlippage) {
+    return `Price impact of ${(estimate.priceImpact * 100).toFixed(2)}% exceeds the ${(maxSlippage * 100).toFixed(2)}% max slippage`;
+  }
+  return null;
+};
+
+/**
+ * IOC limit price for a market order: the exchange won't fill it more than
+ * `maxSlippage` away from mid
+ */
+export const getSlippageLimitPrice = (midPrice: number, isBuy: boolean, maxSlippage: number): number =>
+  midPrice * (isBuy ? 1 + maxSlippage : 1 - maxSlippage);
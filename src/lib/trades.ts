@@ -0,0 +1,203 @@
+import type { WSTradeData } from '@/hooks/useHyperliquidWebSocket';
+
+// Time-and-sales tape built from the trades subscription. One taker order
+// sweeping several resting orders arrives as several fills with the same
+// timestamp; the tape prints them as a single trade.
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface TapeTrade {
+  id: string;
+  coin: string;
+  side: TradeSide;     // Taker side
+  price: number;       // Size-weighted average of the aggregated fills
+  size: number;
+  notional: number;
+  time: number;        // ms
+  fills: number;       // Fills aggregated into this print
+  tids: number[];
+  taker?: string;
+  key: string;         // Aggregation key shared by fills of one print
+}
+
+export interface VolumeDelta {
+  buyNotional: number;
+  sellNotional: number;
+  delta: number;       // Buy minus sell notional
+  buyShare: number;    // Buy share of total notional, 0.5 when there is no volume
+  isPartial: boolean;  // Volume hasn't been followed for the whole window yet
+}
+
+// Taker volume per VOLUME_BUCKET_MS, oldest first. Kept apart from the tape,
+// which only holds the latest prints, so delta windows see every fill.
+export interface VolumeHistory {
+  buckets: Array<{ time: number; buyNotional: number; sellNotional: number }>;
+  startTime: number | null;  // Oldest fill counted
+  lastTime: number;          // Newest fill counted
+  lastTids: number[];        // Fills counted at lastTime
+}
+
+// Prints kept in the tape, newest first
+export const MAX_TAPE_TRADES = 500;
+
+// Longest volume delta window, and the resolution volume is kept at
+export const MAX_DELTA_WINDOW_MS = 15 * 60_000;
+export const VOLUME_BUCKET_MS = 1000;
+
+export const EMPTY_VOLUME_HISTORY: VolumeHistory = { buckets: [], startTime: null, lastTime: 0, lastTids: [] };
+
+const takerOf = (trade: WSTradeData): string | undefined =>
+  trade.users?.[trade.side === 'B' ? 0 : 1];
+
+// Fills from the same taker, side and timestamp belong to one print. Without
+// user data, fills of one order still share a transaction hash.
+const aggregationKey = (trade: WSTradeData): string =>
+  `${takerOf(trade) ?? trade.hash ?? trade.tid}:${trade.side}:${trade.time}`;
+
+const toTapeTrade = (trade: WSTradeData): TapeTrade => {
+  const price = parseFloat(trade.px);
+  const size = parseFloat(trade.sz);
+  return {
+    id: `${trade.coin}:${trade.tid}`,
+    coin: trade.coin,
+    side: trade.side === 'B' ? 'buy' : 'sell',
+    price,
+    size,
+    notional: price * size,
+    time: trade.time,
+    fills: 1,
+    tids: [trade.tid],
+    taker: takerOf(trade),
+    key: aggregationKey(trade)
+  };
+};
+
+const mergeFill = (print: TapeTrade, trade: WSTradeData): TapeTrade => {
+  const fill = toTapeTrade(trade);
+  const size = print.size + fill.size;
+  const notional = print.notional + fill.notional;
+  return {
+    ...print,
+    price: size > 0 ? notional / size : print.price,
+    size,
+    notional,
+    fills: print.fills + 1,
+    tids: [...print.tids, trade.tid]
+  };
+};
+
+/**
+ * Add fills to a tape (newest first), aggregating fills from the same taker
+ * order and dropping fills already on the tape (e.g. a resubscribe snapshot)
+ */
+export const addTrades = (
+  tape: TapeTrade[],
+  incoming: WSTradeData[],
+  maxTrades: number = MAX_TAPE_TRADES
+): TapeTrade[] => {
+  if (incoming.length === 0) return tape;
+
+  const sorted = [...incoming].sort((a, b) => a.time - b.time || a.tid - b.tid);
+
+  // Only prints at or after the oldest incoming fill can contain it
+  const seen = new Set<number>();
+  for (const print of tape) {
+    if (print.time < sorted[0].time) break;
+    print.tids.forEach(tid => seen.add(tid));
+  }
+
+  const prints = [...tape];
+  let added = false;
+
+  for (const trade of sorted) {
+    if (seen.has(trade.tid)) continue;
+    seen.add(trade.tid);
+    added = true;
+
+    // Fills arrive in order, so only the newest print can still be growing
+    if (prints[0]?.key === aggregationKey(trade)) {
+      prints[0] = mergeFill(prints[0], trade);
+    } else {
+      prints.unshift(toTapeTrade(trade));
+    }
+  }
+
+  return added ? prints.slice(0, maxTrades) : tape;
+};
+
+/**
+ * Count fills into the rolling volume, skipping fills already counted (e.g. a
+ * resubscribe snapshot) and dropping buckets older than MAX_DELTA_WINDOW_MS
+ */
+export const addVolume = (history: VolumeHistory, incoming: WSTradeData[]): VolumeHistory => {
+  const sorted = [...incoming].sort((a, b) => a.time - b.time || a.tid - b.tid);
+  const counted = new Set(history.lastTids);
+  const buckets = [...history.buckets];
+  let { startTime, lastTime, lastTids } = history;
+  let added = false;
+
+  for (const trade of sorted) {
+    if (trade.time < lastTime || counted.has(trade.tid)) continue;
+    counted.add(trade.tid);
+    added = true;
+
+    if (trade.time > lastTime) {
+      lastTime = trade.time;
+      lastTids = [];
+    }
+    lastTids = [...lastTids, trade.tid];
+    startTime ??= trade.time;
+
+    const time = trade.time - (trade.time % VOLUME_BUCKET_MS);
+    const notional = parseFloat(trade.px) * parseFloat(trade.sz);
+    const last = buckets[buckets.length - 1];
+    const bucket = last?.time === time ? { ...last } : { time, buyNotional: 0, sellNotional: 0 };
+
+    if (trade.side === 'B') {
+      bucket.buyNotional += notional;
+    } else {
+      bucket.sellNotional += notional;
+    }
+
+    if (bucket.time === last?.time) {
+      buckets[buckets.length - 1] = bucket;
+    } else {
+      buckets.push(bucket);
+    }
+  }
+
+  if (!added) return history;
+
+  const cutoff = lastTime - MAX_DELTA_WINDOW_MS - VOLUME_BUCKET_MS;
+  const firstKept = buckets.findIndex(bucket => bucket.time >= cutoff);
+  return {
+    buckets: firstKept > 0 ? buckets.slice(firstKept) : buckets,
+    startTime,
+    lastTime,
+    lastTids
+  };
+};
+
+/**
+ * Taker buy and sell notional over the trailing window
+ */
+export const getVolumeDelta = (history: VolumeHistory, windowMs: number, now: number = Date.now()): VolumeDelta => {
+  let buyNotional = 0;
+  let sellNotional = 0;
+
+  for (let i = history.buckets.length - 1; i >= 0; i--) {
+    const bucket = history.buckets[i];
+    if (bucket.time < now - windowMs) break;
+    buyNotional += bucket.buyNotional;
+    sellNotional += bucket.sellNotional;
+  }
+
+  const total = buyNotional + sellNotional;
+  return {
+    buyNotional,
+    sellNotional,
+    delta: buyNotional - sellNotional,
+    buyShare: total > 0 ? buyNotional / total : 0.5,
+    isPartial: history.startTime === null || history.startTime > now - windowMs
+  };
+};
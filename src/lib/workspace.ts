@@ -0,0 +1,253 @@
+// Layout model for the Futures trading workspace: a tree of resizable splits
+// whose leaves are panes (chart, order book, order entry, ...). Layouts are
+// plain JSON so they can be saved to localStorage by name.
+
+export type PaneKind = 'chart' | 'orderBook' | 'trades' | 'depth' | 'orderEntry' | 'positions';
+
+export type SplitDirection = 'horizontal' | 'vertical';
+
+export interface PaneNode {
+  type: 'pane';
+  id: string;
+  kind: PaneKind;
+  coin?: string;       // Market shown by chart, order book, trades and depth panes
+  compact?: boolean;   // Charts: hide the market summary above the chart
+}
+
+export interface SplitNode {
+  type: 'split';
+  id: string;
+  direction: SplitDirection;
+  children: LayoutNode[];
+  sizes: number[];     // Percentages, one per child
+}
+
+export type LayoutNode = PaneNode | SplitNode;
+
+export interface SavedLayout {
+  name: string;
+  layout: LayoutNode;
+  savedAt: number;
+}
+
+export interface PaneDefinition {
+  kind: PaneKind;
+  label: string;
+  hasCoin: boolean;
+}
+
+export const PANE_DEFINITIONS: Record<PaneKind, PaneDefinition> = {
+  chart: { kind: 'chart', label: 'Chart', hasCoin: true },
+  orderBook: { kind: 'orderBook', label: 'Order Book', hasCoin: true },
+  trades: { kind: 'trades', label: 'Trades', hasCoin: true },
+  depth: { kind: 'depth', label: 'Market Depth', hasCoin: true },
+  orderEntry: { kind: 'orderEntry', label: 'Order Entry', hasCoin: false },
+  positions: { kind: 'positions', label: 'Positions', hasCoin: false }
+};
+
+export const DEFAULT_COIN = 'BTC';
+
+const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const createPane = (kind: PaneKind, coin: string = DEFAULT_COIN): PaneNode => ({
+  type: 'pane',
+  id: createId('pane'),
+  kind,
+  ...(PANE_DEFINITIONS[kind].hasCoin ? { coin } : {})
+});
+
+export const createSplit = (
+  direction: SplitDirection,
+  children: LayoutNode[],
+  sizes?: number[]
+): SplitNode => ({
+  type: 'split',
+  id: createId('split'),
+  direction,
+  children,
+  sizes: sizes ?? children.map(() => 100 / children.length)
+});
+
+// Built-in layouts. The default keeps the original Futures page's panels and
+// adds the order book and trades tape beside the chart.
+export const LAYOUT_PRESETS: Record<string, { label: string; create: () => LayoutNode }> = {
+  default: {
+    label: 'Default',
+    create: () => createSplit('vertical', [
+      createSplit('horizontal', [
+        createSplit('vertical', [createPane('chart'), createPane('depth')], [70, 30]),
+        createSplit('vertical', [createPane('orderBook'), createPane('trades'), createPane('orderEntry')], [30, 25, 45])
+      ], [70, 30]),
+      createPane('positions')
+    ], [75, 25])
+  },
+  chartGrid: {
+    label: '2×2 charts',
+    create: () => {
+      const chart = (coin: string): PaneNode => ({ ...createPane('chart', coin), compact: true });
+      return createSplit('horizontal', [
+        createSplit('vertical', [
+          createSplit('horizontal', [chart('BTC'), chart('ETH')]),
+          createSplit('horizontal', [chart('SOL'), chart('HYPE')])
+        ]),
+        createSplit('vertical', [createPane('orderEntry'), createPane('positions')], [60, 40])
+      ], [75, 25]);
+    }
+  }
+};
+
+/**
+ * All panes in the layout, in reading order
+ */
+export const listPanes = (node: LayoutNode): PaneNode[] =>
+  node.type === 'pane' ? [node] : node.children.flatMap(listPanes);
+
+const mapNodes = (node: LayoutNode, update: (node: LayoutNode) => LayoutNode): LayoutNode => {
+  const mapped = node.type === 'split'
+    ? { ...node, children: node.children.map(child => mapNodes(child, update)) }
+    : node;
+  return update(mapped);
+};
+
+/**
+ * Update one pane's settings (kind, coin, ...)
+ */
+export const updatePane = (
+  layout: LayoutNode,
+  paneId: string,
+  changes: Partial<Omit<PaneNode, 'type' | 'id'>>
+): LayoutNode =>
+  mapNodes(layout, node => node.type === 'pane' && node.id === paneId ? { ...node, ...changes } : node);
+
+/**
+ * Split a pane in two, docking a new pane to its right or below it
+ */
+export const splitPane = (
+  layout: LayoutNode,
+  paneId: string,
+  direction: SplitDirection,
+  newPane: PaneNode
+): LayoutNode => {
+  if (layout.type === 'pane') {
+    return layout.id === paneId ? createSplit(direction, [layout, newPane]) : layout;
+  }
+
+  return mapNodes(layout, node => {
+    if (node.type !== 'split') return node;
+
+    const index = node.children.findIndex(child => child.id === paneId);
+    if (index === -1) return node;
+
+    // Dock into the parent split when it runs the same way, sharing the pane's space
+    if (node.direction === direction) {
+      const half = node.sizes[index] / 2;
+      return {
+        ...node,
+        children: [...node.children.slice(0, index + 1), newPane, ...node.children.slice(index + 1)],
+        sizes: [...node.sizes.slice(0, index), half, half, ...node.sizes.slice(index + 1)]
+      };
+    }
+
+    const children = [...node.children];
+    children[index] = createSplit(direction, [node.children[index], newPane]);
+    return { ...node, children };
+  });
+};
+
+/**
+ * Remove a pane, collapsing splits left with a single child. The last pane can't be removed.
+ */
+export const removePane = (layout: LayoutNode, paneId: string): LayoutNode => {
+  if (layout.type === 'pane') return layout;
+
+  const prune = (node: LayoutNode): LayoutNode | null => {
+    if (node.type === 'pane') return node.id === paneId ? null : node;
+
+    const kept = node.children
+      .map((child, index) => ({ child: prune(child), size: node.sizes[index] }))
+      .filter((entry): entry is { child: LayoutNode; size: number } => entry.child !== null);
+
+    if (kept.length === 0) return null;
+    if (kept.length === 1) return kept[0].child;
+
+    // Share the removed pane's space among its siblings
+    const total = kept.reduce((sum, entry) => sum + entry.size, 0);
+    return {
+      ...node,
+      children: kept.map(entry => entry.child),
+      sizes: kept.map(entry => (entry.size / total) * 100)
+    };
+  };
+
+  return prune(layout) ?? layout;
+};
+
+/**
+ * Apply panel sizes reported by the resizable groups, keyed by split ID
+ */
+export const applySizes = (layout: LayoutNode, sizes: Record<string, number[]>): LayoutNode =>
+  mapNodes(layout, node =>
+    node.type === 'split' && sizes[node.id]?.length === node.children.length
+      ? { ...node, sizes: sizes[node.id] }
+      : node
+  );
+
+const isLayoutNode = (value: unknown): value is LayoutNode => {
+  const node = value as {
+    type?: string;
+    id?: unknown;
+    kind?: string;
+    direction?: string;
+    children?: unknown[];
+    sizes?: unknown[];
+  } | null;
+  if (!node || typeof node.id !== 'string') return false;
+  if (node.type === 'pane') return !!node.kind && node.kind in PANE_DEFINITIONS;
+  return node.type === 'split' &&
+    (node.direction === 'horizontal' || node.direction === 'vertical') &&
+    Array.isArray(node.children) &&
+    node.children.length > 0 &&
+    Array.isArray(node.sizes) &&
+    node.sizes.length === node.children.length &&
+    node.children.every(isLayoutNode);
+};
+
+const CURRENT_LAYOUT_KEY = 'prep-trade:workspace';
+const SAVED_LAYOUTS_KEY = 'prep-trade:workspace-layouts';
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Load the layout in use when the page was last open
+ */
+export const loadCurrentLayout = (): LayoutNode | undefined => {
+  const stored = readJson(CURRENT_LAYOUT_KEY);
+  return isLayoutNode(stored) ? stored : undefined;
+};
+
+export const saveCurrentLayout = (layout: LayoutNode): void => {
+  localStorage.setItem(CURRENT_LAYOUT_KEY, JSON.stringify(layout));
+};
+
+/**
+ * Load named layouts, dropping any that no longer match the layout model
+ */
+export const loadSavedLayouts = (): SavedLayout[] => {
+  const stored = readJson(SAVED_LAYOUTS_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.filter((entry): entry is SavedLayout =>
+    typeof entry?.name === 'string' && isLayoutNode(entry.layout)
+  );
+};
+
+export const saveSavedLayouts = (layouts: SavedLayout[]): void => {
+  localStorage.setItem(SAVED_LAYOUTS_KEY, JSON.stringify(layouts));
+};
@@ -11,6 +11,7 @@ export interface AssetInfo {
   name: string;
   szDecimals: number;
   maxLeverage: number;
+  marginTableId?: number;  // Key into MetaResponse.marginTables
   onlyIsolated?: boolean;
   isDelisted?: boolean;
 }
@@ -128,6 +129,8 @@ export interface OpenOrder {
   reduceOnly?: boolean;
   triggerCondition?: string;
   triggerPx?: string;
+  tif?: string | null;     // "Gtc" | "Alo" | "Ioc"; null for trigger orders
+  cloid?: string | null;   // Client order ID, if the order was placed with one
 }
 
 export interface Fill {
@@ -148,6 +151,34 @@ export interface Fill {
   tid: number;
 }
 
+// orderUpdates stream entry: an order's latest status
+export interface WsOrderUpdate {
+  order: {
+    coin: string;
+    side: "A" | "B";
+    limitPx: string;
+    sz: string;             // Remaining size
+    oid: number;
+    timestamp: number;
+    origSz: string;
+    cloid?: string | null;
+  };
+  status: string;           // "open", "filled", "canceled", "triggered", "rejected" or a reason like "marginCanceled"
+  statusTimestamp: number;
+}
+
+// orderStatus lookup by oid or cloid; "unknownOid" when the exchange has no such order
+export type OrderStatusResponse =
+  | { status: "order"; order: WsOrderUpdate }
+  | { status: "unknownOid" };
+
+// userFills stream message; the first one after subscribing is a snapshot of recent fills
+export interface WsUserFills {
+  isSnapshot?: boolean;
+  user: string;
+  fills: Fill[];
+}
+
 // API Request/Response Types
 export interface APIRequest<T = any> {
   type: string;
@@ -186,6 +217,7 @@ export interface Position {
   pnlPercent: number;
   marginUsed: number;
   leverage: number;
+  marginMode: "cross" | "isolated";
 }
 
 export interface OrderRequest {
@@ -198,6 +230,215 @@ export interface OrderRequest {
   reduceOnly?: boolean;
 }
 
+// Exchange Action Types
+export type TimeInForce = "Gtc" | "Ioc" | "Alo";
+
+export type OrderTypeWire =
+  | { limit: { tif: TimeInForce } }
+  | { trigger: { isMarket: boolean; triggerPx: string; tpsl: "tp" | "sl" } };
+
+export interface OrderWire {
+  a: number;      // Asset index in the perp universe
+  b: boolean;     // Is buy
+  p: string;      // Limit price
+  s: string;      // Size
+  r: boolean;     // Reduce only
+  t: OrderTypeWire;
+  c?: string;     // Client order ID (cloid), 16 bytes as 0x-prefixed hex
+}
+
+// "normalTpsl": entry plus TP/SL children; "positionTpsl": TP/SL attached to the open position
+export type OrderGrouping = "na" | "normalTpsl" | "positionTpsl";
+
+export interface OrderAction {
+  type: "order";
+  orders: OrderWire[];
+  grouping: OrderGrouping;
+}
+
+export interface CancelAction {
+  type: "cancel";
+  cancels: Array<{ a: number; o: number }>;
+}
+
+export interface CancelByCloidAction {
+  type: "cancelByCloid";
+  cancels: Array<{ asset: number; cloid: string }>;
+}
+
+export interface ModifyWire {
+  oid: number | string;   // Exchange order ID or client order ID
+  order: OrderWire;
+}
+
+export interface ModifyAction extends ModifyWire {
+  type: "modify";
+}
+
+export interface BatchModifyAction {
+  type: "batchModify";
+  modifies: ModifyWire[];
+}
+
+// Time-weighted order: the exchange slices the size over the duration
+export interface TwapWire {
+  a: number;      // Asset index in the perp universe
+  b: boolean;     // Is buy
+  s: string;      // Total size
+  r: boolean;     // Reduce only
+  m: number;      // Duration in minutes
+  t: boolean;     // Randomize slice timing
+}
+
+export interface TwapOrderAction {
+  type: "twapOrder";
+  twap: TwapWire;
+}
+
+export interface TwapCancelAction {
+  type: "twapCancel";
+  a: number;      // Asset index
+  t: number;      // TWAP ID
+}
+
+// Set an asset's leverage and margin mode for its position and future orders
+export interface UpdateLeverageAction {
+  type: "updateLeverage";
+  asset: number;
+  isCross: boolean;
+  leverage: number;   // Whole number up to the asset's max leverage
+}
+
+// Add margin to (positive ntli) or remove it from (negative ntli) an isolated position
+export interface UpdateIsolatedMarginAction {
+  type: "updateIsolatedMargin";
+  asset: number;
+  isBuy: boolean;     // Side of the position
+  ntli: number;       // USD amount scaled by 1e6
+}
+
+// Cancel all open orders at `time` (ms); omit `time` to clear the schedule
+export interface ScheduleCancelAction {
+  type: "scheduleCancel";
+  time?: number;
+}
+
+// User-signed action: signed by the main wallet against its own chain ID
+export interface ApproveAgentAction {
+  type: "approveAgent";
+  signatureChainId: `0x${string}`;
+  hyperliquidChain: "Mainnet" | "Testnet";
+  agentAddress: `0x${string}`;
+  agentName: string;
+  nonce: number;
+}
+
+export type ExchangeAction =
+  | OrderAction
+  | CancelAction
+  | CancelByCloidAction
+  | ModifyAction
+  | BatchModifyAction
+  | TwapOrderAction
+  | TwapCancelAction
+  | UpdateLeverageAction
+  | UpdateIsolatedMarginAction
+  | ScheduleCancelAction
+  | ApproveAgentAction;
+
+export interface HyperliquidSignature {
+  r: `0x${string}`;
+  s: `0x${string}`;
+  v: number;
+}
+
+export interface ExchangeRequest {
+  action: ExchangeAction;
+  nonce: number;
+  signature: HyperliquidSignature;
+  vaultAddress: string | null;
+  expiresAfter?: number;
+}
+
+// Per-order status returned by order, cancel and modify actions. TP/SL children
+// of a normalTpsl group report "waitingForFill" / "waitingForTrigger" until their
+// parent fills or their trigger is hit.
+export type ExchangeOrderStatus =
+  | { resting: { oid: number; cloid?: string } }
+  | { filled: { totalSz: string; avgPx: string; oid: number; cloid?: string } }
+  | { error: string }
+  | "success"
+  | "waitingForFill"
+  | "waitingForTrigger";
+
+// Status returned by twapOrder and twapCancel actions
+export type ExchangeTwapStatus =
+  | { running: { twapId: number } }
+  | { error: string }
+  | "success";
+
+export interface ExchangeResponse {
+  status: "ok" | "err";
+  response: string | {
+    type: string;
+    data?: {
+      statuses?: ExchangeOrderStatus[];
+      status?: ExchangeTwapStatus;
+    };
+  };
+}
+
+export interface OrderExecutionResult {
+  success: boolean;
+  orderId?: string;
+  cloid?: string;
+  status?: "resting" | "filled" | "pending";   // pending: accepted, waiting on its parent or trigger
+  filledSize?: number;
+  averagePrice?: number;
+  error?: string;
+}
+
+// Result of actions with no per-order status, such as leverage and margin updates
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface TwapExecutionResult {
+  success: boolean;
+  twapId?: number;
+  error?: string;
+}
+
+// TWAP history
+export interface TwapState {
+  coin: string;
+  user: string;
+  side: "A" | "B";
+  sz: string;             // Total size
+  executedSz: string;
+  executedNtl: string;
+  minutes: number;
+  reduceOnly: boolean;
+  randomize: boolean;
+  timestamp: number;      // Start time (ms)
+}
+
+export interface TwapHistoryEntry {
+  time: number;
+  state: TwapState;
+  status: {
+    status: "activated" | "finished" | "terminated" | "error";
+    description?: string;
+  };
+  twapId?: number;
+}
+
+export interface TwapSliceFill {
+  fill: Fill;
+  twapId: number;
+}
+
 // WebSocket Types
 export interface WSSubscription {
   method: "subscribe";
@@ -217,6 +458,7 @@ export interface WSMessage<T = any> {
 export interface HyperliquidError {
   code: string;
   message: string;
+  status?: number;  // HTTP status; absent when no response was received
   details?: any;
 }
 
@@ -241,11 +483,30 @@ export interface FeeStructure {
       spotAdd: string;
     }>;
     mm: Array<{
-      makerFractionCutoff: string;
+      makerFractionCutoff: string;  // Share of exchange maker volume
       add: string;
     }>;
   };
   referralDiscount: string;
+  stakingDiscountTiers?: Array<{
+    bpsOfMaxSupply: string;
+    discount: string;
+  }>;
+}
+
+// Response of the userFees info request: the fee schedule plus the user's volume and discounts
+export interface UserFees {
+  dailyUserVlm: Array<{
+    date: string;
+    userCross: string;  // Taker volume
+    userAdd: string;    // Maker volume
+    exchange: string;   // Exchange-wide volume
+  }>;
+  feeSchedule: FeeStructure;
+  userCrossRate: string;
+  userAddRate: string;
+  activeReferralDiscount: string;
+  activeStakingDiscount: { bpsOfMaxSupply: string; discount: string } | null;
 }
 
 // Portfolio Types